@@ -1,14 +1,18 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import { CssBaseline } from '@mui/material';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { Layout } from './components/Layout';
+import { StorageRecoveryDialog } from './components/StorageRecoveryDialog';
+import { UnlockGate } from './components/UnlockGate';
 import { HomePage } from './pages/HomePage';
 import { StatisticsPage } from './pages/StatisticsPage';
 import { RedirectPage } from './pages/RedirectPage';
 import NotFound from './pages/NotFound';
+import { scheduleStartupMaintenance } from './services/maintenance';
+import { APP_ROUTES } from './routes';
 
 // Create Material UI theme
 const theme = createTheme({
@@ -94,13 +98,39 @@ const AppWithLayout: React.FC = () => {
   return (
     <Layout>
       <Routes>
-        <Route path="/" element={<HomePage />} />
-        <Route path="/statistics" element={<StatisticsPage />} />
+        <Route path={APP_ROUTES.home} element={<HomePage />} />
+        <Route path={APP_ROUTES.statistics} element={<StatisticsPage />} />
       </Routes>
     </Layout>
   );
 };
 
+/**
+ * Routes and startup tasks; only mounted once storage is readable
+ */
+const AppRoutes: React.FC = () => {
+  useEffect(() => scheduleStartupMaintenance(), []);
+
+  return (
+    <>
+      <StorageRecoveryDialog />
+      <BrowserRouter>
+        <Routes>
+          {/* Main application routes with layout */}
+          <Route path={APP_ROUTES.home} element={<AppWithLayout />} />
+          <Route path={APP_ROUTES.statistics} element={<AppWithLayout />} />
+          
+          {/* Shortcode redirect route (no layout); extra segments are for wildcard links */}
+          <Route path="/:shortcode/*" element={<RedirectPage />} />
+          
+          {/* 404 Not Found (no layout) */}
+          <Route path="*" element={<NotFound />} />
+        </Routes>
+      </BrowserRouter>
+    </>
+  );
+};
+
 /**
  * Main App component with Material UI theming and routing
  * Implements production-grade error handling and layout structure
@@ -111,19 +141,9 @@ const App: React.FC = () => {
       <QueryClientProvider client={queryClient}>
         <ThemeProvider theme={theme}>
           <CssBaseline />
-          <BrowserRouter>
-            <Routes>
-              {/* Main application routes with layout */}
-              <Route path="/" element={<AppWithLayout />} />
-              <Route path="/statistics" element={<AppWithLayout />} />
-              
-              {/* Shortcode redirect route (no layout) */}
-              <Route path="/:shortcode" element={<RedirectPage />} />
-              
-              {/* 404 Not Found (no layout) */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </BrowserRouter>
+          <UnlockGate>
+            <AppRoutes />
+          </UnlockGate>
         </ThemeProvider>
       </QueryClientProvider>
     </ErrorBoundary>
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import {
+  Paper,
+  Typography,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Box,
+  CircularProgress,
+} from '@mui/material';
+import { Speed } from '@mui/icons-material';
+import { CacheBenchmarkResult, runCacheBenchmark } from '../services/cacheBenchmark';
+import { logger } from '../middleware/logger';
+
+/**
+ * Benchmark mode panel - shows shortcode lookup latency at 10k and 100k links
+ * Enabled on the statistics page with `?benchmark=1`
+ */
+export const CacheBenchmarkPanel: React.FC = () => {
+  const [results, setResults] = useState<CacheBenchmarkResult[]>([]);
+  const [running, setRunning] = useState(false);
+
+  const handleRun = () => {
+    setRunning(true);
+    logger.logUserAction('run_cache_benchmark', 'cache-benchmark');
+
+    // Let the spinner render before the synchronous benchmark blocks the thread
+    setTimeout(() => {
+      setResults(runCacheBenchmark());
+      setRunning(false);
+    }, 50);
+  };
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box>
+          <Typography variant="h6" fontWeight={600}>
+            Lookup Benchmark
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Indexed cache vs. linear scan on synthetic links. Stored links are not touched.
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          startIcon={running ? <CircularProgress size={20} /> : <Speed />}
+          onClick={handleRun}
+          disabled={running}
+        >
+          {running ? 'Running...' : 'Run Benchmark'}
+        </Button>
+      </Box>
+
+      {results.length > 0 && (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Links</TableCell>
+              <TableCell align="right">Index build (ms)</TableCell>
+              <TableCell align="right">Cache lookup (µs)</TableCell>
+              <TableCell align="right">Linear scan (µs)</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {results.map(result => (
+              <TableRow key={result.linkCount}>
+                <TableCell>{result.linkCount.toLocaleString()}</TableCell>
+                <TableCell align="right">{result.buildMs}</TableCell>
+                <TableCell align="right">{result.cacheLookupMicros}</TableCell>
+                <TableCell align="right">{result.linearScanMicros}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+};
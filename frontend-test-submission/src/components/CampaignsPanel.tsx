@@ -0,0 +1,92 @@
+import React from 'react';
+import {
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { ShortUrl } from '../types';
+import { readUtmParameters } from '../services/utm';
+
+interface CampaignsPanelProps {
+  urls: ShortUrl[];
+  /** Campaign whose links the table is limited to, if any */
+  selected: string | null;
+  onSelect: (campaign: string | null) => void;
+}
+
+interface CampaignSummary {
+  campaign: string;
+  channels: Set<string>;
+  links: number;
+  clicks: number;
+}
+
+/**
+ * Links and clicks grouped by their utm_campaign; picking a row filters the
+ * links table to that campaign
+ */
+export const CampaignsPanel: React.FC<CampaignsPanelProps> = ({ urls, selected, onSelect }) => {
+  const campaigns = new Map<string, CampaignSummary>();
+  urls.forEach(url => {
+    const params = readUtmParameters(url.originalUrl);
+    if (!params.campaign) return;
+
+    const summary = campaigns.get(params.campaign)
+      || { campaign: params.campaign, channels: new Set<string>(), links: 0, clicks: 0 };
+    summary.links += 1;
+    summary.clicks += url.clickCount;
+    if (params.source || params.medium) {
+      summary.channels.add([params.source, params.medium].filter(Boolean).join(' / '));
+    }
+    campaigns.set(params.campaign, summary);
+  });
+
+  if (campaigns.size === 0) {
+    return null;
+  }
+
+  const rows = Array.from(campaigns.values()).sort((a, b) => b.clicks - a.clicks);
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Typography variant="h6" fontWeight={600} gutterBottom>
+        Campaigns ({rows.length})
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        Grouped by utm_campaign. Select a campaign to show only its links below.
+      </Typography>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Campaign</TableCell>
+            <TableCell>Source / Medium</TableCell>
+            <TableCell align="right">Links</TableCell>
+            <TableCell align="right">Clicks</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow
+              key={row.campaign}
+              hover
+              selected={row.campaign === selected}
+              onClick={() => onSelect(row.campaign === selected ? null : row.campaign)}
+              sx={{ cursor: 'pointer' }}
+            >
+              <TableCell>
+                <strong>{row.campaign}</strong>
+              </TableCell>
+              <TableCell>{Array.from(row.channels).join(', ') || '—'}</TableCell>
+              <TableCell align="right">{row.links}</TableCell>
+              <TableCell align="right">{row.clicks}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+};
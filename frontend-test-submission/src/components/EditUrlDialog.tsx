@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  TextField,
+  FormControlLabel,
+  Switch,
+  CircularProgress,
+  Divider,
+} from '@mui/material';
+import { PassthroughSettings, RedirectRule, ShortUrl, SplitVariant, UpdateUrlRequest } from '../types';
+import { urlService } from '../services/urlService';
+import { workspaceService } from '../services/workspaces';
+import { MAX_EXPIRED_MESSAGE_LENGTH, describeExpiryPolicy } from '../services/expiry';
+import { logger } from '../middleware/logger';
+import { RedirectRulesEditor } from './RedirectRulesEditor';
+import { SplitVariantsEditor } from './SplitVariantsEditor';
+import { PassthroughFields } from './PassthroughFields';
+
+interface EditUrlDialogProps {
+  url: ShortUrl | null;
+  onClose: () => void;
+}
+
+const EXTEND_OPTIONS = [
+  { label: '+1 hour', minutes: 60 },
+  { label: '+1 day', minutes: 1440 },
+];
+
+/**
+ * Value for a datetime-local input, in the browser's time zone
+ */
+const toLocalInput = (date: Date | null) =>
+  date ? new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16) : '';
+
+/**
+ * Edit the destination, passthrough, redirect rules, A/B split, expiry,
+ * expired page and paused state of an existing link
+ */
+export const EditUrlDialog: React.FC<EditUrlDialogProps> = ({ url, onClose }) => {
+  const [originalUrl, setOriginalUrl] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [neverExpires, setNeverExpires] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [redirectRules, setRedirectRules] = useState<RedirectRule[]>([]);
+  const [splitVariants, setSplitVariants] = useState<SplitVariant[]>([]);
+  const [passthrough, setPassthrough] = useState<PassthroughSettings | null>(null);
+  const [fallbackUrl, setFallbackUrl] = useState('');
+  const [expiredMessage, setExpiredMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!url) return;
+    setOriginalUrl(url.originalUrl);
+    setExpiresAt(toLocalInput(url.expiresAt));
+    setNeverExpires(url.expiresAt === null);
+    setIsPaused(url.isPaused);
+    setRedirectRules(url.redirectRules);
+    setSplitVariants(url.splitVariants);
+    setPassthrough(url.passthrough);
+    setFallbackUrl(url.fallbackUrl || '');
+    setExpiredMessage(url.expiredMessage || '');
+    setError(null);
+  }, [url]);
+
+  const extendBy = (minutes: number) => {
+    // Extending an expired link counts from now rather than from its old expiry
+    const base = Math.max(new Date(expiresAt).getTime() || 0, Date.now());
+    setExpiresAt(toLocalInput(new Date(base + minutes * 60000)));
+  };
+
+  const handleSave = async () => {
+    if (!url) return;
+
+    const patch: UpdateUrlRequest = {};
+    if (originalUrl.trim() !== url.originalUrl) {
+      patch.originalUrl = originalUrl;
+    }
+    if (neverExpires !== (url.expiresAt === null) || (!neverExpires && expiresAt !== toLocalInput(url.expiresAt))) {
+      patch.expiresAt = neverExpires ? null : new Date(expiresAt);
+    }
+    if (isPaused !== url.isPaused) {
+      patch.isPaused = isPaused;
+    }
+    if (fallbackUrl.trim() !== (url.fallbackUrl || '')) {
+      patch.fallbackUrl = fallbackUrl.trim() || null;
+    }
+    if (expiredMessage.trim() !== (url.expiredMessage || '')) {
+      patch.expiredMessage = expiredMessage.trim() || null;
+    }
+    if (JSON.stringify(redirectRules) !== JSON.stringify(url.redirectRules)) {
+      patch.redirectRules = redirectRules;
+    }
+    if (JSON.stringify(passthrough) !== JSON.stringify(url.passthrough)) {
+      patch.passthrough = passthrough;
+    }
+    if (JSON.stringify(splitVariants) !== JSON.stringify(url.splitVariants)) {
+      patch.splitVariants = splitVariants;
+    }
+    if (Object.keys(patch).length === 0) {
+      onClose();
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    logger.logUserAction('edit_url', 'edit-url-dialog', { shortcode: url.shortcode, fields: Object.keys(patch) });
+
+    try {
+      await urlService.updateUrl(url.shortcode, patch);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { maxValidityMinutes } = workspaceService.getActive().defaults;
+
+  return (
+    <Dialog open={url !== null} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Edit /{url?.shortcode}</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <TextField
+          label="Destination URL"
+          value={originalUrl}
+          onChange={(e) => setOriginalUrl(e.target.value)}
+          fullWidth
+          sx={{ mt: 1, mb: 2 }}
+        />
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+          <TextField
+            type="datetime-local"
+            label="Expires at"
+            value={neverExpires ? '' : expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+            helperText={url?.inactivityDays
+              ? `Currently expires ${describeExpiryPolicy(url).toLowerCase()}; saving a new expiry turns that off`
+              : undefined}
+            disabled={neverExpires}
+            InputLabelProps={{ shrink: true }}
+            sx={{ flex: 1 }}
+          />
+          {EXTEND_OPTIONS.map(option => (
+            <Button
+              key={option.minutes}
+              size="small"
+              onClick={() => extendBy(option.minutes)}
+              disabled={neverExpires}
+            >
+              {option.label}
+            </Button>
+          ))}
+          <FormControlLabel
+            control={
+              <Switch
+                checked={neverExpires}
+                onChange={(e) => setNeverExpires(e.target.checked)}
+                disabled={maxValidityMinutes !== null && !neverExpires}
+              />
+            }
+            label="Never expires"
+            title={maxValidityMinutes !== null ? `Links in this workspace must expire within ${maxValidityMinutes} minutes` : undefined}
+          />
+        </Box>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="Fallback URL after expiry (optional)"
+            value={fallbackUrl}
+            onChange={(e) => setFallbackUrl(e.target.value)}
+            helperText="Visitors are sent here once the link has expired"
+            sx={{ flex: 1, minWidth: 240 }}
+          />
+          <TextField
+            label="Expired page message (optional)"
+            value={expiredMessage}
+            onChange={(e) => setExpiredMessage(e.target.value)}
+            helperText={fallbackUrl.trim() ? 'Not shown while a fallback URL is set' : 'Replaces the default expired text'}
+            inputProps={{ maxLength: MAX_EXPIRED_MESSAGE_LENGTH }}
+            multiline
+            maxRows={4}
+            sx={{ flex: 1, minWidth: 240 }}
+          />
+        </Box>
+        <FormControlLabel
+          control={<Switch checked={isPaused} onChange={(e) => setIsPaused(e.target.checked)} />}
+          label="Paused (visitors are not redirected)"
+        />
+        <PassthroughFields value={passthrough} onChange={setPassthrough} disabled={saving} />
+        {url && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <RedirectRulesEditor
+              key={url.id}
+              initialRules={url.redirectRules}
+              onChange={setRedirectRules}
+              disabled={saving}
+            />
+            <Divider sx={{ my: 2 }} />
+            <SplitVariantsEditor
+              key={`${url.id}-split`}
+              initialVariants={url.splitVariants}
+              currentDestination={originalUrl}
+              onChange={setSplitVariants}
+              disabled={saving}
+            />
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {saving && <CircularProgress size={24} sx={{ mr: 'auto', ml: 2 }} />}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving || originalUrl.trim() === ''}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Button,
+  TextField,
+  Typography,
+  CircularProgress,
+} from '@mui/material';
+import { storageService } from '../services/storage';
+import { MIN_PASSPHRASE_LENGTH } from '../services/encryption';
+import { logger } from '../middleware/logger';
+
+interface EncryptionSettingsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Turn at-rest encryption on or off, or change its passphrase
+ */
+export const EncryptionSettingsDialog: React.FC<EncryptionSettingsDialogProps> = ({ open, onClose }) => {
+  const enabled = storageService.getEncryptionState() !== 'disabled';
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const resetForm = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setError(null);
+  };
+
+  const handleClose = () => {
+    resetForm();
+    setSuccess(null);
+    onClose();
+  };
+
+  const run = async (action: string, task: () => Promise<void>, message: string) => {
+    setWorking(true);
+    setError(null);
+    setSuccess(null);
+    logger.logUserAction(action, 'encryption-settings');
+
+    try {
+      await task();
+      resetForm();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update encryption');
+      logger.error('encryption-settings', 'Encryption update failed', {
+        action,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const newPassphraseError =
+    newPassphrase !== '' && newPassphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : confirmPassphrase !== '' && confirmPassphrase !== newPassphrase
+        ? 'Passphrases do not match'
+        : null;
+  const canSetNew = newPassphrase.length >= MIN_PASSPHRASE_LENGTH && newPassphrase === confirmPassphrase;
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Encryption</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {enabled
+            ? 'Stored links are encrypted. You will need your passphrase each time the app opens.'
+            : 'Encrypt stored links with a passphrase. There is no way to recover a forgotten passphrase.'}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {success && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {success}
+          </Alert>
+        )}
+
+        {enabled && (
+          <TextField
+            type="password"
+            label="Current passphrase"
+            value={currentPassphrase}
+            onChange={(e) => setCurrentPassphrase(e.target.value)}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+        )}
+        <TextField
+          type="password"
+          label={enabled ? 'New passphrase' : 'Passphrase'}
+          value={newPassphrase}
+          onChange={(e) => setNewPassphrase(e.target.value)}
+          fullWidth
+          sx={{ mb: 2 }}
+        />
+        <TextField
+          type="password"
+          label="Confirm passphrase"
+          value={confirmPassphrase}
+          onChange={(e) => setConfirmPassphrase(e.target.value)}
+          error={newPassphraseError !== null}
+          helperText={newPassphraseError}
+          fullWidth
+        />
+      </DialogContent>
+      <DialogActions>
+        {working && <CircularProgress size={24} sx={{ mr: 'auto', ml: 2 }} />}
+        {enabled ? (
+          <>
+            <Button
+              color="error"
+              onClick={() => run(
+                'disable_encryption',
+                () => storageService.disableEncryption(currentPassphrase),
+                'Encryption turned off'
+              )}
+              disabled={working || currentPassphrase === ''}
+            >
+              Turn off encryption
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => run(
+                'change_passphrase',
+                () => storageService.changePassphrase(currentPassphrase, newPassphrase),
+                'Passphrase changed'
+              )}
+              disabled={working || currentPassphrase === '' || !canSetNew}
+            >
+              Change passphrase
+            </Button>
+          </>
+        ) : (
+          <Button
+            variant="contained"
+            onClick={() => run(
+              'enable_encryption',
+              () => storageService.enableEncryption(newPassphrase),
+              'Encryption turned on'
+            )}
+            disabled={working || !canSetNew}
+          >
+            Turn on encryption
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
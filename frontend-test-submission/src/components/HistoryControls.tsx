@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, TextField, Tooltip } from '@mui/material';
+import { Undo, Redo } from '@mui/icons-material';
+import { ShortUrl, StorageEvent } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../middleware/logger';
+import { useStorageChanges } from '../hooks/use-storage-changes';
+
+interface HistoryControlsProps {
+  /** Called with the projected URLs for a past moment, or null for the live view */
+  onAsOfChange: (asOf: { date: Date; urls: ShortUrl[] } | null) => void;
+  onError: (message: string) => void;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  created: 'creating',
+  updated: 'editing',
+  imported: 'importing',
+};
+
+const describeEvent = (event: StorageEvent) => {
+  const count = event.shortcodes.length;
+  // Moving links to and from the trash is recorded as an edit of deletedAt
+  const label = event.changes && 'deletedAt' in event.changes
+    ? (event.changes.deletedAt ? 'deleting' : 'restoring')
+    : EVENT_LABELS[event.type] || event.type;
+  return `${label} ${count} link${count !== 1 ? 's' : ''}`;
+};
+
+/**
+ * Undo/redo buttons and a point-in-time picker backed by the event log
+ */
+export const HistoryControls: React.FC<HistoryControlsProps> = ({ onAsOfChange, onError }) => {
+  const [history, setHistory] = useState<{ undo: StorageEvent | null; redo: StorageEvent | null }>({
+    undo: null,
+    redo: null,
+  });
+  const [asOfInput, setAsOfInput] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await urlService.getHistoryState());
+    } catch (error) {
+      logger.error('history-controls', 'Failed to load history state', { error: error.message });
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  useStorageChanges(event => {
+    // Clicks are logged but not undoable, so they cannot change what undo does
+    if (event.type === 'click-recorded' || event.type === 'clicks-compacted') return;
+    loadHistory();
+  });
+
+  const handleStep = async (direction: 'undo' | 'redo') => {
+    setWorking(true);
+    try {
+      const event = direction === 'undo' ? await urlService.undoLastChange() : await urlService.redoLastChange();
+      logger.logUserAction(direction, 'history-controls', { eventType: event?.type });
+    } catch (error) {
+      onError(error instanceof Error ? error.message : `Failed to ${direction}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleAsOfChange = async (value: string) => {
+    setAsOfInput(value);
+    if (!value) {
+      onAsOfChange(null);
+      return;
+    }
+
+    const date = new Date(value);
+    logger.logUserAction('view_as_of', 'history-controls', { asOf: date.toISOString() });
+    try {
+      onAsOfChange({ date, urls: await urlService.getUrlsAsOf(date) });
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to load past state');
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+      <Tooltip title={history.undo ? `Undo ${describeEvent(history.undo)}` : 'Nothing to undo'}>
+        <span>
+          <Button
+            startIcon={<Undo />}
+            onClick={() => handleStep('undo')}
+            disabled={working || !history.undo || asOfInput !== ''}
+          >
+            Undo
+          </Button>
+        </span>
+      </Tooltip>
+      <Tooltip title={history.redo ? `Redo ${describeEvent(history.redo)}` : 'Nothing to redo'}>
+        <span>
+          <Button
+            startIcon={<Redo />}
+            onClick={() => handleStep('redo')}
+            disabled={working || !history.redo || asOfInput !== ''}
+          >
+            Redo
+          </Button>
+        </span>
+      </Tooltip>
+      <TextField
+        type="datetime-local"
+        size="small"
+        label="View as of"
+        value={asOfInput}
+        onChange={(e) => handleAsOfChange(e.target.value)}
+        InputLabelProps={{ shrink: true }}
+      />
+    </Box>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   AppBar,
   Toolbar,
@@ -9,8 +9,11 @@ import {
   Tooltip,
 } from '@mui/material';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Analytics, GitHub } from '@mui/icons-material';
+import { Home, Analytics, GitHub, Lock } from '@mui/icons-material';
 import { logger } from '../middleware/logger';
+import { EncryptionSettingsDialog } from './EncryptionSettingsDialog';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { useActiveWorkspace } from '../hooks/use-active-workspace';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -21,6 +24,8 @@ interface LayoutProps {
  */
 export const Layout: React.FC<LayoutProps> = ({ children }) => {
   const location = useLocation();
+  const [encryptionOpen, setEncryptionOpen] = useState(false);
+  const workspace = useActiveWorkspace();
 
   React.useEffect(() => {
     logger.logUserAction('page_view', 'layout', {
@@ -45,7 +50,9 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
             URL Shortener Pro
           </Typography>
 
-          <Box sx={{ display: 'flex', gap: 1 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <WorkspaceSwitcher />
+
             <Tooltip title="Home">
               <IconButton
                 color="inherit"
@@ -74,6 +81,18 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
               </IconButton>
             </Tooltip>
 
+            <Tooltip title="Encryption">
+              <IconButton
+                color="inherit"
+                onClick={() => {
+                  handleNavClick('encryption');
+                  setEncryptionOpen(true);
+                }}
+              >
+                <Lock />
+              </IconButton>
+            </Tooltip>
+
             <Tooltip title="View on GitHub">
               <IconButton
                 color="inherit"
@@ -89,7 +108,9 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         </Toolbar>
       </AppBar>
 
+      {/* Remount pages on switch so they reload the new workspace's links */}
       <Container
+        key={workspace.id}
         maxWidth="lg"
         sx={{
           flex: 1,
@@ -102,6 +123,8 @@ export const Layout: React.FC<LayoutProps> = ({ children }) => {
         {children}
       </Container>
 
+      <EncryptionSettingsDialog open={encryptionOpen} onClose={() => setEncryptionOpen(false)} />
+
       <Box
         component="footer"
         sx={{
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Box, FormControlLabel, MenuItem, Switch, TextField } from '@mui/material';
+import { PassthroughSettings, QueryConflictPolicy } from '../types';
+import { CONFLICT_POLICY_LABELS, DEFAULT_PASSTHROUGH } from '../services/passthrough';
+
+interface PassthroughFieldsProps {
+  value: PassthroughSettings | null;
+  onChange: (settings: PassthroughSettings | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Opt-in forwarding of the visitor's query string and extra path segments
+ */
+export const PassthroughFields: React.FC<PassthroughFieldsProps> = ({ value, onChange, disabled }) => {
+  const settings = value || { ...DEFAULT_PASSTHROUGH, forwardQuery: false };
+
+  const update = (changes: Partial<PassthroughSettings>) => {
+    const next = { ...settings, ...changes };
+    onChange(next.forwardQuery || next.wildcardPath ? next : null);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={settings.forwardQuery}
+            onChange={(_, checked) => update({ forwardQuery: checked })}
+            disabled={disabled}
+          />
+        }
+        label="Pass query string through"
+      />
+      {settings.forwardQuery && (
+        <TextField
+          select
+          size="small"
+          label="On conflicting parameters"
+          value={settings.conflictPolicy}
+          onChange={(e) => update({ conflictPolicy: e.target.value as QueryConflictPolicy })}
+          disabled={disabled}
+          sx={{ minWidth: 220 }}
+        >
+          {(Object.keys(CONFLICT_POLICY_LABELS) as QueryConflictPolicy[]).map(policy => (
+            <MenuItem key={policy} value={policy}>
+              {CONFLICT_POLICY_LABELS[policy]}
+            </MenuItem>
+          ))}
+        </TextField>
+      )}
+      <FormControlLabel
+        control={
+          <Switch
+            checked={settings.wildcardPath}
+            onChange={(_, checked) => update({ wildcardPath: checked })}
+            disabled={disabled}
+          />
+        }
+        label="Wildcard paths (/code/extra/path)"
+      />
+    </Box>
+  );
+};
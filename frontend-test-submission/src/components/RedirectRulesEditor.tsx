@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, ArrowDownward, ArrowUpward, Delete } from '@mui/icons-material';
+import { v4 as uuidv4 } from 'uuid';
+import { DeviceType, RedirectRule, RuleCondition } from '../types';
+import { DEVICE_LABELS } from '../services/redirectRules';
+import { MAX_REDIRECT_RULES } from '../utils/validation';
+
+interface RedirectRulesEditorProps {
+  initialRules: RedirectRule[];
+  onChange: (rules: RedirectRule[]) => void;
+  disabled?: boolean;
+}
+
+type ConditionType = RuleCondition['type'];
+
+/**
+ * Editable form of a rule; list conditions are kept as the typed text
+ */
+interface RuleDraft {
+  id: string;
+  type: ConditionType;
+  devices: DeviceType[];
+  list: string;
+  days: number[];
+  start: string;
+  end: string;
+  timeZone: string;
+  destination: string;
+}
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  device: 'Device',
+  language: 'Language',
+  country: 'Country',
+  time: 'Time of day',
+};
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const splitList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+function newDraft(): RuleDraft {
+  return {
+    id: uuidv4(),
+    type: 'device',
+    devices: ['ios'],
+    list: '',
+    days: [1, 2, 3, 4, 5],
+    start: '09:00',
+    end: '17:00',
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    destination: '',
+  };
+}
+
+function toDraft(rule: RedirectRule): RuleDraft {
+  const draft = { ...newDraft(), id: rule.id, type: rule.condition.type, destination: rule.destination };
+  const { condition } = rule;
+  switch (condition.type) {
+    case 'device':
+      return { ...draft, devices: condition.devices };
+    case 'language':
+      return { ...draft, list: condition.languages.join(', ') };
+    case 'country':
+      return { ...draft, list: condition.countries.join(', ') };
+    case 'time': {
+      const [window] = condition.hours.windows;
+      return { ...draft, timeZone: condition.hours.timeZone, days: window.days, start: window.start, end: window.end };
+    }
+  }
+}
+
+function toRule(draft: RuleDraft): RedirectRule {
+  const conditions: Record<ConditionType, () => RuleCondition> = {
+    device: () => ({ type: 'device', devices: draft.devices }),
+    language: () => ({ type: 'language', languages: splitList(draft.list) }),
+    country: () => ({ type: 'country', countries: splitList(draft.list) }),
+    time: () => ({
+      type: 'time',
+      hours: { timeZone: draft.timeZone.trim(), windows: [{ days: draft.days, start: draft.start, end: draft.end }] },
+    }),
+  };
+  return { id: draft.id, condition: conditions[draft.type](), destination: draft.destination.trim() };
+}
+
+/**
+ * Ordered list of conditional redirect rules; the first match wins
+ */
+export const RedirectRulesEditor: React.FC<RedirectRulesEditorProps> = ({ initialRules, onChange, disabled }) => {
+  const [drafts, setDrafts] = useState<RuleDraft[]>(() => initialRules.map(toDraft));
+
+  const commit = (next: RuleDraft[]) => {
+    setDrafts(next);
+    onChange(next.map(toRule));
+  };
+
+  const updateDraft = (id: string, changes: Partial<RuleDraft>) => {
+    commit(drafts.map(draft => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  const moveDraft = (index: number, offset: number) => {
+    const next = [...drafts];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    commit(next);
+  };
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        Redirect rules
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        Checked from top to bottom; visitors matching no rule go to the destination URL above.
+      </Typography>
+
+      {drafts.map((draft, index) => (
+        <Paper key={draft.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+            <Typography variant="body2" fontWeight={600} sx={{ minWidth: 24 }}>
+              {index + 1}.
+            </Typography>
+            <TextField
+              select
+              size="small"
+              label="If"
+              value={draft.type}
+              onChange={(e) => updateDraft(draft.id, { type: e.target.value as ConditionType, list: '' })}
+              disabled={disabled}
+              sx={{ minWidth: 140 }}
+            >
+              {(Object.keys(CONDITION_LABELS) as ConditionType[]).map(type => (
+                <MenuItem key={type} value={type}>
+                  {CONDITION_LABELS[type]}
+                </MenuItem>
+              ))}
+            </TextField>
+
+            {draft.type === 'device' && (
+              <ToggleButtonGroup
+                size="small"
+                value={draft.devices}
+                onChange={(_, devices: DeviceType[]) => updateDraft(draft.id, { devices })}
+                disabled={disabled}
+              >
+                {(Object.keys(DEVICE_LABELS) as DeviceType[]).map(device => (
+                  <ToggleButton key={device} value={device}>
+                    {DEVICE_LABELS[device]}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+            )}
+
+            {(draft.type === 'language' || draft.type === 'country') && (
+              <TextField
+                size="small"
+                label={draft.type === 'language' ? 'Languages' : 'Countries'}
+                placeholder={draft.type === 'language' ? 'de, pt-BR' : 'DE, United States'}
+                value={draft.list}
+                onChange={(e) => updateDraft(draft.id, { list: e.target.value })}
+                disabled={disabled}
+                sx={{ flex: 1, minWidth: 180 }}
+              />
+            )}
+
+            {draft.type === 'time' && (
+              <>
+                <ToggleButtonGroup
+                  size="small"
+                  value={draft.days}
+                  onChange={(_, days: number[]) => updateDraft(draft.id, { days: [...days].sort() })}
+                  disabled={disabled}
+                >
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <ToggleButton key={label} value={day}>
+                      {label}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+                <TextField
+                  type="time"
+                  size="small"
+                  label="From"
+                  value={draft.start}
+                  onChange={(e) => updateDraft(draft.id, { start: e.target.value })}
+                  disabled={disabled}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  type="time"
+                  size="small"
+                  label="Until"
+                  value={draft.end}
+                  onChange={(e) => updateDraft(draft.id, { end: e.target.value })}
+                  disabled={disabled}
+                  InputLabelProps={{ shrink: true }}
+                  sx={{ width: 120 }}
+                />
+                <TextField
+                  size="small"
+                  label="Time zone"
+                  value={draft.timeZone}
+                  onChange={(e) => updateDraft(draft.id, { timeZone: e.target.value })}
+                  disabled={disabled}
+                  sx={{ minWidth: 160 }}
+                />
+              </>
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField
+              size="small"
+              label="Then go to"
+              placeholder="https://apps.apple.com/..."
+              value={draft.destination}
+              onChange={(e) => updateDraft(draft.id, { destination: e.target.value })}
+              disabled={disabled}
+              fullWidth
+            />
+            <Tooltip title="Move up">
+              <span>
+                <IconButton size="small" onClick={() => moveDraft(index, -1)} disabled={disabled || index === 0}>
+                  <ArrowUpward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Move down">
+              <span>
+                <IconButton
+                  size="small"
+                  onClick={() => moveDraft(index, 1)}
+                  disabled={disabled || index === drafts.length - 1}
+                >
+                  <ArrowDownward fontSize="small" />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Remove rule">
+              <IconButton
+                size="small"
+                color="error"
+                onClick={() => commit(drafts.filter(other => other.id !== draft.id))}
+                disabled={disabled}
+              >
+                <Delete fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+        </Paper>
+      ))}
+
+      <Button
+        startIcon={<Add />}
+        onClick={() => commit([...drafts, newDraft()])}
+        disabled={disabled || drafts.length >= MAX_REDIRECT_RULES}
+      >
+        Add rule
+      </Button>
+    </Box>
+  );
+};
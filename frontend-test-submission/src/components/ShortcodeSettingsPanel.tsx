@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { urlService } from '../services/urlService';
+import {
+  MAX_SHORTCODE_LENGTH,
+  MIN_SHORTCODE_LENGTH,
+  SHORTCODE_GENERATORS,
+  ShortcodeStrategy,
+  collisionRate,
+  RESERVED_SHORTCODES,
+  getShortcodeMetrics,
+  resetShortcodeMetrics,
+} from '../services/shortcodes';
+import { logger } from '../middleware/logger';
+
+/**
+ * Choose how generated shortcodes look, edit the words no shortcode may
+ * contain, and compare collision rates of the strategies used so far
+ */
+export const ShortcodeSettingsPanel: React.FC = () => {
+  const [policy, setPolicy] = useState(() => urlService.getShortcodePolicy());
+  const [metrics, setMetrics] = useState(() => getShortcodeMetrics());
+  const [blocklist, setBlocklist] = useState(() => urlService.getShortcodeBlocklist().join(', '));
+  const [blocklistSaved, setBlocklistSaved] = useState(true);
+  const [allowlist, setAllowlist] = useState(() => urlService.getShortcodeAllowlist().join(', '));
+  const [allowlistSaved, setAllowlistSaved] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = (changes: Partial<typeof policy>) => {
+    const updated = { ...policy, ...changes };
+    setPolicy(updated);
+    logger.logUserAction('change_shortcode_policy', 'shortcode-settings', { ...updated });
+
+    try {
+      urlService.updateShortcodePolicy(updated);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update shortcode settings');
+    }
+  };
+
+  const handleSaveBlocklist = () => {
+    logger.logUserAction('change_shortcode_blocklist', 'shortcode-settings');
+    try {
+      const saved = urlService.updateShortcodeBlocklist(blocklist.split(/[\s,]+/));
+      setBlocklist(saved.join(', '));
+      setBlocklistSaved(true);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update blocked words');
+    }
+  };
+
+  const handleSaveAllowlist = () => {
+    logger.logUserAction('change_shortcode_allowlist', 'shortcode-settings');
+    try {
+      const saved = urlService.updateShortcodeAllowlist(allowlist.split(/[\s,]+/));
+      setAllowlist(saved.join(', '));
+      setAllowlistSaved(true);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update allowed words');
+    }
+  };
+
+  const handleReset = () => {
+    logger.logUserAction('reset_shortcode_metrics', 'shortcode-settings');
+    resetShortcodeMetrics();
+    setMetrics({});
+  };
+
+  const strategies = Object.keys(SHORTCODE_GENERATORS) as ShortcodeStrategy[];
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Typography variant="h6" fontWeight={600} gutterBottom>
+        Shortcodes
+      </Typography>
+      <Typography variant="body2" color="text.secondary" paragraph>
+        Strategy and length apply to new links without a custom shortcode. Codes get longer automatically as more of the
+        current length is taken.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 3 }}>
+        <TextField
+          select
+          size="small"
+          label="Strategy"
+          value={policy.strategy}
+          onChange={(e) => save({ strategy: e.target.value as ShortcodeStrategy })}
+          helperText={`e.g. ${SHORTCODE_GENERATORS[policy.strategy].example}`}
+          sx={{ minWidth: 280 }}
+        >
+          {strategies.map(strategy => (
+            <MenuItem key={strategy} value={strategy}>
+              {SHORTCODE_GENERATORS[strategy].label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          type="number"
+          size="small"
+          label="Minimum length"
+          value={policy.minLength}
+          onChange={(e) => save({ minLength: parseInt(e.target.value) || 0 })}
+          inputProps={{ min: MIN_SHORTCODE_LENGTH, max: MAX_SHORTCODE_LENGTH }}
+          sx={{ width: 160 }}
+        />
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mb: 3 }}>
+        <TextField
+          size="small"
+          label="Blocked words"
+          value={blocklist}
+          onChange={(e) => {
+            setBlocklist(e.target.value);
+            setBlocklistSaved(false);
+          }}
+          helperText={`Shortcodes containing any of these anywhere (e.g. spam in buyspam or SPAM2024), in any case, are rejected. Always reserved: ${Array.from(RESERVED_SHORTCODES).join(', ')}`}
+          multiline
+          fullWidth
+        />
+        <Button variant="outlined" onClick={handleSaveBlocklist} disabled={blocklistSaved}>
+          Save
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mb: 3 }}>
+        <TextField
+          size="small"
+          label="Allowed words"
+          value={allowlist}
+          onChange={(e) => {
+            setAllowlist(e.target.value);
+            setAllowlistSaved(false);
+          }}
+          helperText="Blocked words inside these are ignored, e.g. ass in class"
+          multiline
+          fullWidth
+        />
+        <Button variant="outlined" onClick={handleSaveAllowlist} disabled={allowlistSaved}>
+          Save
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="subtitle2">Collision rates</Typography>
+        <Button size="small" onClick={handleReset} disabled={Object.keys(metrics).length === 0}>
+          Reset
+        </Button>
+      </Box>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Strategy</TableCell>
+            <TableCell align="right">Candidates</TableCell>
+            <TableCell align="right">Collisions</TableCell>
+            <TableCell align="right">Collision rate</TableCell>
+            <TableCell align="right">Last length</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {strategies.map(strategy => {
+            const row = metrics[strategy];
+            return (
+              <TableRow key={strategy} selected={strategy === policy.strategy}>
+                <TableCell>{SHORTCODE_GENERATORS[strategy].label}</TableCell>
+                <TableCell align="right">{row?.attempts ?? 0}</TableCell>
+                <TableCell align="right">{row?.collisions ?? 0}</TableCell>
+                <TableCell align="right">{row ? `${(collisionRate(row) * 100).toFixed(2)}%` : '—'}</TableCell>
+                <TableCell align="right">{row?.lastLength ?? '—'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Box, Chip, Typography } from '@mui/material';
+import { useShortcodeSuggestions } from '../hooks/use-shortcode-suggestions';
+
+interface ShortcodeSuggestionsProps {
+  suggestions: string[];
+  onPick: (shortcode: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Clickable alternatives for a shortcode that is taken
+ */
+export const ShortcodeSuggestions: React.FC<ShortcodeSuggestionsProps> = ({ suggestions, onPick, disabled }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mt: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        Available:
+      </Typography>
+      {suggestions.map(suggestion => (
+        <Chip
+          key={suggestion}
+          label={suggestion}
+          size="small"
+          variant="outlined"
+          color="primary"
+          onClick={() => onPick(suggestion)}
+          disabled={disabled}
+        />
+      ))}
+    </Box>
+  );
+};
+
+interface LiveShortcodeSuggestionsProps {
+  shortcode: string;
+  onPick: (shortcode: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Suggestions that follow a shortcode field as the user types
+ */
+export const LiveShortcodeSuggestions: React.FC<LiveShortcodeSuggestionsProps> = ({ shortcode, onPick, disabled }) => {
+  const suggestions = useShortcodeSuggestions(shortcode);
+  return <ShortcodeSuggestions suggestions={suggestions} onPick={onPick} disabled={disabled} />;
+};
@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  LinearProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { EmojiEvents } from '@mui/icons-material';
+import { ShortUrl } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../middleware/logger';
+
+interface SplitTestsPanelProps {
+  urls: ShortUrl[];
+  /** Hide promoting, e.g. while showing a past state */
+  readOnly?: boolean;
+}
+
+/**
+ * Clicks per variant for every link running an A/B split, with a way to end
+ * the split by promoting the winner
+ */
+export const SplitTestsPanel: React.FC<SplitTestsPanelProps> = ({ urls, readOnly = false }) => {
+  const splitUrls = urls.filter(url => url.splitVariants.length > 0);
+  const [clicksByLink, setClicksByLink] = useState<Record<string, Record<string, number>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      urls
+        .filter(url => url.splitVariants.length > 0)
+        .map(async url => [url.shortcode, (await urlService.getClickBreakdown(url.shortcode)).byVariant] as const)
+    )
+      .then(entries => {
+        if (!cancelled) setClicksByLink(Object.fromEntries(entries));
+      })
+      .catch(err => {
+        logger.error('split-tests-panel', 'Failed to load variant clicks', { error: err.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [urls]);
+
+  const handlePromote = async (url: ShortUrl, variantId: string) => {
+    const variant = url.splitVariants.find(candidate => candidate.id === variantId);
+    logger.logUserAction('promote_variant', 'split-tests-panel', { shortcode: url.shortcode, variant: variant?.name });
+    setError(null);
+
+    try {
+      await urlService.promoteVariant(url.shortcode, variantId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to end the A/B split');
+    }
+  };
+
+  if (splitUrls.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper sx={{ p: 3, mb: 4 }}>
+      <Typography variant="h6" fontWeight={600} gutterBottom>
+        A/B Splits ({splitUrls.length})
+      </Typography>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {splitUrls.map(url => {
+        const clicks = clicksByLink[url.shortcode] || {};
+        const totalClicks = url.splitVariants.reduce((sum, variant) => sum + (clicks[variant.id] || 0), 0);
+        const totalWeight = url.splitVariants.reduce((sum, variant) => sum + variant.weight, 0);
+
+        return (
+          <Box key={url.shortcode} sx={{ mb: 3 }}>
+            <Typography variant="subtitle1" fontWeight={600}>
+              /{url.shortcode}
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Variant</TableCell>
+                  <TableCell>Destination</TableCell>
+                  <TableCell align="right">Traffic</TableCell>
+                  <TableCell align="right">Clicks</TableCell>
+                  <TableCell sx={{ width: '25%' }}>Share of clicks</TableCell>
+                  {!readOnly && <TableCell />}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {url.splitVariants.map(variant => {
+                  const count = clicks[variant.id] || 0;
+                  const share = totalClicks > 0 ? (count / totalClicks) * 100 : 0;
+                  return (
+                    <TableRow key={variant.id}>
+                      <TableCell>
+                        <strong>{variant.name}</strong>
+                      </TableCell>
+                      <TableCell sx={{ wordBreak: 'break-all' }}>{variant.destination}</TableCell>
+                      <TableCell align="right">
+                        {totalWeight > 0 ? `${Math.round((variant.weight / totalWeight) * 100)}%` : '0%'}
+                      </TableCell>
+                      <TableCell align="right">{count}</TableCell>
+                      <TableCell>
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          <LinearProgress variant="determinate" value={share} sx={{ flex: 1 }} />
+                          <Typography variant="caption">{share.toFixed(1)}%</Typography>
+                        </Box>
+                      </TableCell>
+                      {!readOnly && (
+                        <TableCell align="right">
+                          <Button size="small" startIcon={<EmojiEvents />} onClick={() => handlePromote(url, variant.id)}>
+                            Promote
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Box>
+        );
+      })}
+    </Paper>
+  );
+};
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  IconButton,
+  InputAdornment,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { Add, CallSplit, Delete } from '@mui/icons-material';
+import { v4 as uuidv4 } from 'uuid';
+import { SplitVariant } from '../types';
+import { MAX_SPLIT_VARIANTS, MAX_VARIANT_WEIGHT, nextVariantName } from '../services/splitTests';
+
+interface SplitVariantsEditorProps {
+  initialVariants: SplitVariant[];
+  /** Becomes variant A when a split is started */
+  currentDestination: string;
+  onChange: (variants: SplitVariant[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Destinations and weights of a link's A/B split
+ */
+export const SplitVariantsEditor: React.FC<SplitVariantsEditorProps> = ({
+  initialVariants,
+  currentDestination,
+  onChange,
+  disabled,
+}) => {
+  const [variants, setVariants] = useState<SplitVariant[]>(initialVariants);
+
+  const commit = (next: SplitVariant[]) => {
+    setVariants(next);
+    onChange(next);
+  };
+
+  const addVariant = (list: SplitVariant[], destination: string = '') => [
+    ...list,
+    { id: uuidv4(), name: nextVariantName(list), destination, weight: 50 },
+  ];
+
+  const updateVariant = (id: string, changes: Partial<SplitVariant>) => {
+    commit(variants.map(variant => (variant.id === id ? { ...variant, ...changes } : variant)));
+  };
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+
+  return (
+    <Box>
+      <Typography variant="subtitle2" gutterBottom>
+        A/B split
+      </Typography>
+
+      {variants.length === 0 ? (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+            Rotate visitors between several destinations. Returning visitors keep seeing the same one.
+          </Typography>
+          <Button
+            startIcon={<CallSplit />}
+            onClick={() => commit(addVariant(addVariant([], currentDestination.trim())))}
+            disabled={disabled}
+          >
+            Start A/B split
+          </Button>
+        </Box>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Replaces the destination URL for visitors who match no redirect rule.
+          </Typography>
+          {variants.map(variant => (
+            <Box key={variant.id} sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 1.5 }}>
+              <Typography variant="body2" fontWeight={600} sx={{ minWidth: 24 }}>
+                {variant.name}
+              </Typography>
+              <TextField
+                size="small"
+                label="Destination"
+                value={variant.destination}
+                onChange={(e) => updateVariant(variant.id, { destination: e.target.value })}
+                disabled={disabled}
+                fullWidth
+              />
+              <TextField
+                size="small"
+                type="number"
+                label="Weight"
+                value={variant.weight}
+                onChange={(e) => updateVariant(variant.id, { weight: parseInt(e.target.value) || 0 })}
+                disabled={disabled}
+                sx={{ width: 150 }}
+                InputProps={{
+                  endAdornment: (
+                    <InputAdornment position="end">
+                      {totalWeight > 0 ? `${Math.round((variant.weight / totalWeight) * 100)}%` : '0%'}
+                    </InputAdornment>
+                  ),
+                  inputProps: {
+                    min: 0,
+                    max: MAX_VARIANT_WEIGHT
+                  }
+                }}
+              />
+              <Tooltip title="Remove variant">
+                <IconButton
+                  size="small"
+                  color="error"
+                  onClick={() => commit(variants.filter(other => other.id !== variant.id))}
+                  disabled={disabled}
+                >
+                  <Delete fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+          ))}
+          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+            <Button
+              startIcon={<Add />}
+              onClick={() => commit(addVariant(variants))}
+              disabled={disabled || variants.length >= MAX_SPLIT_VARIANTS}
+            >
+              Add variant
+            </Button>
+            <Button color="inherit" onClick={() => commit([])} disabled={disabled}>
+              Remove split
+            </Button>
+          </Box>
+        </>
+      )}
+    </Box>
+  );
+};
@@ -17,6 +17,8 @@ interface StatisticsCardsProps {
   totalClicks: number;
   activeUrls: number;
   expiredUrls: number;
+  /** Active links with no expiry at all */
+  neverExpiringUrls: number;
 }
 
 /**
@@ -27,6 +29,7 @@ export const StatisticsCards: React.FC<StatisticsCardsProps> = ({
   totalClicks,
   activeUrls,
   expiredUrls,
+  neverExpiringUrls,
 }) => {
   const stats = [
     {
@@ -48,7 +51,7 @@ export const StatisticsCards: React.FC<StatisticsCardsProps> = ({
       value: activeUrls,
       icon: <CheckCircle />,
       color: 'info.main',
-      description: 'Currently valid',
+      description: neverExpiringUrls > 0 ? `Currently valid, ${neverExpiringUrls} never expire` : 'Currently valid',
     },
     {
       title: 'Expired URLs',
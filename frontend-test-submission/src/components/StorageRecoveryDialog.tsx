@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+  CircularProgress,
+} from '@mui/material';
+import { Restore, DeleteForever } from '@mui/icons-material';
+import { StorageSnapshot } from '../types';
+import { storageService } from '../services/storage';
+import { logger } from '../middleware/logger';
+
+/**
+ * Checks stored links on startup and, if they are corrupted, asks the user
+ * to restore a backup snapshot instead of silently starting with an empty list
+ */
+export const StorageRecoveryDialog: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [snapshots, setSnapshots] = useState<StorageSnapshot[]>([]);
+  const [working, setWorking] = useState(false);
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  useEffect(() => {
+    storageService.checkIntegrity()
+      .then(result => {
+        if (!result.ok) {
+          setError(result.error || 'Stored links could not be read');
+          setSnapshots(result.snapshots);
+          setOpen(true);
+        }
+      })
+      .catch(err => {
+        logger.error('storage-recovery', 'Integrity check failed', { error: err.message });
+      });
+  }, []);
+
+  const formatDateTime = (date: Date) => {
+    return new Intl.DateTimeFormat('en-US', {
+      dateStyle: 'medium',
+      timeStyle: 'medium',
+    }).format(date);
+  };
+
+  const handleRestore = async (snapshot: StorageSnapshot) => {
+    setWorking(true);
+    logger.logUserAction('restore_snapshot', 'storage-recovery', {
+      snapshotId: snapshot.id,
+      urlCount: snapshot.urlCount,
+    });
+
+    try {
+      await storageService.restoreSnapshot(snapshot.id);
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot');
+      setWorking(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    if (!confirmDiscard) {
+      setConfirmDiscard(true);
+      return;
+    }
+
+    setWorking(true);
+    logger.logUserAction('discard_corrupted_data', 'storage-recovery', {
+      snapshotCount: snapshots.length,
+    });
+
+    try {
+      await storageService.discardCorruptedData();
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to discard data');
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} maxWidth="sm" fullWidth>
+      <DialogTitle>Stored links are damaged</DialogTitle>
+      <DialogContent>
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+
+        {snapshots.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No backup snapshots are available to restore from.
+          </Typography>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Restore one of the last known good backups:
+            </Typography>
+            <List>
+              {snapshots.map(snapshot => (
+                <ListItem
+                  key={snapshot.id}
+                  secondaryAction={
+                    <Button
+                      startIcon={<Restore />}
+                      onClick={() => handleRestore(snapshot)}
+                      disabled={working}
+                    >
+                      Restore
+                    </Button>
+                  }
+                >
+                  <ListItemText
+                    primary={formatDateTime(snapshot.createdAt)}
+                    secondary={`${snapshot.urlCount} link${snapshot.urlCount !== 1 ? 's' : ''}`}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          </>
+        )}
+
+        {confirmDiscard && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            This permanently removes the damaged links. Click again to confirm.
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {working && <CircularProgress size={24} sx={{ mr: 'auto', ml: 2 }} />}
+        <Button
+          color="error"
+          startIcon={<DeleteForever />}
+          onClick={handleDiscard}
+          disabled={working}
+        >
+          {confirmDiscard ? 'Confirm: start with an empty list' : 'Start with an empty list'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  IconButton,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { RestoreFromTrash, DeleteForever } from '@mui/icons-material';
+import { ShortUrl } from '../types';
+import { urlService } from '../services/urlService';
+import { logger } from '../middleware/logger';
+import { useStorageChanges } from '../hooks/use-storage-changes';
+
+interface TrashDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const GRACE_OPTIONS = [7, 30, 90];
+const COOLDOWN_OPTIONS = [0, 30, 90, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Trashed links of the active workspace: restore them, purge them now, or
+ * configure when they are purged automatically
+ */
+export const TrashDialog: React.FC<TrashDialogProps> = ({ open, onClose }) => {
+  const [trash, setTrash] = useState<ShortUrl[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [policy, setPolicy] = useState(() => urlService.getTrashPolicy());
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrash = async () => {
+    try {
+      const urls = await urlService.getTrash();
+      setTrash(urls);
+      setSelected(prev => prev.filter(code => urls.some(url => url.shortcode === code)));
+    } catch (err) {
+      logger.error('trash-dialog', 'Failed to load trash', { error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      loadTrash();
+    }
+  }, [open]);
+
+  useStorageChanges(() => {
+    if (open) loadTrash();
+  });
+
+  const run = async (action: string, shortcodes: string[], task: () => Promise<unknown>) => {
+    setError(null);
+    logger.logUserAction(action, 'trash-dialog', { shortcodes });
+    try {
+      await task();
+      setSelected([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update trash');
+    }
+  };
+
+  const handleRestore = (shortcodes: string[]) =>
+    run('restore_urls', shortcodes, () => urlService.restoreUrls(shortcodes));
+
+  const handlePurge = (shortcodes: string[]) =>
+    run('purge_urls', shortcodes, () => urlService.purgeUrls(shortcodes));
+
+  const handlePolicyChange = async (field: 'purgeAfterDays' | 'cooldownDays', days: number) => {
+    const updated = { ...policy, [field]: days };
+    setPolicy(updated);
+    logger.logUserAction('change_trash_policy', 'trash-dialog', { ...updated });
+    try {
+      await urlService.updateTrashPolicy(updated);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update trash policy');
+    }
+  };
+
+  const toggleSelected = (shortcode: string) => {
+    setSelected(prev => (prev.includes(shortcode) ? prev.filter(code => code !== shortcode) : [...prev, shortcode]));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Trash ({trash.length})</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, mt: 1 }}>
+          <TextField
+            select
+            size="small"
+            label="Delete permanently after"
+            value={policy.purgeAfterDays}
+            onChange={(e) => handlePolicyChange('purgeAfterDays', Number(e.target.value))}
+            sx={{ minWidth: 200 }}
+          >
+            {GRACE_OPTIONS.map(days => (
+              <MenuItem key={days} value={days}>
+                {days} days
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="After that, reserve shortcodes for"
+            value={policy.cooldownDays}
+            onChange={(e) => handlePolicyChange('cooldownDays', Number(e.target.value))}
+            sx={{ minWidth: 220 }}
+          >
+            {COOLDOWN_OPTIONS.map(days => (
+              <MenuItem key={days} value={days}>
+                {days === 0 ? 'No cooldown' : `${days} days`}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+
+        {trash.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+            The trash is empty.
+          </Typography>
+        ) : (
+          <List dense>
+            {trash.map(url => (
+              <ListItem
+                key={url.shortcode}
+                secondaryAction={
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Tooltip title="Restore">
+                      <IconButton size="small" onClick={() => handleRestore([url.shortcode])}>
+                        <RestoreFromTrash fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete forever">
+                      <IconButton size="small" color="error" onClick={() => handlePurge([url.shortcode])}>
+                        <DeleteForever fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Box>
+                }
+              >
+                <ListItemIcon>
+                  <Checkbox
+                    edge="start"
+                    checked={selected.includes(url.shortcode)}
+                    onChange={() => toggleSelected(url.shortcode)}
+                  />
+                </ListItemIcon>
+                <ListItemText
+                  primary={`/${url.shortcode} → ${url.originalUrl}`}
+                  secondary={`Deleted ${url.deletedAt!.toLocaleString()} · removed for good on ${
+                    new Date(url.deletedAt!.getTime() + policy.purgeAfterDays * DAY_MS).toLocaleDateString()
+                  }`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          startIcon={<RestoreFromTrash />}
+          onClick={() => handleRestore(selected)}
+          disabled={selected.length === 0}
+          sx={{ mr: 'auto' }}
+        >
+          Restore selected
+        </Button>
+        <Button
+          color="error"
+          startIcon={<DeleteForever />}
+          onClick={() => handlePurge(selected)}
+          disabled={selected.length === 0}
+        >
+          Delete selected forever
+        </Button>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import { Lock } from '@mui/icons-material';
+import { storageService } from '../services/storage';
+import { logger } from '../middleware/logger';
+import { useStorageChanges } from '../hooks/use-storage-changes';
+
+interface UnlockGateProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Holds back the app until encrypted storage has been unlocked.
+ * Renders children directly when encryption is not enabled.
+ */
+export const UnlockGate: React.FC<UnlockGateProps> = ({ children }) => {
+  const [state, setState] = useState(() => storageService.getEncryptionState());
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  // Another tab may enable encryption or change the passphrase
+  useStorageChanges(event => {
+    if (event.type === 'encryption-changed') {
+      setState(storageService.getEncryptionState());
+    }
+  });
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+
+    try {
+      await storageService.unlock(passphrase);
+      logger.logUserAction('unlock_storage', 'unlock-gate');
+      setPassphrase('');
+      setState(storageService.getEncryptionState());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+      logger.warn('unlock-gate', 'Unlock attempt failed');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  if (state !== 'locked') {
+    return <>{children}</>;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh', p: 2 }}>
+      <Paper component="form" onSubmit={handleUnlock} sx={{ p: 4, width: '100%', maxWidth: 420 }} elevation={3}>
+        <Box sx={{ textAlign: 'center', mb: 3 }}>
+          <Lock sx={{ fontSize: 48, color: 'primary.main', mb: 1 }} />
+          <Typography variant="h5" fontWeight={600}>
+            Unlock your links
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Stored links are encrypted. Enter your passphrase to continue.
+          </Typography>
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <TextField
+          type="password"
+          label="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          fullWidth
+          autoFocus
+          sx={{ mb: 2 }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          fullWidth
+          disabled={unlocking || passphrase === ''}
+          startIcon={unlocking ? <CircularProgress size={20} /> : undefined}
+        >
+          Unlock
+        </Button>
+      </Paper>
+    </Box>
+  );
+};
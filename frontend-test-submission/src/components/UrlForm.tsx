@@ -13,10 +13,21 @@ import {
   Switch,
   Tooltip,
   CircularProgress,
+  ToggleButton,
+  ToggleButtonGroup,
+  MenuItem,
 } from '@mui/material';
 import { Add, Remove, Send, Clear, Info } from '@mui/icons-material';
-import { CreateUrlRequest } from '../types';
+import { CreateUrlRequest, ExpiryPolicy, ExpiryType, PassthroughSettings, UtmParameters } from '../types';
 import { logger } from '../middleware/logger';
+import { workspaceService } from '../services/workspaces';
+import { MIN_LINK_PASSWORD_LENGTH } from '../services/linkPasswords';
+import { applyUtmParameters, hasUtmParameters } from '../services/utm';
+import { EXPIRY_TYPE_LABELS, MAX_EXPIRED_MESSAGE_LENGTH, MAX_INACTIVITY_DAYS } from '../services/expiry';
+import { isValidMaxClicks, isValidUrl, validateActiveHours, validateExpiryPolicy } from '../utils/validation';
+import { UtmFields } from './UtmFields';
+import { PassthroughFields } from './PassthroughFields';
+import { LiveShortcodeSuggestions } from './ShortcodeSuggestions';
 
 interface UrlFormProps {
   onSubmit: (requests: CreateUrlRequest[]) => Promise<void>;
@@ -26,9 +37,75 @@ interface UrlFormProps {
 interface UrlInput {
   id: string;
   originalUrl: string;
+  expiryType: ExpiryType;
   validityMinutes: number;
+  /** datetime-local value for the 'date' policy */
+  expiresAt: string;
+  inactivityDays: number;
+  fallbackUrl: string;
+  expiredMessage: string;
   customShortcode: string;
   useCustomShortcode: boolean;
+  password: string;
+  /** Empty for unlimited */
+  maxClicks: string;
+  /** datetime-local value; empty to go live immediately */
+  activatesAt: string;
+  useActiveHours: boolean;
+  activeDays: number[];
+  activeStart: string;
+  activeEnd: string;
+  timeZone: string;
+  utm: UtmParameters;
+  passthrough: PassthroughSettings | null;
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function createUrlInput(id: string, validityMinutes: number): UrlInput {
+  return {
+    id,
+    originalUrl: '',
+    expiryType: 'duration',
+    validityMinutes,
+    expiresAt: '',
+    inactivityDays: 30,
+    fallbackUrl: '',
+    expiredMessage: '',
+    customShortcode: '',
+    useCustomShortcode: false,
+    password: '',
+    maxClicks: '',
+    activatesAt: '',
+    useActiveHours: false,
+    activeDays: [1, 2, 3, 4, 5],
+    activeStart: '09:00',
+    activeEnd: '17:00',
+    timeZone: BROWSER_TIME_ZONE,
+    utm: {},
+    passthrough: null,
+  };
+}
+
+function toExpiryPolicy(url: UrlInput): ExpiryPolicy {
+  switch (url.expiryType) {
+    case 'date':
+      return { type: 'date', expiresAt: new Date(url.expiresAt) };
+    case 'inactivity':
+      return { type: 'inactivity', days: url.inactivityDays };
+    case 'never':
+      return { type: 'never' };
+    default:
+      return { type: 'duration', minutes: url.validityMinutes };
+  }
+}
+
+function toActiveHours(url: UrlInput) {
+  return {
+    timeZone: url.timeZone.trim(),
+    windows: [{ days: url.activeDays, start: url.activeStart, end: url.activeEnd }],
+  };
 }
 
 /**
@@ -36,28 +113,17 @@ interface UrlInput {
  * Supports 1-5 URLs with custom shortcodes and validity periods
  */
 export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
-  const [urls, setUrls] = useState<UrlInput[]>([
-    {
-      id: '1',
-      originalUrl: '',
-      validityMinutes: 30,
-      customShortcode: '',
-      useCustomShortcode: false,
-    },
-  ]);
+  // Layout remounts the page when the active workspace changes
+  const { validityMinutes: defaultValidity, maxValidityMinutes } = workspaceService.getActive().defaults;
+  const [urls, setUrls] = useState<UrlInput[]>([createUrlInput('1', defaultValidity)]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [dedupe, setDedupe] = useState(false);
 
   const addUrlField = () => {
     if (urls.length >= 5) return;
     
-    const newUrl: UrlInput = {
-      id: Date.now().toString(),
-      originalUrl: '',
-      validityMinutes: 30,
-      customShortcode: '',
-      useCustomShortcode: false,
-    };
+    const newUrl = createUrlInput(Date.now().toString(), defaultValidity);
     
     setUrls([...urls, newUrl]);
     logger.logUserAction('add_url_field', 'url-form', { totalFields: urls.length + 1 });
@@ -80,18 +146,30 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
     logger.logUserAction('remove_url_field', 'url-form', { totalFields: urls.length - 1 });
   };
 
-  const updateUrl = (id: string, field: keyof UrlInput, value: string | number | boolean) => {
+  const updateUrl = (id: string, field: keyof UrlInput, value: string | number | boolean | number[] | UtmParameters | PassthroughSettings | null) => {
     setUrls(urls.map(url => 
       url.id === id ? { ...url, [field]: value } : url
     ));
     
     // Clear related errors when user starts typing
-    if (field === 'originalUrl' || field === 'customShortcode') {
+    if (['originalUrl', 'customShortcode', 'password', 'maxClicks', 'activatesAt', 'fallbackUrl'].includes(field)) {
       setErrors(prev => {
         const newErrors = { ...prev };
         delete newErrors[`${id}_${field}`];
         return newErrors;
       });
+    } else if (['expiryType', 'validityMinutes', 'expiresAt', 'inactivityDays'].includes(field)) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[`${id}_expiry`];
+        return newErrors;
+      });
+    } else if (['activeDays', 'activeStart', 'activeEnd', 'timeZone'].includes(field)) {
+      setErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[`${id}_activeHours`];
+        return newErrors;
+      });
     }
   };
 
@@ -117,9 +195,11 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
         }
       }
 
-      // Validate validity minutes
-      if (url.validityMinutes <= 0 || url.validityMinutes > 10080) {
-        newErrors[`${url.id}_validityMinutes`] = 'Validity must be between 1 and 10080 minutes';
+      // Validate expiry against the workspace limit, counting from go-live
+      const start = url.activatesAt && new Date(url.activatesAt) > new Date() ? new Date(url.activatesAt) : new Date();
+      const expiryProblem = validateExpiryPolicy(toExpiryPolicy(url), maxValidityMinutes, start);
+      if (expiryProblem) {
+        newErrors[`${url.id}_expiry`] = expiryProblem;
         isValid = false;
       }
 
@@ -133,6 +213,38 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
           isValid = false;
         }
       }
+
+      // Validate optional click cap
+      if (url.maxClicks !== '' && !isValidMaxClicks(Number(url.maxClicks))) {
+        newErrors[`${url.id}_maxClicks`] = 'Use a whole number from 1 to 1000000';
+        isValid = false;
+      }
+
+      // Validate optional fallback URL
+      if (url.expiryType !== 'never' && url.fallbackUrl.trim() && !isValidUrl(url.fallbackUrl.trim())) {
+        newErrors[`${url.id}_fallbackUrl`] = 'Fallback URL must start with http:// or https://';
+        isValid = false;
+      }
+
+      // Validate optional password
+      if (url.password && url.password.length < MIN_LINK_PASSWORD_LENGTH) {
+        newErrors[`${url.id}_password`] = `Password must be at least ${MIN_LINK_PASSWORD_LENGTH} characters`;
+        isValid = false;
+      }
+
+      // Validate optional schedule
+      if (url.activatesAt && !(new Date(url.activatesAt) > new Date())) {
+        newErrors[`${url.id}_activatesAt`] = 'Go-live time must be in the future';
+        isValid = false;
+      }
+
+      if (url.useActiveHours) {
+        const problem = validateActiveHours(toActiveHours(url));
+        if (problem) {
+          newErrors[`${url.id}_activeHours`] = problem;
+          isValid = false;
+        }
+      }
     });
 
     // Check for duplicate custom shortcodes
@@ -168,26 +280,31 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
 
     const requests: CreateUrlRequest[] = urls.map(url => ({
       originalUrl: url.originalUrl.trim(),
-      validityMinutes: url.validityMinutes,
+      expiry: toExpiryPolicy(url),
       customShortcode: url.useCustomShortcode ? url.customShortcode.trim() : undefined,
+      password: url.password || undefined,
+      maxClicks: url.maxClicks !== '' ? Number(url.maxClicks) : undefined,
+      activatesAt: url.activatesAt ? new Date(url.activatesAt) : undefined,
+      activeHours: url.useActiveHours ? toActiveHours(url) : undefined,
+      utm: hasUtmParameters(url.utm) ? url.utm : undefined,
+      passthrough: url.passthrough || undefined,
+      // A link that never expires has no use for an expired page
+      fallbackUrl: url.expiryType !== 'never' && url.fallbackUrl.trim() || undefined,
+      expiredMessage: url.expiryType !== 'never' && url.expiredMessage.trim() || undefined,
+      dedupe: dedupe || undefined,
     }));
 
     logger.logUserAction('submit_urls', 'url-form', {
       urlCount: requests.length,
       customShortcodes: requests.filter(r => r.customShortcode).length,
+      dedupe,
     });
 
     await onSubmit(requests);
   };
 
   const clearForm = () => {
-    setUrls([{
-      id: '1',
-      originalUrl: '',
-      validityMinutes: 30,
-      customShortcode: '',
-      useCustomShortcode: false,
-    }]);
+    setUrls([createUrlInput('1', defaultValidity)]);
     setErrors({});
     logger.logUserAction('clear_form', 'url-form');
   };
@@ -198,15 +315,28 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
         <Typography variant="h5" fontWeight={600}>
           Shorten URLs
         </Typography>
-        <FormControlLabel
-          control={
-            <Switch
-              checked={showAdvanced}
-              onChange={(_, checked) => setShowAdvanced(checked)}
+        <Box sx={{ display: 'flex', flexWrap: 'wrap' }}>
+          <Tooltip title="Return an existing plain link to the same URL, with the same expiry and passthrough settings, instead of creating a new one. Links with a custom shortcode, password, click limit, schedule or expired page are always created.">
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={dedupe}
+                  onChange={(_, checked) => setDedupe(checked)}
+                />
+              }
+              label="Reuse existing links"
             />
-          }
-          label="Advanced Options"
-        />
+          </Tooltip>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={showAdvanced}
+                onChange={(_, checked) => setShowAdvanced(checked)}
+              />
+            }
+            label="Advanced Options"
+          />
+        </Box>
       </Box>
 
       <form onSubmit={handleSubmit}>
@@ -256,21 +386,71 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
             <Collapse in={showAdvanced}>
               <Box sx={{ ml: 8, display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
                 <TextField
-                  label="Validity (minutes)"
-                  type="number"
-                  value={url.validityMinutes}
-                  onChange={(e) => updateUrl(url.id, 'validityMinutes', parseInt(e.target.value) || 30)}
-                  error={!!errors[`${url.id}_validityMinutes`]}
-                  helperText={errors[`${url.id}_validityMinutes`] || 'Default: 30 minutes'}
+                  select
+                  label="Expires"
+                  value={url.expiryType}
+                  onChange={(e) => updateUrl(url.id, 'expiryType', e.target.value)}
+                  error={!!errors[`${url.id}_expiry`]}
+                  helperText={errors[`${url.id}_expiry`]}
                   disabled={loading}
-                  sx={{ minWidth: 150 }}
-                  InputProps={{
-                    inputProps: {
-                      min: 1,
-                      max: 10080
-                    }
-                  }}
-                />
+                  sx={{ minWidth: 190 }}
+                >
+                  {(Object.keys(EXPIRY_TYPE_LABELS) as ExpiryType[]).map(type => (
+                    <MenuItem key={type} value={type} disabled={type === 'never' && maxValidityMinutes !== null}>
+                      {EXPIRY_TYPE_LABELS[type]}
+                    </MenuItem>
+                  ))}
+                </TextField>
+
+                {url.expiryType === 'duration' && (
+                  <TextField
+                    label="Validity (minutes)"
+                    type="number"
+                    value={url.validityMinutes}
+                    onChange={(e) => updateUrl(url.id, 'validityMinutes', parseInt(e.target.value) || defaultValidity)}
+                    helperText={`Default: ${defaultValidity} minutes`}
+                    disabled={loading}
+                    sx={{ minWidth: 150 }}
+                    InputProps={{
+                      inputProps: {
+                        min: 1,
+                        max: maxValidityMinutes || undefined
+                      }
+                    }}
+                  />
+                )}
+
+                {url.expiryType === 'date' && (
+                  <TextField
+                    label="Expires at"
+                    type="datetime-local"
+                    value={url.expiresAt}
+                    onChange={(e) => updateUrl(url.id, 'expiresAt', e.target.value)}
+                    disabled={loading}
+                    sx={{ minWidth: 240 }}
+                    InputLabelProps={{ shrink: true }}
+                  />
+                )}
+
+                {url.expiryType === 'inactivity' && (
+                  <TextField
+                    label="Days without clicks"
+                    type="number"
+                    value={url.inactivityDays}
+                    onChange={(e) => updateUrl(url.id, 'inactivityDays', parseInt(e.target.value) || 0)}
+                    helperText={maxValidityMinutes === null
+                      ? 'Each click restarts the countdown'
+                      : `Each click restarts the countdown; the window can be at most ${maxValidityMinutes} minutes`}
+                    disabled={loading}
+                    sx={{ minWidth: 180 }}
+                    InputProps={{
+                      inputProps: {
+                        min: 1,
+                        max: MAX_INACTIVITY_DAYS
+                      }
+                    }}
+                  />
+                )}
 
                 <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, flex: 1 }}>
                   <FormControlLabel
@@ -286,18 +466,178 @@ export const UrlForm: React.FC<UrlFormProps> = ({ onSubmit, loading }) => {
                   />
 
                   {url.useCustomShortcode && (
+                    <Box sx={{ flex: 1 }}>
+                      <TextField
+                        label="Custom shortcode"
+                        placeholder="mycode123"
+                        value={url.customShortcode}
+                        onChange={(e) => updateUrl(url.id, 'customShortcode', e.target.value)}
+                        error={!!errors[`${url.id}_customShortcode`]}
+                        helperText={errors[`${url.id}_customShortcode`] || '3-20 alphanumeric characters'}
+                        disabled={loading}
+                        fullWidth
+                      />
+                      <LiveShortcodeSuggestions
+                        shortcode={url.customShortcode}
+                        onPick={(shortcode) => {
+                          logger.logUserAction('pick_shortcode_suggestion', 'url-form', { shortcode });
+                          updateUrl(url.id, 'customShortcode', shortcode);
+                        }}
+                        disabled={loading}
+                      />
+                    </Box>
+                  )}
+                </Box>
+
+                <TextField
+                  label="Password (optional)"
+                  type="password"
+                  value={url.password}
+                  onChange={(e) => updateUrl(url.id, 'password', e.target.value)}
+                  error={!!errors[`${url.id}_password`]}
+                  helperText={errors[`${url.id}_password`] || 'Visitors must enter it before being redirected'}
+                  disabled={loading}
+                  autoComplete="new-password"
+                  sx={{ minWidth: 220 }}
+                />
+
+                <TextField
+                  label="Max clicks (optional)"
+                  type="number"
+                  value={url.maxClicks}
+                  onChange={(e) => updateUrl(url.id, 'maxClicks', e.target.value)}
+                  error={!!errors[`${url.id}_maxClicks`]}
+                  helperText={errors[`${url.id}_maxClicks`] || 'Empty for unlimited, 1 for a one-time link'}
+                  disabled={loading}
+                  sx={{ minWidth: 200 }}
+                  InputProps={{
+                    inputProps: {
+                      min: 1
+                    }
+                  }}
+                />
+
+                <TextField
+                  label="Go live at (optional)"
+                  type="datetime-local"
+                  value={url.activatesAt}
+                  onChange={(e) => updateUrl(url.id, 'activatesAt', e.target.value)}
+                  error={!!errors[`${url.id}_activatesAt`]}
+                  helperText={errors[`${url.id}_activatesAt`] || 'Validity starts counting from this time'}
+                  disabled={loading}
+                  sx={{ minWidth: 240 }}
+                  InputLabelProps={{ shrink: true }}
+                />
+              </Box>
+
+              {url.expiryType !== 'never' && (
+                <Box sx={{ ml: 8, display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+                  <TextField
+                    label="Fallback URL after expiry (optional)"
+                    placeholder="https://example.com/offer-ended"
+                    value={url.fallbackUrl}
+                    onChange={(e) => updateUrl(url.id, 'fallbackUrl', e.target.value)}
+                    error={!!errors[`${url.id}_fallbackUrl`]}
+                    helperText={errors[`${url.id}_fallbackUrl`] || 'Visitors are sent here once the link has expired'}
+                    disabled={loading}
+                    sx={{ flex: 1, minWidth: 260 }}
+                  />
+                  <TextField
+                    label="Expired page message (optional)"
+                    value={url.expiredMessage}
+                    onChange={(e) => updateUrl(url.id, 'expiredMessage', e.target.value)}
+                    helperText={url.fallbackUrl.trim() ? 'Not shown while a fallback URL is set' : 'Replaces the default expired text'}
+                    disabled={loading}
+                    inputProps={{ maxLength: MAX_EXPIRED_MESSAGE_LENGTH }}
+                    sx={{ flex: 1, minWidth: 260 }}
+                  />
+                </Box>
+              )}
+
+              <Box sx={{ ml: 8, display: 'flex', alignItems: 'flex-start', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={url.useActiveHours}
+                      onChange={(_, checked) => updateUrl(url.id, 'useActiveHours', checked)}
+                      disabled={loading}
+                    />
+                  }
+                  label="Active Hours Only"
+                  sx={{ mt: 1 }}
+                />
+
+                {url.useActiveHours && (
+                  <>
+                    <ToggleButtonGroup
+                      size="small"
+                      value={url.activeDays}
+                      onChange={(_, days: number[]) => updateUrl(url.id, 'activeDays', [...days].sort())}
+                      disabled={loading}
+                      sx={{ mt: 1 }}
+                    >
+                      {WEEKDAY_LABELS.map((label, day) => (
+                        <ToggleButton key={label} value={day}>
+                          {label}
+                        </ToggleButton>
+                      ))}
+                    </ToggleButtonGroup>
+
                     <TextField
-                      label="Custom shortcode"
-                      placeholder="mycode123"
-                      value={url.customShortcode}
-                      onChange={(e) => updateUrl(url.id, 'customShortcode', e.target.value)}
-                      error={!!errors[`${url.id}_customShortcode`]}
-                      helperText={errors[`${url.id}_customShortcode`] || '3-20 alphanumeric characters'}
+                      label="From"
+                      type="time"
+                      size="small"
+                      value={url.activeStart}
+                      onChange={(e) => updateUrl(url.id, 'activeStart', e.target.value)}
                       disabled={loading}
-                      sx={{ flex: 1 }}
+                      sx={{ width: 120, mt: 0.5 }}
+                      InputLabelProps={{ shrink: true }}
                     />
-                  )}
-                </Box>
+
+                    <TextField
+                      label="Until"
+                      type="time"
+                      size="small"
+                      value={url.activeEnd}
+                      onChange={(e) => updateUrl(url.id, 'activeEnd', e.target.value)}
+                      disabled={loading}
+                      sx={{ width: 120, mt: 0.5 }}
+                      InputLabelProps={{ shrink: true }}
+                    />
+
+                    <TextField
+                      label="Time zone"
+                      size="small"
+                      value={url.timeZone}
+                      onChange={(e) => updateUrl(url.id, 'timeZone', e.target.value)}
+                      error={!!errors[`${url.id}_activeHours`]}
+                      helperText={errors[`${url.id}_activeHours`] || 'IANA name, e.g. Europe/Berlin'}
+                      disabled={loading}
+                      sx={{ minWidth: 200, mt: 0.5 }}
+                    />
+                  </>
+                )}
+              </Box>
+
+              <Box sx={{ ml: 8, mb: 2 }}>
+                <UtmFields
+                  value={url.utm}
+                  onChange={(utm) => updateUrl(url.id, 'utm', utm)}
+                  disabled={loading}
+                />
+                {hasUtmParameters(url.utm) && isValidUrl(url.originalUrl.trim()) && (
+                  <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1, wordBreak: 'break-all' }}>
+                    Will shorten: {applyUtmParameters(url.originalUrl.trim(), url.utm)}
+                  </Typography>
+                )}
+              </Box>
+
+              <Box sx={{ ml: 8, mb: 2 }}>
+                <PassthroughFields
+                  value={url.passthrough}
+                  onChange={(passthrough) => updateUrl(url.id, 'passthrough', passthrough)}
+                  disabled={loading}
+                />
               </Box>
             </Collapse>
           </Box>
@@ -26,21 +26,29 @@ import {
 } from '@mui/icons-material';
 import { ShortUrl, CreateUrlsResponse } from '../types';
 import { logger } from '../middleware/logger';
+import { describeExpiryPolicy } from '../services/expiry';
+import { ShortcodeSuggestions } from './ShortcodeSuggestions';
 
 interface UrlResultsProps {
   response: CreateUrlsResponse | null;
+  /** Retry a failed request with one of the suggested shortcodes */
+  onPickShortcode?: (index: number, shortcode: string) => void;
+  retrying?: boolean;
 }
 
 /**
  * Display component for URL shortening results
  * Shows successful URLs and errors with comprehensive information
  */
-export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
+export const UrlResults: React.FC<UrlResultsProps> = ({ response, onPickShortcode, retrying }) => {
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
   const [expandedCard, setExpandedCard] = useState<string | null>(null);
 
   if (!response) return null;
 
+  const reused = new Set(response.reused);
+  const newCount = response.success.filter(url => !reused.has(url.shortcode)).length;
+
   const handleCopyUrl = async (shortcode: string) => {
     const shortUrl = `${window.location.origin}/${shortcode}`;
     
@@ -74,11 +82,13 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
     }).format(date);
   };
 
-  const isExpired = (expiresAt: Date) => {
-    return new Date() > expiresAt;
+  const isExpired = (expiresAt: Date | null) => {
+    return expiresAt !== null && new Date() > expiresAt;
   };
 
-  const getTimeRemaining = (expiresAt: Date) => {
+  const getTimeRemaining = (expiresAt: Date | null) => {
+    if (expiresAt === null) return 'No expiry';
+
     const now = new Date();
     const diff = expiresAt.getTime() - now.getTime();
     
@@ -107,11 +117,16 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
             <Typography variant="h6" color="success.main">
               Successfully Created ({response.success.length})
             </Typography>
+            {reused.size > 0 && (
+              <Typography variant="body2" color="text.secondary">
+                {newCount} new, {response.success.length - newCount} reused
+              </Typography>
+            )}
           </Box>
 
-          {response.success.map((url) => (
+          {response.success.map((url, index) => (
             <Card 
-              key={url.id} 
+              key={`${url.id}-${index}`} 
               className="url-card"
               sx={{ 
                 mb: 2, 
@@ -138,6 +153,19 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
                       {url.isCustomShortcode && (
                         <Chip label="Custom" size="small" color="secondary" />
                       )}
+                      {reused.has(url.shortcode) ? (
+                        <Tooltip
+                          title={response.dedupeReasons[url.shortcode]
+                            || 'An existing link to this URL was returned instead of creating a new one'}
+                        >
+                          <Chip label="Reused" size="small" color="info" />
+                        </Tooltip>
+                      ) : (
+                        // MUI hides a tooltip whose title is empty, i.e. when dedupe was off
+                        <Tooltip title={response.dedupeReasons[url.shortcode] || ''}>
+                          <Chip label="New" size="small" color="success" variant="outlined" />
+                        </Tooltip>
+                      )}
                     </Box>
                     
                     <Typography
@@ -151,7 +179,7 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
                     <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
                       <Chip
                         icon={<AccessTime />}
-                        label={isExpired(url.expiresAt) ? 'Expired' : `Expires in ${getTimeRemaining(url.expiresAt)}`}
+                        label={isExpired(url.expiresAt) ? 'Expired' : url.expiresAt ? `Expires in ${getTimeRemaining(url.expiresAt)}` : 'Never expires'}
                         size="small"
                         color={isExpired(url.expiresAt) ? 'error' : 'default'}
                         variant={isExpired(url.expiresAt) ? 'filled' : 'outlined'}
@@ -201,7 +229,7 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
                         Validity Period
                       </Typography>
                       <Typography variant="body2">
-                        {url.validityMinutes} minutes
+                        {describeExpiryPolicy(url)}
                       </Typography>
                     </Box>
                     
@@ -210,7 +238,7 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
                         Expiry Date
                       </Typography>
                       <Typography variant="body2">
-                        {formatDateTime(url.expiresAt)}
+                        {url.expiresAt ? formatDateTime(url.expiresAt) : 'Never'}
                       </Typography>
                     </Box>
                     
@@ -219,7 +247,7 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
                         Total Clicks
                       </Typography>
                       <Typography variant="body2" color="primary.main" fontWeight={600}>
-                        {url.clicks.length}
+                        {url.clickCount}
                       </Typography>
                     </Box>
                     
@@ -254,6 +282,16 @@ export const UrlResults: React.FC<UrlResultsProps> = ({ response }) => {
               <Typography variant="body2">
                 <strong>URL #{error.index + 1}:</strong> {error.error}
               </Typography>
+              {onPickShortcode && error.suggestions && (
+                <ShortcodeSuggestions
+                  suggestions={error.suggestions}
+                  onPick={(shortcode) => {
+                    logger.logUserAction('pick_shortcode_suggestion', 'url-results', { index: error.index, shortcode });
+                    onPickShortcode(error.index, shortcode);
+                  }}
+                  disabled={retrying}
+                />
+              )}
             </Alert>
           ))}
         </Box>
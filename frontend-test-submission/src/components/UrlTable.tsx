@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Table,
   TableBody,
@@ -21,6 +21,10 @@ import {
   ListItem,
   ListItemText,
   Divider,
+  Button,
+  CircularProgress,
+  Checkbox,
+  Toolbar,
 } from '@mui/material';
 import {
   ContentCopy,
@@ -29,28 +33,94 @@ import {
   ExpandLess,
   Visibility,
   AccessTime,
+  Edit,
+  Delete,
+  Pause,
+  Lock,
+  Block,
+  Schedule,
   Link as LinkIcon,
 } from '@mui/icons-material';
-import { ShortUrl, ClickEvent } from '../types';
+import { ShortUrl, ClickEvent, ClickBreakdown } from '../types';
+import { urlService } from '../services/urlService';
 import { logger } from '../middleware/logger';
+import { useStorageChanges } from '../hooks/use-storage-changes';
+import { EditUrlDialog } from './EditUrlDialog';
+import { isExhausted, remainingClicks } from '../services/clickLimits';
+import { describeActiveHours, scheduleAvailability } from '../services/schedules';
+import { describeCondition } from '../services/redirectRules';
+import { describePassthrough } from '../services/passthrough';
+import { describeExpiryPolicy } from '../services/expiry';
+
+const CLICKS_PAGE_SIZE = 20;
+const TOP_ENTRIES = 3;
+
+/**
+ * Highest counts first, limited to the top few entries
+ */
+const topEntries = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, TOP_ENTRIES);
 
 interface UrlTableProps {
   urls: ShortUrl[];
+  /** Hide editing, e.g. while showing a past state */
+  readOnly?: boolean;
 }
 
 /**
  * Comprehensive table displaying all URLs with detailed analytics
  */
-export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
+export const UrlTable: React.FC<UrlTableProps> = ({ urls, readOnly = false }) => {
   const [expandedRow, setExpandedRow] = useState<string | null>(null);
   const [page, setPage] = useState(0);
   const [rowsPerPage, setRowsPerPage] = useState(10);
   const [clicksDialog, setClicksDialog] = useState<{
     open: boolean;
-    clicks: ClickEvent[];
     shortcode: string;
-  }>({ open: false, clicks: [], shortcode: '' });
+  }>({ open: false, shortcode: '' });
+  const [dialogClicks, setDialogClicks] = useState<ClickEvent[]>([]);
+  const [dialogPage, setDialogPage] = useState(0);
+  const [dialogHasMore, setDialogHasMore] = useState(false);
+  const [dialogLoading, setDialogLoading] = useState(false);
+  const [dialogBreakdown, setDialogBreakdown] = useState<ClickBreakdown | null>(null);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  const [editingUrl, setEditingUrl] = useState<ShortUrl | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!clicksDialog.open) return;
+    loadClicks(clicksDialog.shortcode, 0);
+  }, [clicksDialog.open, clicksDialog.shortcode]);
+
+  // Refetch from the first page whenever the open link's clicks change
+  useStorageChanges(event => {
+    if (!clicksDialog.open) return;
+    if (event.type === 'data-replaced' || event.shortcodes.includes(clicksDialog.shortcode)) {
+      loadClicks(clicksDialog.shortcode, 0);
+    }
+  });
+
+  const loadClicks = async (shortcode: string, pageToLoad: number) => {
+    setDialogLoading(true);
+    try {
+      const result = await urlService.getClicksPaginated(shortcode, pageToLoad, CLICKS_PAGE_SIZE);
+      if (pageToLoad === 0) {
+        setDialogBreakdown(await urlService.getClickBreakdown(shortcode));
+      }
+      setDialogClicks(prev => (pageToLoad === 0 ? result.clicks : [...prev, ...result.clicks]));
+      setDialogPage(pageToLoad);
+      setDialogHasMore(result.hasMore);
+    } catch (error) {
+      logger.error('url-table', 'Failed to load click details', {
+        shortcode,
+        error: error.message,
+      });
+    } finally {
+      setDialogLoading(false);
+    }
+  };
 
   const handleCopyUrl = async (shortcode: string) => {
     const shortUrl = `${window.location.origin}/${shortcode}`;
@@ -74,14 +144,38 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
     logger.logUserAction('open_original_url', 'url-table', { shortcode });
   };
 
-  const handleViewClicks = (clicks: ClickEvent[], shortcode: string) => {
-    setClicksDialog({ open: true, clicks, shortcode });
+  const handleViewClicks = (url: ShortUrl) => {
+    setDialogClicks([]);
+    setDialogBreakdown(null);
+    setClicksDialog({ open: true, shortcode: url.shortcode });
     logger.logUserAction('view_click_details', 'url-table', { 
-      shortcode, 
-      clickCount: clicks.length 
+      shortcode: url.shortcode, 
+      clickCount: url.clickCount 
     });
   };
 
+  const handleEdit = (url: ShortUrl) => {
+    setEditingUrl(url);
+    logger.logUserAction('open_edit_url', 'url-table', { shortcode: url.shortcode });
+  };
+
+  const handleDelete = async (shortcodes: string[]) => {
+    logger.logUserAction('delete_urls', 'url-table', { shortcodes });
+    try {
+      await urlService.deleteUrls(shortcodes);
+      setSelected(prev => prev.filter(code => !shortcodes.includes(code)));
+    } catch (error) {
+      logger.error('url-table', 'Failed to move URLs to trash', {
+        shortcodes,
+        error: error.message,
+      });
+    }
+  };
+
+  const toggleSelected = (shortcode: string) => {
+    setSelected(prev => (prev.includes(shortcode) ? prev.filter(code => code !== shortcode) : [...prev, shortcode]));
+  };
+
   const toggleExpanded = (id: string) => {
     setExpandedRow(expandedRow === id ? null : id);
   };
@@ -93,11 +187,30 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
     }).format(date);
   };
 
-  const isExpired = (expiresAt: Date) => {
-    return new Date() > expiresAt;
+  const isExpired = (expiresAt: Date | null) => {
+    return expiresAt !== null && new Date() > expiresAt;
+  };
+
+  const getMatchedRuleLabel = (click: ClickEvent) => {
+    const rules = urls.find(url => url.shortcode === click.shortcode)?.redirectRules || [];
+    const rule = rules.find(candidate => candidate.id === click.matchedRuleId);
+    return rule ? `${describeCondition(rule.condition)} → ${rule.destination}` : 'Rule since removed';
+  };
+
+  const getVariantLabel = (click: ClickEvent) => {
+    const variants = urls.find(url => url.shortcode === click.shortcode)?.splitVariants || [];
+    const variant = variants.find(candidate => candidate.id === click.variantId);
+    return variant ? `${variant.name} → ${variant.destination}` : 'Variant since removed';
   };
 
-  const getTimeRemaining = (expiresAt: Date) => {
+  const getOpeningLabel = (url: ShortUrl) => {
+    const { opensAt } = scheduleAvailability(url);
+    return opensAt ? `Opens ${formatDateTime(opensAt)}` : 'Does not open again before it expires';
+  };
+
+  const getTimeRemaining = (expiresAt: Date | null) => {
+    if (expiresAt === null) return 'No expiry';
+
     const now = new Date();
     const diff = expiresAt.getTime() - now.getTime();
     
@@ -114,6 +227,14 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
 
   const sortedUrls = [...urls].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   const paginatedUrls = sortedUrls.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+  const pageShortcodes = paginatedUrls.map(url => url.shortcode);
+  const pageSelectedCount = pageShortcodes.filter(code => selected.includes(code)).length;
+
+  const togglePageSelected = () => {
+    setSelected(prev => (pageSelectedCount === pageShortcodes.length
+      ? prev.filter(code => !pageShortcodes.includes(code))
+      : Array.from(new Set([...prev, ...pageShortcodes]))));
+  };
 
   if (urls.length === 0) {
     return (
@@ -131,10 +252,29 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
 
   return (
     <>
+      {!readOnly && selected.length > 0 && (
+        <Toolbar sx={{ backgroundColor: 'action.selected', gap: 2 }}>
+          <Typography variant="subtitle2" sx={{ flex: 1 }}>
+            {selected.length} selected
+          </Typography>
+          <Button color="error" startIcon={<Delete />} onClick={() => handleDelete(selected)}>
+            Move to trash
+          </Button>
+        </Toolbar>
+      )}
       <TableContainer component={Paper} elevation={3}>
         <Table>
           <TableHead>
             <TableRow sx={{ backgroundColor: 'grey.50' }}>
+              {!readOnly && (
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={pageShortcodes.length > 0 && pageSelectedCount === pageShortcodes.length}
+                    indeterminate={pageSelectedCount > 0 && pageSelectedCount < pageShortcodes.length}
+                    onChange={togglePageSelected}
+                  />
+                </TableCell>
+              )}
               <TableCell>Short URL</TableCell>
               <TableCell>Original URL</TableCell>
               <TableCell align="center">Clicks</TableCell>
@@ -154,6 +294,14 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                     },
                   }}
                 >
+                  {!readOnly && (
+                    <TableCell padding="checkbox">
+                      <Checkbox
+                        checked={selected.includes(url.shortcode)}
+                        onChange={() => toggleSelected(url.shortcode)}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell>
                     <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                       <Typography
@@ -167,6 +315,11 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                       {url.isCustomShortcode && (
                         <Chip label="Custom" size="small" color="secondary" />
                       )}
+                      {url.password && (
+                        <Tooltip title="Password protected">
+                          <Lock fontSize="small" color="action" />
+                        </Tooltip>
+                      )}
                     </Box>
                   </TableCell>
                   
@@ -187,13 +340,21 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                   
                   <TableCell align="center">
                     <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
-                      <Typography variant="body2" fontWeight={600} color="primary.main">
-                        {url.clicks.length}
-                      </Typography>
-                      {url.clicks.length > 0 && (
+                      {url.maxClicks !== null ? (
+                        <Tooltip title={`${remainingClicks(url)} use${remainingClicks(url) !== 1 ? 's' : ''} left`}>
+                          <Typography variant="body2" fontWeight={600} color="primary.main">
+                            {url.clickCount} / {url.maxClicks}
+                          </Typography>
+                        </Tooltip>
+                      ) : (
+                        <Typography variant="body2" fontWeight={600} color="primary.main">
+                          {url.clickCount}
+                        </Typography>
+                      )}
+                      {url.clickCount > 0 && (
                         <IconButton
                           size="small"
-                          onClick={() => handleViewClicks(url.clicks, url.shortcode)}
+                          onClick={() => handleViewClicks(url)}
                         >
                           <Visibility fontSize="small" />
                         </IconButton>
@@ -202,13 +363,28 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                   </TableCell>
                   
                   <TableCell align="center">
-                    <Chip
-                      icon={<AccessTime />}
-                      label={isExpired(url.expiresAt) ? 'Expired' : getTimeRemaining(url.expiresAt)}
-                      size="small"
-                      color={isExpired(url.expiresAt) ? 'error' : 'success'}
-                      variant={isExpired(url.expiresAt) ? 'filled' : 'outlined'}
-                    />
+                    {url.isPaused ? (
+                      <Chip icon={<Pause />} label="Paused" size="small" color="warning" />
+                    ) : isExhausted(url) ? (
+                      <Chip icon={<Block />} label="Used up" size="small" color="error" />
+                    ) : !isExpired(url.expiresAt) && !scheduleAvailability(url).available ? (
+                      <Tooltip title={getOpeningLabel(url)}>
+                        <Chip
+                          icon={<Schedule />}
+                          label={url.activatesAt && url.activatesAt > new Date() ? 'Scheduled' : 'Outside hours'}
+                          size="small"
+                          color="info"
+                        />
+                      </Tooltip>
+                    ) : (
+                      <Chip
+                        icon={<AccessTime />}
+                        label={isExpired(url.expiresAt) ? 'Expired' : getTimeRemaining(url.expiresAt)}
+                        size="small"
+                        color={isExpired(url.expiresAt) ? 'error' : 'success'}
+                        variant={isExpired(url.expiresAt) ? 'filled' : 'outlined'}
+                      />
+                    )}
                   </TableCell>
                   
                   <TableCell align="center">
@@ -239,6 +415,30 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                           <Launch fontSize="small" />
                         </IconButton>
                       </Tooltip>
+
+                      {!readOnly && (
+                        <Tooltip title="Edit link">
+                          <IconButton
+                            size="small"
+                            onClick={() => handleEdit(url)}
+                            color="primary"
+                          >
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+
+                      {!readOnly && (
+                        <Tooltip title="Move to trash">
+                          <IconButton
+                            size="small"
+                            onClick={() => handleDelete([url.shortcode])}
+                            color="error"
+                          >
+                            <Delete fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                      )}
                       
                       <IconButton
                         size="small"
@@ -251,7 +451,7 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                 </TableRow>
                 
                 <TableRow>
-                  <TableCell colSpan={6} sx={{ p: 0 }}>
+                  <TableCell colSpan={readOnly ? 6 : 7} sx={{ p: 0 }}>
                     <Collapse in={expandedRow === url.id}>
                       <Box sx={{ p: 2, backgroundColor: 'grey.50' }}>
                         <Typography variant="subtitle2" gutterBottom>
@@ -263,7 +463,7 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                               Validity Period
                             </Typography>
                             <Typography variant="body2">
-                              {url.validityMinutes} minutes
+                              {describeExpiryPolicy(url)}
                             </Typography>
                           </Box>
                           <Box>
@@ -271,7 +471,77 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                               Expires At
                             </Typography>
                             <Typography variant="body2">
-                              {formatDateTime(url.expiresAt)}
+                              {url.expiresAt ? formatDateTime(url.expiresAt) : 'Never'}
+                            </Typography>
+                          </Box>
+                          {url.activatesAt && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary">
+                                Goes Live
+                              </Typography>
+                              <Typography variant="body2">
+                                {formatDateTime(url.activatesAt)}
+                              </Typography>
+                            </Box>
+                          )}
+                          {url.activeHours && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary">
+                                Active Hours
+                              </Typography>
+                              <Typography variant="body2">
+                                {describeActiveHours(url.activeHours)}
+                              </Typography>
+                            </Box>
+                          )}
+                          {url.redirectRules.length > 0 && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary">
+                                Redirect Rules
+                              </Typography>
+                              {url.redirectRules.map(rule => (
+                                <Typography key={rule.id} variant="body2">
+                                  {describeCondition(rule.condition)}
+                                </Typography>
+                              ))}
+                            </Box>
+                          )}
+                          {url.splitVariants.length > 0 && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary">
+                                A/B Split
+                              </Typography>
+                              <Typography variant="body2">
+                                {url.splitVariants.map(variant => `${variant.name}: ${variant.weight}`).join(' · ')}
+                              </Typography>
+                            </Box>
+                          )}
+                          {(url.fallbackUrl || url.expiredMessage) && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary">
+                                After Expiry
+                              </Typography>
+                              <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>
+                                {url.fallbackUrl ? `Redirects to ${url.fallbackUrl}` : `Shows "${url.expiredMessage}"`}
+                              </Typography>
+                            </Box>
+                          )}
+                          {url.passthrough && (
+                            <Box>
+                              <Typography variant="caption" color="text.secondary">
+                                Passthrough
+                              </Typography>
+                              <Typography variant="body2">
+                                {describePassthrough(url.passthrough)}
+                              </Typography>
+                            </Box>
+                          )}
+                          <Box>
+                            <Typography variant="caption" color="text.secondary">
+                              Remaining Uses
+                            </Typography>
+                            <Typography variant="body2">
+                              {remainingClicks(url) ?? 'Unlimited'}
                             </Typography>
                           </Box>
                           <Box>
@@ -287,8 +557,8 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                               Last Click
                             </Typography>
                             <Typography variant="body2">
-                              {url.clicks.length > 0 
-                                ? formatDateTime(url.clicks[url.clicks.length - 1].timestamp)
+                              {url.lastClickAt
+                                ? formatDateTime(url.lastClickAt)
                                 : 'Never'
                               }
                             </Typography>
@@ -320,7 +590,7 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
       {/* Click Details Dialog */}
       <Dialog
         open={clicksDialog.open}
-        onClose={() => setClicksDialog({ open: false, clicks: [], shortcode: '' })}
+        onClose={() => setClicksDialog({ open: false, shortcode: '' })}
         maxWidth="md"
         fullWidth
       >
@@ -328,13 +598,42 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
           Click Analytics for /{clicksDialog.shortcode}
         </DialogTitle>
         <DialogContent>
-          {clicksDialog.clicks.length === 0 ? (
+          {dialogBreakdown && dialogBreakdown.total > 0 && (
+            <Box sx={{ display: 'grid', gap: 2, mb: 2, gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' } }}>
+              {([
+                ['Top Referrers', dialogBreakdown.byReferrer],
+                ['Countries', dialogBreakdown.byCountry],
+                ['Browsers', dialogBreakdown.byUserAgent],
+              ] as const).map(([label, counts]) => (
+                <Box key={label}>
+                  <Typography variant="caption" color="text.secondary">
+                    {label}
+                  </Typography>
+                  {topEntries(counts).map(([name, count]) => (
+                    <Typography key={name} variant="body2">
+                      {name}: <strong>{count}</strong>
+                    </Typography>
+                  ))}
+                </Box>
+              ))}
+            </Box>
+          )}
+          {dialogClicks.length > 0 && (
+            <Typography variant="subtitle2">
+              Recent Clicks
+            </Typography>
+          )}
+          {dialogClicks.length === 0 && dialogLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          ) : dialogClicks.length === 0 ? (
             <Typography color="text.secondary">
-              No clicks recorded yet.
+              {dialogBreakdown && dialogBreakdown.total > 0 ? 'No recent clicks.' : 'No clicks recorded yet.'}
             </Typography>
           ) : (
             <List>
-              {clicksDialog.clicks.map((click, index) => (
+              {dialogClicks.map((click, index) => (
                 <React.Fragment key={click.id}>
                   <ListItem>
                     <ListItemText
@@ -349,6 +648,16 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                               <strong>Location:</strong> {click.geoLocation.city && `${click.geoLocation.city}, `}{click.geoLocation.country}
                             </Typography>
                           )}
+                          {click.matchedRuleId && (
+                            <Typography variant="body2" component="div">
+                              <strong>Matched rule:</strong> {getMatchedRuleLabel(click)}
+                            </Typography>
+                          )}
+                          {click.variantId && (
+                            <Typography variant="body2" component="div">
+                              <strong>Variant:</strong> {getVariantLabel(click)}
+                            </Typography>
+                          )}
                           <Typography variant="caption" color="text.secondary" component="div">
                             {click.userAgent}
                           </Typography>
@@ -356,13 +665,25 @@ export const UrlTable: React.FC<UrlTableProps> = ({ urls }) => {
                       }
                     />
                   </ListItem>
-                  {index < clicksDialog.clicks.length - 1 && <Divider />}
+                  {index < dialogClicks.length - 1 && <Divider />}
                 </React.Fragment>
               ))}
             </List>
           )}
+          {dialogHasMore && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 1 }}>
+              <Button
+                onClick={() => loadClicks(clicksDialog.shortcode, dialogPage + 1)}
+                disabled={dialogLoading}
+              >
+                Load more
+              </Button>
+            </Box>
+          )}
         </DialogContent>
       </Dialog>
+
+      <EditUrlDialog url={editingUrl} onClose={() => setEditingUrl(null)} />
     </>
   );
 };
\ No newline at end of file
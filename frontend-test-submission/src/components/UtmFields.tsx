@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  ListItemText,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Close, Save } from '@mui/icons-material';
+import { UtmParameters, UtmPreset } from '../types';
+import { UTM_FIELDS, deleteUtmPreset, hasUtmParameters, listUtmPresets, saveUtmPreset } from '../services/utm';
+import { logger } from '../middleware/logger';
+
+interface UtmFieldsProps {
+  value: UtmParameters;
+  onChange: (params: UtmParameters) => void;
+  disabled?: boolean;
+}
+
+const FIELD_LABELS: Record<keyof UtmParameters, string> = {
+  source: 'Source',
+  medium: 'Medium',
+  campaign: 'Campaign',
+  term: 'Term',
+  content: 'Content',
+};
+
+const FIELD_PLACEHOLDERS: Record<keyof UtmParameters, string> = {
+  source: 'newsletter',
+  medium: 'email',
+  campaign: 'spring_sale',
+  term: 'running+shoes',
+  content: 'header_link',
+};
+
+/**
+ * UTM source, medium, campaign, term and content, with saved presets
+ */
+export const UtmFields: React.FC<UtmFieldsProps> = ({ value, onChange, disabled }) => {
+  const [presets, setPresets] = useState<UtmPreset[]>(() => listUtmPresets());
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(candidate => candidate.id === id);
+    if (!preset) return;
+    logger.logUserAction('apply_utm_preset', 'utm-fields', { name: preset.name });
+    onChange({ ...preset.params });
+  };
+
+  const handleSave = () => {
+    try {
+      saveUtmPreset(presetName, value);
+      logger.logUserAction('save_utm_preset', 'utm-fields', { name: presetName.trim() });
+      setPresets(listUtmPresets());
+      setSaveOpen(false);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save preset');
+    }
+  };
+
+  const handleDelete = (event: React.MouseEvent, preset: UtmPreset) => {
+    // Keep the click from also selecting the preset
+    event.stopPropagation();
+    deleteUtmPreset(preset.id);
+    logger.logUserAction('delete_utm_preset', 'utm-fields', { name: preset.name });
+    setPresets(listUtmPresets());
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1.5 }}>
+        <Typography variant="subtitle2">UTM Parameters</Typography>
+        <TextField
+          select
+          size="small"
+          label="Preset"
+          value=""
+          onChange={(e) => applyPreset(e.target.value)}
+          disabled={disabled}
+          sx={{ minWidth: 180 }}
+          // Presets may have been saved from another URL row since mounting
+          SelectProps={{ onOpen: () => setPresets(listUtmPresets()) }}
+        >
+          {presets.length === 0 && (
+            <MenuItem value="" disabled>
+              No saved presets
+            </MenuItem>
+          )}
+          {presets.map(preset => (
+            <MenuItem key={preset.id} value={preset.id}>
+              <ListItemText primary={preset.name} />
+              <IconButton size="small" edge="end" onClick={(e) => handleDelete(e, preset)}>
+                <Close fontSize="small" />
+              </IconButton>
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          size="small"
+          startIcon={<Save />}
+          onClick={() => {
+            setPresetName('');
+            setSaveError(null);
+            setSaveOpen(true);
+          }}
+          disabled={disabled || !hasUtmParameters(value)}
+        >
+          Save as preset
+        </Button>
+      </Box>
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+        {UTM_FIELDS.map(field => (
+          <TextField
+            key={field}
+            size="small"
+            label={FIELD_LABELS[field]}
+            placeholder={FIELD_PLACEHOLDERS[field]}
+            value={value[field] || ''}
+            onChange={(e) => onChange({ ...value, [field]: e.target.value })}
+            disabled={disabled}
+            sx={{ width: 160 }}
+          />
+        ))}
+      </Box>
+
+      <Dialog open={saveOpen} onClose={() => setSaveOpen(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save UTM preset</DialogTitle>
+        <DialogContent>
+          <TextField
+            label="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            error={!!saveError}
+            helperText={saveError || 'A preset with the same name is replaced'}
+            fullWidth
+            autoFocus
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSaveOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={presetName.trim() === ''}>
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
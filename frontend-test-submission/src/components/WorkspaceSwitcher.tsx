@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Menu,
+  MenuItem,
+  ListItemIcon,
+  ListItemText,
+  Divider,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Alert,
+} from '@mui/material';
+import { ArrowDropDown, Check, Add, Settings, Workspaces } from '@mui/icons-material';
+import { Workspace } from '../types';
+import { workspaceService, DEFAULT_WORKSPACE_ID } from '../services/workspaces';
+import { urlService } from '../services/urlService';
+import { useActiveWorkspace } from '../hooks/use-active-workspace';
+import { logger } from '../middleware/logger';
+
+type EditorMode = 'create' | 'edit' | null;
+
+/**
+ * App bar menu for switching, creating and configuring workspaces
+ */
+export const WorkspaceSwitcher: React.FC = () => {
+  const active = useActiveWorkspace();
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [mode, setMode] = useState<EditorMode>(null);
+  const [name, setName] = useState('');
+  const [validityMinutes, setValidityMinutes] = useState('');
+  /** Empty for no limit */
+  const [maxValidityMinutes, setMaxValidityMinutes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const openMenu = (event: React.MouseEvent<HTMLElement>) => {
+    setWorkspaces(workspaceService.list());
+    setAnchorEl(event.currentTarget);
+  };
+
+  const handleSelect = (workspace: Workspace) => {
+    setAnchorEl(null);
+    if (workspace.id === active.id) return;
+    logger.logUserAction('switch_workspace', 'workspace-switcher', { workspaceId: workspace.id });
+    workspaceService.setActive(workspace.id);
+  };
+
+  const openEditor = (editorMode: Exclude<EditorMode, null>) => {
+    setAnchorEl(null);
+    setMode(editorMode);
+    setName(editorMode === 'edit' ? active.name : '');
+    setValidityMinutes(String(active.defaults.validityMinutes));
+    setMaxValidityMinutes(active.defaults.maxValidityMinutes === null ? '' : String(active.defaults.maxValidityMinutes));
+    setError(null);
+  };
+
+  const closeEditor = () => setMode(null);
+
+  const run = async (action: string, task: () => Promise<void> | void) => {
+    logger.logUserAction(action, 'workspace-switcher', { workspaceId: active.id });
+    try {
+      await task();
+      closeEditor();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update workspace');
+    }
+  };
+
+  const handleSave = () => run(mode === 'create' ? 'create_workspace' : 'update_workspace', () => {
+    const defaults = {
+      validityMinutes: parseInt(validityMinutes) || 0,
+      maxValidityMinutes: maxValidityMinutes.trim() === '' ? null : parseInt(maxValidityMinutes) || 0,
+    };
+    if (mode === 'create') {
+      const created = workspaceService.create(name, defaults);
+      workspaceService.setActive(created.id);
+    } else {
+      workspaceService.update(active.id, {
+        name: name.trim() === active.name ? undefined : name,
+        defaults,
+      });
+    }
+  });
+
+  const handleDelete = () => run('delete_workspace', () => urlService.deleteWorkspace(active));
+
+  return (
+    <>
+      <Button
+        color="inherit"
+        startIcon={<Workspaces />}
+        endIcon={<ArrowDropDown />}
+        onClick={openMenu}
+        sx={{ textTransform: 'none' }}
+      >
+        {active.name}
+      </Button>
+
+      <Menu anchorEl={anchorEl} open={anchorEl !== null} onClose={() => setAnchorEl(null)}>
+        {workspaces.map(workspace => (
+          <MenuItem key={workspace.id} onClick={() => handleSelect(workspace)}>
+            <ListItemIcon>{workspace.id === active.id && <Check fontSize="small" />}</ListItemIcon>
+            <ListItemText>{workspace.name}</ListItemText>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem onClick={() => openEditor('create')}>
+          <ListItemIcon><Add fontSize="small" /></ListItemIcon>
+          <ListItemText>New workspace</ListItemText>
+        </MenuItem>
+        <MenuItem onClick={() => openEditor('edit')}>
+          <ListItemIcon><Settings fontSize="small" /></ListItemIcon>
+          <ListItemText>Workspace settings</ListItemText>
+        </MenuItem>
+      </Menu>
+
+      <Dialog open={mode !== null} onClose={closeEditor} maxWidth="xs" fullWidth>
+        <DialogTitle>{mode === 'create' ? 'New workspace' : 'Workspace settings'}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            fullWidth
+            autoFocus
+            sx={{ mt: 1, mb: 2 }}
+          />
+          <TextField
+            type="number"
+            label="Default validity (minutes)"
+            value={validityMinutes}
+            onChange={(e) => setValidityMinutes(e.target.value)}
+            helperText="Used when a new link does not set its own validity"
+            inputProps={{ min: 1, max: maxValidityMinutes || undefined }}
+            fullWidth
+            sx={{ mb: 2 }}
+          />
+          <TextField
+            type="number"
+            label="Maximum validity (minutes)"
+            value={maxValidityMinutes}
+            onChange={(e) => setMaxValidityMinutes(e.target.value)}
+            helperText="Longest lifetime a new link may have. Leave empty for no limit, which also allows links that never expire."
+            inputProps={{ min: 1 }}
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          {mode === 'edit' && active.id !== DEFAULT_WORKSPACE_ID && (
+            <Button color="error" onClick={handleDelete} sx={{ mr: 'auto' }}>
+              Delete
+            </Button>
+          )}
+          <Button onClick={closeEditor}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={name.trim() === ''}>
+            {mode === 'create' ? 'Create' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { Workspace } from '../types';
+import { workspaceService } from '../services/workspaces';
+
+/**
+ * The active workspace, updated when it is switched or edited
+ */
+export function useActiveWorkspace(): Workspace {
+  const [workspace, setWorkspace] = useState(() => workspaceService.getActive());
+
+  useEffect(() => workspaceService.subscribe(setWorkspace), []);
+
+  return workspace;
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { urlService } from '../services/urlService';
+import { isValidShortcode } from '../utils/validation';
+import { logger } from '../middleware/logger';
+
+const LOOKUP_DELAY_MS = 300;
+
+/**
+ * Alternatives for a custom shortcode while it is being typed; empty while
+ * the code is malformed or still available. Looks up once typing pauses.
+ */
+export function useShortcodeSuggestions(shortcode: string): string[] {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+
+  useEffect(() => {
+    // Chips for the previous input would be stale while the lookup runs
+    setSuggestions([]);
+    const desired = shortcode.trim();
+    if (!isValidShortcode(desired)) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const available = await urlService.isShortcodeAvailable(desired);
+        const found = available ? [] : await urlService.suggestShortcodes(desired);
+        if (!cancelled) setSuggestions(found);
+      } catch (error) {
+        logger.warn('shortcode-suggestions', 'Failed to look up shortcode suggestions', { error: error.message });
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [shortcode]);
+
+  return suggestions;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useRef } from 'react';
+import { StorageChangeEvent } from '../types';
+import { storageService } from '../services/storage';
+
+/**
+ * Run `onChange` whenever stored links change in this tab or another one
+ */
+export function useStorageChanges(onChange: (event: StorageChangeEvent) => void): void {
+  const callbackRef = useRef(onChange);
+  callbackRef.current = onChange;
+
+  useEffect(() => {
+    return storageService.subscribe(event => callbackRef.current(event));
+  }, []);
+}
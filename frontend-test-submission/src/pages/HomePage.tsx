@@ -21,6 +21,8 @@ import { logger } from '../middleware/logger';
 export const HomePage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [response, setResponse] = useState<CreateUrlsResponse | null>(null);
+  /** Requests behind `response`, so a failed one can be retried */
+  const [submitted, setSubmitted] = useState<CreateUrlRequest[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -40,19 +42,23 @@ export const HomePage: React.FC = () => {
 
       const result = await urlService.createUrls(requests);
       setResponse(result);
+      setSubmitted(requests);
 
       // Show success message
       const successCount = result.success.length;
       const errorCount = result.errors.length;
+      const reusedCount = result.reused.length;
+      const reusedNote = reusedCount > 0 ? ` (${reusedCount} reused)` : '';
       
       if (successCount > 0 && errorCount === 0) {
-        setSuccessMessage(`Successfully created ${successCount} short URL${successCount !== 1 ? 's' : ''}!`);
+        setSuccessMessage(`Successfully created ${successCount} short URL${successCount !== 1 ? 's' : ''}${reusedNote}!`);
       } else if (successCount > 0 && errorCount > 0) {
-        setSuccessMessage(`Created ${successCount} URL${successCount !== 1 ? 's' : ''} successfully. ${errorCount} failed.`);
+        setSuccessMessage(`Created ${successCount} URL${successCount !== 1 ? 's' : ''} successfully${reusedNote}. ${errorCount} failed.`);
       }
 
       logger.info('homepage', 'URL creation completed', {
         successCount,
+        reusedCount,
         errorCount,
         totalRequests: requests.length,
       });
@@ -70,6 +76,34 @@ export const HomePage: React.FC = () => {
     }
   };
 
+  /**
+   * Retry a request whose custom shortcode was taken with a suggested one,
+   * and merge the outcome into the current results
+   */
+  const handlePickShortcode = async (index: number, shortcode: string): Promise<void> => {
+    setLoading(true);
+    try {
+      const result = await urlService.createUrls([{ ...submitted[index], customShortcode: shortcode }]);
+      setResponse(prev => prev && {
+        success: [...prev.success, ...result.success],
+        reused: [...prev.reused, ...result.reused],
+        dedupeReasons: { ...prev.dedupeReasons, ...result.dedupeReasons },
+        errors: [
+          ...prev.errors.filter(e => e.index !== index),
+          ...result.errors.map(e => ({ ...e, index })),
+        ],
+      });
+      if (result.success.length > 0) {
+        setSuccessMessage(`Created short URL "${shortcode}"`);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred');
+      logger.error('homepage', 'Shortcode retry failed', { shortcode, error: error.message });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const features = [
     {
       icon: <Speed />,
@@ -165,7 +199,7 @@ export const HomePage: React.FC = () => {
       <UrlForm onSubmit={handleSubmitUrls} loading={loading} />
 
       {/* Results */}
-      <UrlResults response={response} />
+      <UrlResults response={response} onPickShortcode={handlePickShortcode} retrying={loading} />
 
       {/* Error Display */}
       {error && (
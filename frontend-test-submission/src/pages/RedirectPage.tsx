@@ -1,5 +1,5 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, Navigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, useLocation, Navigate } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -7,39 +7,133 @@ import {
   Alert,
   Button,
   Paper,
+  TextField,
 } from '@mui/material';
-import { Launch, Home } from '@mui/icons-material';
+import { Launch, Home, Lock, Schedule, LinkOff, TimerOff, PauseCircle, Block, ErrorOutline } from '@mui/icons-material';
 import { urlService } from '../services/urlService';
+import {
+  IncorrectLinkPasswordError,
+  LinkPasswordRequiredError,
+  TooManyPasswordAttemptsError,
+} from '../services/linkPasswords';
+import { LinkExhaustedError } from '../services/clickLimits';
+import { LinkNotYetActiveError } from '../services/schedules';
+import { LinkExpiredError } from '../services/expiry';
+import { LinkNotFoundError, LinkPausedError } from '../services/linkErrors';
 import { logger } from '../middleware/logger';
 
+/**
+ * Why a short URL could not be followed; each has its own page
+ */
+type RedirectFailure =
+  | { kind: 'not-found' }
+  | { kind: 'expired'; expiredAt: Date | null; customMessage: string | null }
+  | { kind: 'paused' }
+  | { kind: 'exhausted'; message: string }
+  | { kind: 'error'; message: string };
+
+/**
+ * Classify a redirect error and log it under its own event
+ */
+function toFailure(error: unknown, shortcode: string): RedirectFailure {
+  if (error instanceof LinkNotFoundError) {
+    logger.warn('redirect', 'Short URL not found', { shortcode });
+    return { kind: 'not-found' };
+  }
+  if (error instanceof LinkExpiredError) {
+    logger.warn('redirect', 'Short URL expired', {
+      shortcode,
+      expiredAt: error.url.expiresAt?.toISOString(),
+      customMessage: error.url.expiredMessage !== null,
+    });
+    return { kind: 'expired', expiredAt: error.url.expiresAt, customMessage: error.url.expiredMessage };
+  }
+  if (error instanceof LinkPausedError) {
+    logger.warn('redirect', 'Short URL paused', { shortcode });
+    return { kind: 'paused' };
+  }
+  if (error instanceof LinkExhaustedError) {
+    logger.warn('redirect', 'Short URL used up', { shortcode, maxClicks: error.maxClicks });
+    return { kind: 'exhausted', message: error.message };
+  }
+
+  const message = error instanceof Error ? error.message : 'Redirect failed';
+  logger.warn('redirect', 'Redirect failed', { shortcode, error: message });
+  return { kind: 'error', message };
+}
+
+interface UnavailablePageProps {
+  icon: React.ReactNode;
+  title: string;
+  children: React.ReactNode;
+}
+
+const UnavailablePage: React.FC<UnavailablePageProps> = ({ icon, title, children }) => (
+  <Box sx={{ maxWidth: 600, mx: 'auto', mt: 8 }}>
+    <Paper sx={{ p: 4, textAlign: 'center' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mb: 2 }}>
+        {icon}
+        <Typography variant="h4">{title}</Typography>
+      </Box>
+
+      {children}
+
+      <Button variant="contained" startIcon={<Home />} href="/">
+        Go Home
+      </Button>
+    </Paper>
+  </Box>
+);
+
+/**
+ * Time left until a scheduled link opens, e.g. "2d 03:04:05"
+ */
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(Math.ceil(ms / 1000), 0);
+  const days = Math.floor(totalSeconds / 86400);
+  const clock = [
+    Math.floor(totalSeconds / 3600) % 24,
+    Math.floor(totalSeconds / 60) % 60,
+    totalSeconds % 60,
+  ].map(part => String(part).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
+
 /**
  * Redirect page that handles shortcode resolution and analytics tracking
  * Redirects to original URL while recording click analytics
+ * Password-protected links ask for their password first; scheduled links
+ * show a countdown and retry once they open. Missing, expired, paused and
+ * used-up links each get their own page.
  */
 export const RedirectPage: React.FC = () => {
   const { shortcode } = useParams<{ shortcode: string }>();
+  const location = useLocation();
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [failure, setFailure] = useState<RedirectFailure | null>(null);
   const [originalUrl, setOriginalUrl] = useState<string | null>(null);
   const [redirecting, setRedirecting] = useState(false);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [notYetActive, setNotYetActive] = useState<LinkNotYetActiveError | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [attempt, setAttempt] = useState(0);
 
-  useEffect(() => {
-    if (!shortcode) {
-      setError('Invalid shortcode');
-      setLoading(false);
-      return;
-    }
-
-    handleRedirect();
-  }, [shortcode]);
-
-  const handleRedirect = async () => {
+  const { search, pathname } = location;
+  const handleRedirect = useCallback(async (enteredPassword?: string) => {
     if (!shortcode) return;
 
     try {
       logger.info('redirect', 'Processing redirect request', { shortcode });
 
-      const url = await urlService.redirectUrl(shortcode);
+      // Raw pathname rather than the decoded splat param, so encoded slashes survive
+      const url = await urlService.redirectUrl(shortcode, enteredPassword, {
+        query: search,
+        path: pathname.split('/').slice(2).join('/'),
+      });
+      setPasswordRequired(false);
       setOriginalUrl(url);
 
       // Brief delay to show redirect message, then redirect
@@ -49,16 +143,70 @@ export const RedirectPage: React.FC = () => {
       }, 1500);
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Redirect failed';
-      setError(errorMessage);
-      
-      logger.warn('redirect', 'Redirect failed', {
-        shortcode,
-        error: errorMessage,
-      });
+      if (error instanceof LinkPasswordRequiredError) {
+        setPasswordRequired(true);
+        return;
+      }
+      if (error instanceof IncorrectLinkPasswordError || error instanceof TooManyPasswordAttemptsError) {
+        setPasswordError(error.message);
+        return;
+      }
+      if (error instanceof LinkNotYetActiveError) {
+        setNow(new Date());
+        setNotYetActive(error);
+        logger.info('redirect', 'Short URL not yet available', {
+          shortcode,
+          opensAt: error.opensAt?.toISOString(),
+        });
+        return;
+      }
+
+      setFailure(toFailure(error, shortcode));
     } finally {
       setLoading(false);
     }
+  }, [shortcode, search, pathname]);
+
+  useEffect(() => {
+    if (!shortcode) {
+      setFailure({ kind: 'not-found' });
+      setLoading(false);
+      return;
+    }
+
+    handleRedirect();
+  }, [shortcode, attempt, handleRedirect]);
+
+  // Tick the countdown and try again as soon as the link opens
+  useEffect(() => {
+    const opensAt = notYetActive?.opensAt;
+    if (!opensAt) return;
+
+    const timer = setInterval(() => {
+      const current = new Date();
+      setNow(current);
+      if (current >= opensAt) {
+        clearInterval(timer);
+        setNotYetActive(null);
+        setLoading(true);
+        setAttempt(prev => prev + 1);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [notYetActive]);
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    setPasswordError(null);
+    logger.logUserAction('submit_link_password', 'redirect', { shortcode });
+
+    try {
+      await handleRedirect(password);
+    } finally {
+      setVerifying(false);
+      setPassword('');
+    }
   };
 
   const handleManualRedirect = () => {
@@ -88,31 +236,132 @@ export const RedirectPage: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (notYetActive) {
+    const { opensAt } = notYetActive;
     return (
       <Box sx={{ maxWidth: 600, mx: 'auto', mt: 8 }}>
         <Paper sx={{ p: 4, textAlign: 'center' }}>
-          <Typography variant="h4" color="error.main" gutterBottom>
-            URL Not Found
-          </Typography>
-          
-          <Alert severity="error" sx={{ mb: 3 }}>
-            {error}
-          </Alert>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1, mb: 2 }}>
+            <Schedule color="primary" fontSize="large" />
+            <Typography variant="h4">Not Yet Available</Typography>
+          </Box>
 
-          <Typography variant="body1" color="text.secondary" paragraph>
-            The short URL you're looking for doesn't exist or has expired.
-          </Typography>
+          {opensAt ? (
+            <>
+              <Typography variant="body1" color="text.secondary" paragraph>
+                /{shortcode} opens at {opensAt.toLocaleString()}.
+              </Typography>
+              <Typography variant="h3" fontWeight={600} sx={{ fontVariantNumeric: 'tabular-nums', mb: 3 }}>
+                {formatCountdown(opensAt.getTime() - now.getTime())}
+              </Typography>
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Keep this page open and you will be taken there automatically.
+              </Typography>
+            </>
+          ) : (
+            <Typography variant="body1" color="text.secondary" paragraph>
+              /{shortcode} is closed right now and does not open again before it expires.
+            </Typography>
+          )}
+
+          <Button variant="outlined" startIcon={<Home />} href="/">
+            Go Home
+          </Button>
+        </Paper>
+      </Box>
+    );
+  }
 
-          <Box sx={{ display: 'flex', gap: 2, justifyContent: 'center' }}>
-            <Button
-              variant="contained"
-              startIcon={<Home />}
-              href="/"
-            >
-              Go Home
-            </Button>
+  if (failure) {
+    switch (failure.kind) {
+      case 'not-found':
+        return (
+          <UnavailablePage icon={<LinkOff color="error" fontSize="large" />} title="URL Not Found">
+            <Typography variant="body1" color="text.secondary" paragraph>
+              There is no short URL at /{shortcode}. Check the link for typos.
+            </Typography>
+          </UnavailablePage>
+        );
+      case 'expired':
+        return (
+          <UnavailablePage icon={<TimerOff color="warning" fontSize="large" />} title="Link Expired">
+            <Typography variant="body1" color="text.secondary" paragraph sx={{ whiteSpace: 'pre-line' }}>
+              {failure.customMessage || 'This short URL has expired and no longer redirects.'}
+            </Typography>
+            {failure.expiredAt && (
+              <Typography variant="body2" color="text.secondary" paragraph>
+                Expired {failure.expiredAt.toLocaleString()}
+              </Typography>
+            )}
+          </UnavailablePage>
+        );
+      case 'paused':
+        return (
+          <UnavailablePage icon={<PauseCircle color="warning" fontSize="large" />} title="Link Paused">
+            <Typography variant="body1" color="text.secondary" paragraph>
+              The owner has paused /{shortcode}. It may work again later.
+            </Typography>
+          </UnavailablePage>
+        );
+      case 'exhausted':
+        return (
+          <UnavailablePage icon={<Block color="error" fontSize="large" />} title="Link Used Up">
+            <Alert severity="error" sx={{ mb: 3 }}>
+              {failure.message}
+            </Alert>
+            <Typography variant="body1" color="text.secondary" paragraph>
+              This short URL could only be opened a limited number of times, and those uses are gone.
+            </Typography>
+          </UnavailablePage>
+        );
+      default:
+        return (
+          <UnavailablePage icon={<ErrorOutline color="error" fontSize="large" />} title="Link Unavailable">
+            <Alert severity="error" sx={{ mb: 3 }}>
+              {failure.message}
+            </Alert>
+          </UnavailablePage>
+        );
+    }
+  }
+
+  if (passwordRequired) {
+    return (
+      <Box sx={{ maxWidth: 480, mx: 'auto', mt: 8 }}>
+        <Paper sx={{ p: 4 }} component="form" onSubmit={handlePasswordSubmit}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            <Lock color="primary" />
+            <Typography variant="h5">Password required</Typography>
           </Box>
+          <Typography variant="body2" color="text.secondary" paragraph>
+            Enter the password for /{shortcode} to continue.
+          </Typography>
+
+          {passwordError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {passwordError}
+            </Alert>
+          )}
+
+          <TextField
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            fullWidth
+            autoFocus
+            disabled={verifying}
+            sx={{ mb: 2 }}
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            fullWidth
+            disabled={verifying || password === ''}
+            startIcon={verifying ? <CircularProgress size={20} /> : <Launch />}
+          >
+            Continue
+          </Button>
         </Paper>
       </Box>
     );
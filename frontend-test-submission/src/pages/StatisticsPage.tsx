@@ -6,19 +6,35 @@ import {
   Button,
   Alert,
   CircularProgress,
+  TextField,
+  MenuItem,
+  Chip,
 } from '@mui/material';
-import { Refresh, GetApp } from '@mui/icons-material';
+import { Refresh, GetApp, DeleteOutline } from '@mui/icons-material';
+import { useSearchParams } from 'react-router-dom';
 import { ShortUrl } from '../types';
 import { urlService } from '../services/urlService';
 import { StatisticsCards } from '../components/StatisticsCards';
 import { UrlTable } from '../components/UrlTable';
+import { CacheBenchmarkPanel } from '../components/CacheBenchmarkPanel';
+import { HistoryControls } from '../components/HistoryControls';
+import { TrashDialog } from '../components/TrashDialog';
+import { SplitTestsPanel } from '../components/SplitTestsPanel';
+import { CampaignsPanel } from '../components/CampaignsPanel';
+import { ShortcodeSettingsPanel } from '../components/ShortcodeSettingsPanel';
+import { readUtmParameters } from '../services/utm';
 import { logger } from '../middleware/logger';
+import { useStorageChanges } from '../hooks/use-storage-changes';
+
+const RETENTION_OPTIONS = [1, 7, 14, 30, 90];
 
 /**
  * Comprehensive statistics and analytics page
  * Shows all created URLs with detailed click analytics
  */
 export const StatisticsPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const benchmarkMode = searchParams.has('benchmark');
   const [urls, setUrls] = useState<ShortUrl[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -27,26 +43,42 @@ export const StatisticsPage: React.FC = () => {
     totalClicks: 0,
     activeUrls: 0,
     expiredUrls: 0,
+    neverExpiringUrls: 0,
   });
+  const [asOf, setAsOf] = useState<{ date: Date; urls: ShortUrl[] } | null>(null);
+  const [trashOpen, setTrashOpen] = useState(false);
+  const [campaign, setCampaign] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState(() => urlService.getRetentionPolicy().rawRetentionDays);
 
   useEffect(() => {
     logger.logUserAction('statistics_page_visit', 'statistics');
     loadStatistics();
   }, []);
 
-  const loadStatistics = async () => {
-    setLoading(true);
+  // Keep the page live when another tab creates links or records clicks
+  useStorageChanges(event => {
+    logger.debug('statistics', 'Refreshing after storage change', {
+      type: event.type,
+      origin: event.origin,
+    });
+    loadStatistics(false);
+  });
+
+  const loadStatistics = async (showSpinner: boolean = true) => {
+    if (showSpinner) {
+      setLoading(true);
+    }
     setError(null);
 
     try {
       logger.info('statistics', 'Loading statistics data');
 
       // Load all URLs
-      const allUrls = urlService.getAllUrls();
+      const allUrls = await urlService.getAllUrls();
       setUrls(allUrls);
 
       // Get analytics summary
-      const analyticsData = urlService.getAnalyticsSummary();
+      const analyticsData = await urlService.getAnalyticsSummary();
       setAnalytics(analyticsData);
 
       logger.info('statistics', 'Statistics loaded successfully', {
@@ -71,6 +103,17 @@ export const StatisticsPage: React.FC = () => {
     loadStatistics();
   };
 
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    logger.logUserAction('change_click_retention', 'statistics', { rawRetentionDays: days });
+
+    try {
+      await urlService.updateRetentionPolicy({ rawRetentionDays: days });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to update click retention');
+    }
+  };
+
   const handleExportData = () => {
     try {
       const dataToExport = {
@@ -81,9 +124,11 @@ export const StatisticsPage: React.FC = () => {
           originalUrl: url.originalUrl,
           createdAt: url.createdAt,
           expiresAt: url.expiresAt,
-          clicks: url.clicks.length,
+          clicks: url.clickCount,
           isCustomShortcode: url.isCustomShortcode,
           validityMinutes: url.validityMinutes,
+          inactivityDays: url.inactivityDays,
+          campaign: readUtmParameters(url.originalUrl).campaign,
         })),
       };
 
@@ -111,6 +156,11 @@ export const StatisticsPage: React.FC = () => {
     }
   };
 
+  const visibleUrls = asOf ? asOf.urls : urls;
+  const tableUrls = campaign
+    ? visibleUrls.filter(url => readUtmParameters(url.originalUrl).campaign === campaign)
+    : visibleUrls;
+
   if (loading) {
     return (
       <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', py: 8 }}>
@@ -133,6 +183,16 @@ export const StatisticsPage: React.FC = () => {
         </Box>
         
         <Box sx={{ display: 'flex', gap: 2 }}>
+          <Button
+            variant="outlined"
+            startIcon={<DeleteOutline />}
+            onClick={() => {
+              logger.logUserAction('open_trash', 'statistics');
+              setTrashOpen(true);
+            }}
+          >
+            Trash
+          </Button>
           <Button
             variant="outlined"
             startIcon={<GetApp />}
@@ -151,6 +211,11 @@ export const StatisticsPage: React.FC = () => {
         </Box>
       </Box>
 
+      {/* History */}
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+        <HistoryControls onAsOfChange={setAsOf} onError={setError} />
+      </Box>
+
       {/* Error Display */}
       {error && (
         <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
@@ -164,6 +229,7 @@ export const StatisticsPage: React.FC = () => {
         totalClicks={analytics.totalClicks}
         activeUrls={analytics.activeUrls}
         expiredUrls={analytics.expiredUrls}
+        neverExpiringUrls={analytics.neverExpiringUrls}
       />
 
       {/* Performance Insights */}
@@ -188,7 +254,7 @@ export const StatisticsPage: React.FC = () => {
               <Typography variant="h6" color="primary.main">
                 {urls.length > 0 ? 
                   `/${urls.reduce((prev, current) => 
-                    prev.clicks.length > current.clicks.length ? prev : current
+                    prev.clickCount > current.clickCount ? prev : current
                   ).shortcode}` : 'N/A'
                 }
               </Typography>
@@ -216,18 +282,65 @@ export const StatisticsPage: React.FC = () => {
         </Paper>
       )}
 
+      {/* A/B Splits */}
+      <SplitTestsPanel urls={visibleUrls} readOnly={asOf !== null} />
+
+      {/* Campaigns */}
+      <CampaignsPanel
+        urls={visibleUrls}
+        selected={campaign}
+        onSelect={(selected) => {
+          logger.logUserAction('filter_campaign', 'statistics', { campaign: selected });
+          setCampaign(selected);
+        }}
+      />
+
+      {/* Shortcode Settings */}
+      <ShortcodeSettingsPanel />
+
+      {/* Benchmark Mode */}
+      {benchmarkMode && <CacheBenchmarkPanel />}
+
       {/* URLs Table */}
       <Paper sx={{ overflow: 'hidden' }}>
         <Box sx={{ p: 3, borderBottom: '1px solid', borderColor: 'divider' }}>
-          <Typography variant="h6" fontWeight={600}>
-            All Short URLs ({urls.length})
-          </Typography>
-          <Typography variant="body2" color="text.secondary">
-            Detailed view of all your shortened URLs with click analytics
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+            <Typography variant="h6" fontWeight={600}>
+              {campaign ? `Short URLs (${tableUrls.length} of ${visibleUrls.length})` : `All Short URLs (${urls.length})`}
+            </Typography>
+            {campaign && (
+              <Chip label={`Campaign: ${campaign}`} size="small" onDelete={() => setCampaign(null)} />
+            )}
+          </Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              Detailed view of all your shortened URLs with click analytics
+            </Typography>
+            <TextField
+              select
+              size="small"
+              label="Keep raw clicks for"
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              sx={{ minWidth: 180 }}
+            >
+              {RETENTION_OPTIONS.map(days => (
+                <MenuItem key={days} value={days}>
+                  {days} day{days !== 1 ? 's' : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
         </Box>
-        <UrlTable urls={urls} />
+        {asOf && (
+          <Alert severity="info" sx={{ m: 2 }}>
+            Showing links as they were on {asOf.date.toLocaleString()}. Clear the date to return to the live view.
+          </Alert>
+        )}
+        <UrlTable urls={tableUrls} readOnly={asOf !== null} />
       </Paper>
+
+      <TrashDialog open={trashOpen} onClose={() => setTrashOpen(false)} />
     </Box>
   );
 };
\ No newline at end of file
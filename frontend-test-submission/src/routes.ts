@@ -0,0 +1,8 @@
+/**
+ * Paths served by the app itself; their first segments can never be used as
+ * shortcodes, since the router would match them before the redirect route
+ */
+export const APP_ROUTES = {
+  home: '/',
+  statistics: '/statistics',
+} as const;
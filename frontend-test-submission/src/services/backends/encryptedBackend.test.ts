@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptedBackend } from './encryptedBackend';
+import { LocalStorageBackend } from './localStorageBackend';
+import { PayloadCipher } from '../encryption';
+import { StorageCorruptionError } from '../integrity';
+import { makeUrl } from '../../test/fixtures';
+import { ShortUrl } from '../../types';
+
+/** Stands in for AES-GCM; the backend only cares that open undoes seal */
+const plainCipher = {
+  seal: async (value: unknown) => JSON.stringify(value),
+  open: async (sealed: string) => JSON.parse(sealed),
+} as unknown as PayloadCipher;
+
+describe('EncryptedBackend', () => {
+  it('round-trips links without exposing the destination', async () => {
+    const inner = new LocalStorageBackend();
+    const backend = new EncryptedBackend(inner, plainCipher);
+    const url = makeUrl({ shortcode: 'secret', originalUrl: 'https://example.com/private' });
+
+    await backend.putUrls([url]);
+
+    expect((await inner.getUrl('secret'))?.originalUrl).toBe('');
+    expect(await backend.getUrl('secret')).toEqual(url);
+  });
+
+  it('upgrades links sealed at an older schema', async () => {
+    const inner = new LocalStorageBackend();
+    const backend = new EncryptedBackend(inner, plainCipher);
+    const {
+      redirectRules: _rules,
+      splitVariants: _variants,
+      passthrough: _passthrough,
+      inactivityDays: _inactivity,
+      fallbackUrl: _fallback,
+      expiredMessage: _message,
+      ...atVersion8
+    } = makeUrl({ shortcode: 'old1', isPaused: true });
+    // Sealed before the version was recorded alongside the payload
+    const placeholder = { ...makeUrl({ shortcode: 'old1', originalUrl: '' }), sealed: JSON.stringify(atVersion8) };
+    await inner.putUrls([placeholder as ShortUrl]);
+
+    const url = await backend.getUrl('old1');
+    expect(url).toEqual(makeUrl({ shortcode: 'old1', isPaused: true }));
+  });
+});
+
+describe('EncryptedBackend.replaceAll', () => {
+  it('seals the new contents before swapping them in', async () => {
+    const inner = new LocalStorageBackend();
+    const backend = new EncryptedBackend(inner, plainCipher);
+    const url = makeUrl({ shortcode: 'secret', originalUrl: 'https://example.com/private' });
+
+    await backend.replaceAll({ urls: [url], clicks: [], rollups: [], events: [] }, 'salt');
+
+    expect((await inner.getUrl('secret'))?.originalUrl).toBe('');
+    expect(await backend.getUrl('secret')).toEqual(url);
+    expect(await backend.getKeyId()).toBe('salt');
+  });
+
+  it('leaves stored data alone when the sealed copy does not open', async () => {
+    const inner = new LocalStorageBackend();
+    await inner.putUrls([makeUrl({ shortcode: 'plain1' })]);
+    const brokenCipher = { ...plainCipher, seal: async () => 'garbage', open: async () => { throw new Error('bad'); } };
+    const backend = new EncryptedBackend(inner, brokenCipher as unknown as PayloadCipher);
+
+    await expect(
+      backend.replaceAll({ urls: [makeUrl({ shortcode: 'secret' })], clicks: [], rollups: [], events: [] }, 'salt')
+    ).rejects.toThrow(StorageCorruptionError);
+    expect((await inner.getAllUrls()).map(url => url.shortcode)).toEqual(['plain1']);
+  });
+});
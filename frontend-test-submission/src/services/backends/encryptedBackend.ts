@@ -0,0 +1,261 @@
+import {
+  ShortUrl,
+  ClickEvent,
+  ClickPage,
+  ClickRollup,
+  SnapshotContents,
+  StorageBackend,
+  StorageContents,
+  StorageEvent,
+  StorageSnapshot,
+} from '../../types';
+import { PayloadCipher } from '../encryption';
+import { StorageCorruptionError, checksumUrls } from '../integrity';
+import { CURRENT_SCHEMA_VERSION, PersistedRecord, migrateRecords } from '../migrations';
+import { reviveEvent, reviveUrl } from '../serialization';
+
+/**
+ * A stored record whose private fields were moved into `sealed`.
+ * Records written before encryption was enabled have no `sealed` field.
+ * `sealedVersion` is the schema version of the sealed URL; migrations only
+ * see the cleartext placeholder, so the sealed copy is upgraded on open.
+ */
+type Sealed<T> = T & { sealed?: string; sealedVersion?: number };
+
+/** Schema version of sealed URLs written before `sealedVersion` was recorded */
+const FIRST_SEALED_SCHEMA_VERSION = 2;
+
+/**
+ * Wraps another backend and encrypts records before they reach it.
+ * Only the fields backends key and index on stay readable: ids, shortcodes
+ * and timestamps. Destinations, referrers and user agents are sealed.
+ */
+export class EncryptedBackend implements StorageBackend {
+  public readonly name: string;
+
+  constructor(private readonly inner: StorageBackend, private readonly cipher: PayloadCipher) {
+    this.name = `${inner.name}+encrypted`;
+  }
+
+  public isAvailable(): Promise<boolean> {
+    return this.inner.isAvailable();
+  }
+
+  public async getAllUrls(): Promise<ShortUrl[]> {
+    return Promise.all((await this.inner.getAllUrls()).map(url => this.openUrl(url)));
+  }
+
+  public async getUrl(shortcode: string): Promise<ShortUrl | null> {
+    const url = await this.inner.getUrl(shortcode);
+    return url ? this.openUrl(url) : null;
+  }
+
+  public async putUrls(urls: ShortUrl[]): Promise<void> {
+    await this.inner.putUrls(await Promise.all(urls.map(url => this.sealUrl(url))));
+  }
+
+  public async appendClicks(clicks: ClickEvent[]): Promise<void> {
+    await this.inner.appendClicks(await Promise.all(clicks.map(click => this.sealClick(click))));
+  }
+
+  public async getClicks(shortcode: string, offset: number, limit: number): Promise<ClickPage> {
+    const page = await this.inner.getClicks(shortcode, offset, limit);
+    return { ...page, clicks: await Promise.all(page.clicks.map(click => this.openClick(click))) };
+  }
+
+  public async getAllClicks(): Promise<ClickEvent[]> {
+    return Promise.all((await this.inner.getAllClicks()).map(click => this.openClick(click)));
+  }
+
+  public async getClicksBefore(cutoff: Date): Promise<ClickEvent[]> {
+    return Promise.all((await this.inner.getClicksBefore(cutoff)).map(click => this.openClick(click)));
+  }
+
+  public async getRollups(shortcode: string): Promise<ClickRollup[]> {
+    return Promise.all((await this.inner.getRollups(shortcode)).map(rollup => this.openRollup(rollup)));
+  }
+
+  public async getAllRollups(): Promise<ClickRollup[]> {
+    return Promise.all((await this.inner.getAllRollups()).map(rollup => this.openRollup(rollup)));
+  }
+
+  public async compactClicks(rollups: ClickRollup[], removedClickIds: string[]): Promise<void> {
+    const sealed = await Promise.all(rollups.map(rollup => this.sealRollup(rollup)));
+    await this.inner.compactClicks(sealed, removedClickIds);
+  }
+
+  public deleteUrls(shortcodes: string[]): Promise<void> {
+    return this.inner.deleteUrls(shortcodes);
+  }
+
+  public clearUrls(): Promise<void> {
+    return this.inner.clearUrls();
+  }
+
+  public clear(): Promise<void> {
+    return this.inner.clear();
+  }
+
+  public listSnapshots(): Promise<StorageSnapshot[]> {
+    return this.inner.listSnapshots();
+  }
+
+  public async writeSnapshot(urls: ShortUrl[]): Promise<void> {
+    await this.inner.writeSnapshot(await Promise.all(urls.map(url => this.sealUrl(url))));
+  }
+
+  public async readSnapshot(id: string): Promise<SnapshotContents> {
+    // Embedded clicks predate encryption, so only the URLs are sealed
+    const { urls, clicks } = await this.inner.readSnapshot(id);
+    return { urls: await Promise.all(urls.map(url => this.openUrl(url))), clicks };
+  }
+
+  public clearSnapshots(): Promise<void> {
+    return this.inner.clearSnapshots();
+  }
+
+  public async appendEvents(events: StorageEvent[]): Promise<void> {
+    await this.inner.appendEvents(await Promise.all(events.map(event => this.sealEvent(event))));
+  }
+
+  public async compactEvents(added: StorageEvent[], removedIds: string[]): Promise<void> {
+    await this.inner.compactEvents(await Promise.all(added.map(event => this.sealEvent(event))), removedIds);
+  }
+
+  public async getEvents(): Promise<StorageEvent[]> {
+    return Promise.all((await this.inner.getEvents()).map(event => this.openEvent(event)));
+  }
+
+  public hasEvents(): Promise<boolean> {
+    return this.inner.hasEvents();
+  }
+
+  /**
+   * Seal everything first and check the links open again under this key,
+   * so nothing is replaced unless the new copy is readable
+   */
+  public async replaceAll(contents: StorageContents, keyId: string): Promise<void> {
+    const sealed: StorageContents = {
+      urls: await Promise.all(contents.urls.map(url => this.sealUrl(url))),
+      clicks: await Promise.all(contents.clicks.map(click => this.sealClick(click))),
+      rollups: await Promise.all(contents.rollups.map(rollup => this.sealRollup(rollup))),
+      events: await Promise.all(contents.events.map(event => this.sealEvent(event))),
+    };
+
+    const reopened = await Promise.all(sealed.urls.map(url => this.openUrl(url)));
+    if (checksumUrls(reopened) !== checksumUrls(contents.urls)) {
+      throw new StorageCorruptionError('Re-encrypted links do not match the originals', this.name);
+    }
+
+    await this.inner.replaceAll(sealed, keyId);
+  }
+
+  public getKeyId(): Promise<string | null> {
+    return this.inner.getKeyId();
+  }
+
+  /**
+   * Decrypt a sealed value; a record that fails authentication was altered
+   */
+  private async open<T>(sealed: string): Promise<T> {
+    try {
+      return await this.cipher.open<T>(sealed);
+    } catch {
+      throw new StorageCorruptionError('An encrypted record could not be decrypted', this.name);
+    }
+  }
+
+  private async sealUrl(url: ShortUrl): Promise<Sealed<ShortUrl>> {
+    return {
+      id: url.id,
+      shortcode: url.shortcode,
+      createdAt: url.createdAt,
+      expiresAt: url.expiresAt,
+      originalUrl: '',
+      validityMinutes: 0,
+      clickCount: 0,
+      isCustomShortcode: false,
+      workspaceId: '',
+      isPaused: false,
+      deletedAt: null,
+      password: null,
+      maxClicks: null,
+      activatesAt: null,
+      activeHours: null,
+      redirectRules: [],
+      splitVariants: [],
+      passthrough: null,
+      inactivityDays: null,
+      fallbackUrl: null,
+      expiredMessage: null,
+      sealed: await this.cipher.seal(url),
+      sealedVersion: CURRENT_SCHEMA_VERSION,
+    };
+  }
+
+  private async openUrl(stored: Sealed<ShortUrl>): Promise<ShortUrl> {
+    if (!stored.sealed) return stored;
+
+    const opened = await this.open<PersistedRecord>(stored.sealed);
+    const [migrated] = migrateRecords([opened], stored.sealedVersion ?? FIRST_SEALED_SCHEMA_VERSION);
+    return reviveUrl(migrated as unknown as ShortUrl);
+  }
+
+  private async sealClick(click: ClickEvent): Promise<Sealed<ClickEvent>> {
+    const { referrer, userAgent, ipAddress, geoLocation, matchedRuleId, variantId } = click;
+    return {
+      id: click.id,
+      shortcode: click.shortcode,
+      timestamp: click.timestamp,
+      referrer: '',
+      userAgent: '',
+      sealed: await this.cipher.seal({ referrer, userAgent, ipAddress, geoLocation, matchedRuleId, variantId }),
+    };
+  }
+
+  private async openClick(stored: Sealed<ClickEvent>): Promise<ClickEvent> {
+    if (!stored.sealed) return stored;
+
+    const { sealed, ...clear } = stored;
+    return { ...clear, ...(await this.open<Partial<ClickEvent>>(sealed)) };
+  }
+
+  private async sealRollup(rollup: ClickRollup): Promise<Sealed<ClickRollup>> {
+    const { byReferrer, byCountry, byUserAgent, byVariant } = rollup;
+    return {
+      ...rollup,
+      byReferrer: {},
+      byCountry: {},
+      byUserAgent: {},
+      byVariant: {},
+      sealed: await this.cipher.seal({ byReferrer, byCountry, byUserAgent, byVariant }),
+    };
+  }
+
+  private async openRollup(stored: Sealed<ClickRollup>): Promise<ClickRollup> {
+    if (!stored.sealed) return stored;
+
+    const { sealed, ...clear } = stored;
+    return { ...clear, ...(await this.open<Partial<ClickRollup>>(sealed)) };
+  }
+
+  private async sealEvent(event: StorageEvent): Promise<Sealed<StorageEvent>> {
+    const { urls, changes, replace, baseline, clickedAt, clickCount, targetId } = event;
+    return {
+      id: event.id,
+      type: event.type,
+      timestamp: event.timestamp,
+      deviceId: event.deviceId,
+      shortcodes: event.shortcodes,
+      schemaVersion: event.schemaVersion,
+      sealed: await this.cipher.seal({ urls, changes, replace, baseline, clickedAt, clickCount, targetId }),
+    };
+  }
+
+  private async openEvent(stored: Sealed<StorageEvent>): Promise<StorageEvent> {
+    if (!stored.sealed) return stored;
+
+    const { sealed, ...clear } = stored;
+    return reviveEvent({ ...clear, ...(await this.open<Partial<StorageEvent>>(sealed)) });
+  }
+}
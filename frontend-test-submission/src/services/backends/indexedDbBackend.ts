@@ -0,0 +1,451 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ShortUrl,
+  ClickEvent,
+  ClickPage,
+  ClickRollup,
+  SnapshotContents,
+  StorageBackend,
+  StorageContents,
+  StorageEvent,
+  StorageSnapshot,
+} from '../../types';
+import { logger } from '../../middleware/logger';
+import { CURRENT_SCHEMA_VERSION, PersistedRecord, SchemaVersionError, migratePayload } from '../migrations';
+import {
+  ChecksummedRecord,
+  MAX_SNAPSHOTS,
+  StorageCorruptionError,
+  assertValidClickRecords,
+  assertValidUrlRecords,
+  checksumUrls,
+  stripRecordChecksums,
+  withRecordChecksum,
+} from '../integrity';
+import { reviveClick, reviveUrl } from '../serialization';
+import { compareEvents } from '../eventLog';
+
+const DB_NAME = 'affordmed_url_shortener';
+const DB_VERSION = 7;
+/** First database version whose URL records carry their own checksum */
+const URL_CHECKSUMS_DB_VERSION = 7;
+const URLS_STORE = 'urls';
+const CLICKS_STORE = 'clicks';
+const ROLLUPS_STORE = 'click_rollups';
+const META_STORE = 'meta';
+const SNAPSHOTS_STORE = 'snapshots';
+const EVENTS_STORE = 'events';
+const SCHEMA_META_KEY = 'schema';
+const KEY_ID_META_KEY = 'key';
+const CLICKS_BY_TIME_INDEX = 'shortcode_timestamp';
+
+type SchemaMeta = { key: string; version: number };
+type KeyIdMeta = { key: string; keyId: string };
+/** `version` is missing on snapshots taken before click events moved out of URLs */
+type StoredSnapshot = StorageSnapshot & { version?: number; checksum: string; urls: PersistedRecord[] };
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionToPromise(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * IndexedDB backend - URLs, click events and click rollups live in separate
+ * object stores keyed by shortcode, so a write only touches the records that changed.
+ * There is no envelope to checksum, so every URL record carries the checksum
+ * of its own JSON form and is checked on read.
+ */
+export class IndexedDbBackend implements StorageBackend {
+  public readonly name = 'indexedDB';
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  public async isAvailable(): Promise<boolean> {
+    if (typeof indexedDB === 'undefined') return false;
+
+    try {
+      await this.openDatabase();
+      return true;
+    } catch (error) {
+      if (error instanceof SchemaVersionError || error instanceof StorageCorruptionError) {
+        throw error;
+      }
+      logger.warn('storage', 'IndexedDB is not available', { error: error.message });
+      return false;
+    }
+  }
+
+  public async getAllUrls(): Promise<ShortUrl[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(URLS_STORE, 'readonly');
+    const stored = await requestToPromise<ChecksummedRecord<ShortUrl>[]>(tx.objectStore(URLS_STORE).getAll());
+    const urls = stripRecordChecksums(stored, this.name);
+    assertValidUrlRecords(urls, this.name);
+
+    logger.info('storage', 'URLs loaded from IndexedDB', { count: urls.length });
+    return urls;
+  }
+
+  public async getUrl(shortcode: string): Promise<ShortUrl | null> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(URLS_STORE, 'readonly');
+    const stored = await requestToPromise<ChecksummedRecord<ShortUrl> | undefined>(tx.objectStore(URLS_STORE).get(shortcode));
+
+    if (!stored) return null;
+    const [url] = stripRecordChecksums([stored], this.name);
+    assertValidUrlRecords([url], this.name);
+    return url;
+  }
+
+  public async putUrls(urls: ShortUrl[]): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(URLS_STORE, 'readwrite');
+    const urlStore = tx.objectStore(URLS_STORE);
+    urls.forEach(url => urlStore.put(withRecordChecksum(url)));
+
+    await transactionToPromise(tx);
+    logger.info('storage', 'URLs saved to IndexedDB', { count: urls.length });
+  }
+
+  public async appendClicks(clicks: ClickEvent[]): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(CLICKS_STORE, 'readwrite');
+    const clickStore = tx.objectStore(CLICKS_STORE);
+    clicks.forEach(click => clickStore.put(click));
+    await transactionToPromise(tx);
+  }
+
+  public async getClicks(shortcode: string, offset: number, limit: number): Promise<ClickPage> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(CLICKS_STORE, 'readonly');
+    const store = tx.objectStore(CLICKS_STORE);
+
+    const total = await requestToPromise(store.index('shortcode').count(shortcode));
+    const range = IDBKeyRange.bound([shortcode, new Date(0)], [shortcode, new Date(8.64e15)]);
+    const request = store.index(CLICKS_BY_TIME_INDEX).openCursor(range, 'prev');
+
+    const clicks = await new Promise<ClickEvent[]>((resolve, reject) => {
+      const page: ClickEvent[] = [];
+      let skipped = offset === 0;
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(page);
+          return;
+        }
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        page.push(cursor.value);
+        if (page.length >= limit) {
+          resolve(page);
+          return;
+        }
+        cursor.continue();
+      };
+    });
+
+    return { clicks, total, hasMore: offset + clicks.length < total };
+  }
+
+  public async getAllClicks(): Promise<ClickEvent[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(CLICKS_STORE, 'readonly');
+    return requestToPromise<ClickEvent[]>(tx.objectStore(CLICKS_STORE).getAll());
+  }
+
+  public async getClicksBefore(cutoff: Date): Promise<ClickEvent[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(CLICKS_STORE, 'readonly');
+    const range = IDBKeyRange.upperBound(cutoff, true);
+    return requestToPromise<ClickEvent[]>(tx.objectStore(CLICKS_STORE).index('timestamp').getAll(range));
+  }
+
+  public async getRollups(shortcode: string): Promise<ClickRollup[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(ROLLUPS_STORE, 'readonly');
+    return requestToPromise<ClickRollup[]>(tx.objectStore(ROLLUPS_STORE).index('shortcode').getAll(shortcode));
+  }
+
+  public async getAllRollups(): Promise<ClickRollup[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(ROLLUPS_STORE, 'readonly');
+    return requestToPromise<ClickRollup[]>(tx.objectStore(ROLLUPS_STORE).getAll());
+  }
+
+  public async compactClicks(rollups: ClickRollup[], removedClickIds: string[]): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction([ROLLUPS_STORE, CLICKS_STORE], 'readwrite');
+    const rollupStore = tx.objectStore(ROLLUPS_STORE);
+    const clickStore = tx.objectStore(CLICKS_STORE);
+    rollups.forEach(rollup => rollupStore.put(rollup));
+    removedClickIds.forEach(id => clickStore.delete(id));
+    await transactionToPromise(tx);
+  }
+
+  public async deleteUrls(shortcodes: string[]): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction([URLS_STORE, CLICKS_STORE, ROLLUPS_STORE], 'readwrite');
+    const urlStore = tx.objectStore(URLS_STORE);
+    shortcodes.forEach(shortcode => {
+      urlStore.delete(shortcode);
+      [CLICKS_STORE, ROLLUPS_STORE].forEach(storeName => {
+        const store = tx.objectStore(storeName);
+        const request = store.index('shortcode').getAllKeys(shortcode);
+        request.onsuccess = () => request.result.forEach(key => store.delete(key));
+      });
+    });
+    await transactionToPromise(tx);
+  }
+
+  public async clearUrls(): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(URLS_STORE, 'readwrite');
+    tx.objectStore(URLS_STORE).clear();
+    await transactionToPromise(tx);
+  }
+
+  public async clear(): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction([URLS_STORE, CLICKS_STORE, ROLLUPS_STORE, EVENTS_STORE], 'readwrite');
+    tx.objectStore(URLS_STORE).clear();
+    tx.objectStore(CLICKS_STORE).clear();
+    tx.objectStore(ROLLUPS_STORE).clear();
+    tx.objectStore(EVENTS_STORE).clear();
+    await transactionToPromise(tx);
+  }
+
+  public async listSnapshots(): Promise<StorageSnapshot[]> {
+    const snapshots = await this.readSnapshots();
+    return snapshots.map(({ id, createdAt, urlCount }) => ({ id, createdAt, urlCount }));
+  }
+
+  public async writeSnapshot(urls: ShortUrl[]): Promise<void> {
+    const stale = (await this.readSnapshots()).slice(MAX_SNAPSHOTS - 1);
+
+    const db = await this.openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOTS_STORE);
+    store.put({
+      id: uuidv4(),
+      version: CURRENT_SCHEMA_VERSION,
+      createdAt: new Date(),
+      urlCount: urls.length,
+      checksum: checksumUrls(urls),
+      urls,
+    });
+    stale.forEach(snapshot => store.delete(snapshot.id));
+    await transactionToPromise(tx);
+  }
+
+  public async readSnapshot(id: string): Promise<SnapshotContents> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+    const snapshot = await requestToPromise<StoredSnapshot | undefined>(tx.objectStore(SNAPSHOTS_STORE).get(id));
+
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+
+    if (checksumUrls(snapshot.urls) !== snapshot.checksum) {
+      throw new StorageCorruptionError('Snapshot does not match its checksum', 'snapshot');
+    }
+
+    const migrated = migratePayload({ version: snapshot.version || 1, urls: snapshot.urls });
+    const urls: unknown[] = migrated.urls;
+    assertValidUrlRecords(urls, 'snapshot');
+    // Legacy snapshots still embed their click events
+    const clicks: unknown[] = migrated.clicks || [];
+    assertValidClickRecords(clicks, 'snapshot');
+    return { urls: urls.map(url => reviveUrl(url)), clicks: clicks.map(click => reviveClick(click)) };
+  }
+
+  public async clearSnapshots(): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    tx.objectStore(SNAPSHOTS_STORE).clear();
+    await transactionToPromise(tx);
+  }
+
+  public async appendEvents(events: StorageEvent[]): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const eventStore = tx.objectStore(EVENTS_STORE);
+    events.forEach(event => eventStore.put(event));
+    await transactionToPromise(tx);
+  }
+
+  public async compactEvents(added: StorageEvent[], removedIds: string[]): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const eventStore = tx.objectStore(EVENTS_STORE);
+    added.forEach(event => eventStore.put(event));
+    removedIds.forEach(id => eventStore.delete(id));
+    await transactionToPromise(tx);
+  }
+
+  public async getEvents(): Promise<StorageEvent[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const events = await requestToPromise<StorageEvent[]>(tx.objectStore(EVENTS_STORE).getAll());
+    return events.sort(compareEvents);
+  }
+
+  public async hasEvents(): Promise<boolean> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    return (await requestToPromise(tx.objectStore(EVENTS_STORE).count())) > 0;
+  }
+
+  public async replaceAll(contents: StorageContents, keyId: string): Promise<void> {
+    const db = await this.openDatabase();
+    const tx = db.transaction([URLS_STORE, CLICKS_STORE, ROLLUPS_STORE, EVENTS_STORE, META_STORE], 'readwrite');
+    const replace = (storeName: string, records: object[]) => {
+      const store = tx.objectStore(storeName);
+      store.clear();
+      records.forEach(record => store.put(record));
+    };
+    replace(URLS_STORE, contents.urls.map(url => withRecordChecksum(url)));
+    replace(CLICKS_STORE, contents.clicks);
+    replace(ROLLUPS_STORE, contents.rollups);
+    replace(EVENTS_STORE, contents.events);
+    tx.objectStore(META_STORE).put({ key: KEY_ID_META_KEY, keyId });
+
+    await transactionToPromise(tx);
+    logger.info('storage', 'IndexedDB contents replaced', { count: contents.urls.length });
+  }
+
+  public async getKeyId(): Promise<string | null> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(META_STORE, 'readonly');
+    const meta = await requestToPromise<KeyIdMeta | undefined>(tx.objectStore(META_STORE).get(KEY_ID_META_KEY));
+    return meta ? meta.keyId : null;
+  }
+
+  /**
+   * All snapshots, newest first
+   */
+  private async readSnapshots(): Promise<StoredSnapshot[]> {
+    const db = await this.openDatabase();
+    const tx = db.transaction(SNAPSHOTS_STORE, 'readonly');
+    const snapshots = await requestToPromise<StoredSnapshot[]>(
+      tx.objectStore(SNAPSHOTS_STORE).index('createdAt').getAll()
+    );
+    return snapshots.reverse();
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = event => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(URLS_STORE)) {
+            db.createObjectStore(URLS_STORE, { keyPath: 'shortcode' });
+          }
+          if (!db.objectStoreNames.contains(CLICKS_STORE)) {
+            const clickStore = db.createObjectStore(CLICKS_STORE, { keyPath: 'id' });
+            clickStore.createIndex('shortcode', 'shortcode', { unique: false });
+          }
+          const clickStore = request.transaction!.objectStore(CLICKS_STORE);
+          if (!clickStore.indexNames.contains(CLICKS_BY_TIME_INDEX)) {
+            clickStore.createIndex(CLICKS_BY_TIME_INDEX, ['shortcode', 'timestamp'], { unique: false });
+          }
+          if (!clickStore.indexNames.contains('timestamp')) {
+            clickStore.createIndex('timestamp', 'timestamp', { unique: false });
+          }
+          if (!db.objectStoreNames.contains(ROLLUPS_STORE)) {
+            db.createObjectStore(ROLLUPS_STORE, { keyPath: 'id' }).createIndex('shortcode', 'shortcode');
+          }
+          if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+            db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+          }
+          if (!db.objectStoreNames.contains(META_STORE)) {
+            db.createObjectStore(META_STORE, { keyPath: 'key' });
+          }
+          if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+            db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+          }
+          if (event.oldVersion > 0 && event.oldVersion < URL_CHECKSUMS_DB_VERSION) {
+            this.stampUrlChecksums(request.transaction!.objectStore(URLS_STORE));
+          }
+          logger.info('storage', 'IndexedDB schema upgraded', { version: DB_VERSION });
+        };
+
+        request.onsuccess = () => {
+          const db = request.result;
+          this.upgradeSchema(db).then(() => resolve(db), reject);
+        };
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+      });
+
+      // Allow a retry after a failed open
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Bring stored URL and click records up to CURRENT_SCHEMA_VERSION.
+   * Throws SchemaVersionError when the data comes from a newer app version.
+   */
+  private async upgradeSchema(db: IDBDatabase): Promise<void> {
+    const metaTx = db.transaction(META_STORE, 'readonly');
+    const meta = await requestToPromise<SchemaMeta | undefined>(metaTx.objectStore(META_STORE).get(SCHEMA_META_KEY));
+
+    const storedVersion = meta ? meta.version : 0;
+    if (storedVersion === CURRENT_SCHEMA_VERSION) return;
+
+    const readTx = db.transaction([URLS_STORE, CLICKS_STORE], 'readonly');
+    const [storedUrls, storedClicks] = await Promise.all([
+      requestToPromise<ChecksummedRecord<PersistedRecord>[]>(readTx.objectStore(URLS_STORE).getAll()),
+      requestToPromise<PersistedRecord[]>(readTx.objectStore(CLICKS_STORE).getAll()),
+    ]);
+
+    const envelope = migratePayload({
+      version: storedVersion,
+      urls: stripRecordChecksums(storedUrls, this.name),
+      clicks: storedClicks,
+    });
+
+    const writeTx = db.transaction([META_STORE, URLS_STORE, CLICKS_STORE], 'readwrite');
+    const urlStore = writeTx.objectStore(URLS_STORE);
+    const clickStore = writeTx.objectStore(CLICKS_STORE);
+    envelope.urls.forEach(url => urlStore.put(withRecordChecksum(url)));
+    (envelope.clicks || []).forEach(click => clickStore.put(click));
+    writeTx.objectStore(META_STORE).put({ key: SCHEMA_META_KEY, version: envelope.version });
+    await transactionToPromise(writeTx);
+  }
+
+  /**
+   * Give records written before URL checksums existed their checksum, inside
+   * the version upgrade so no record is ever read without one
+   */
+  private stampUrlChecksums(urlStore: IDBObjectStore): void {
+    const request = urlStore.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      cursor.update(withRecordChecksum(cursor.value));
+      cursor.continue();
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EVENTS_KEY, LocalStorageBackend, URLS_KEY } from './localStorageBackend';
+import { makeEvent, makeUrl } from '../../test/fixtures';
+import { ClickEvent } from '../../types';
+
+const click: ClickEvent = {
+  id: 'c1',
+  shortcode: 'new1',
+  timestamp: new Date('2024-01-01T01:00:00Z'),
+  referrer: 'https://ref.example/',
+  userAgent: 'test',
+};
+
+/** An unversioned payload, from before clicks had their own keys */
+const legacyPayload = JSON.stringify([
+  {
+    id: 'u1',
+    originalUrl: 'https://example.com/',
+    shortcode: 'abc123',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    expiresAt: '2024-01-01T00:30:00.000Z',
+    clicks: [{ id: 'c1', timestamp: '2024-01-01T00:05:00.000Z', referrer: '', userAgent: '' }],
+  },
+]);
+
+describe('LocalStorageBackend.replaceAll', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('swaps in the new contents and records the key', async () => {
+    const backend = new LocalStorageBackend();
+    await backend.putUrls([makeUrl({ shortcode: 'old1' })]);
+    await backend.appendClicks([{ ...click, id: 'c0', shortcode: 'old1' }]);
+
+    const created = makeEvent('created', '2024-01-01T00:00:00Z', { shortcodes: ['new1'], urls: [makeUrl({ shortcode: 'new1' })] });
+    await backend.replaceAll({ urls: [makeUrl({ shortcode: 'new1' })], clicks: [click], rollups: [], events: [created] }, 'salt');
+
+    expect((await backend.getAllUrls()).map(url => url.shortcode)).toEqual(['new1']);
+    expect(await backend.getAllClicks()).toEqual([click]);
+    expect((await backend.getEvents()).map(event => event.id)).toEqual([created.id]);
+    expect(await backend.getKeyId()).toBe('salt');
+  });
+
+  it('puts every key back when a write fails part-way', async () => {
+    const backend = new LocalStorageBackend();
+    await backend.putUrls([makeUrl({ shortcode: 'old1' })]);
+    await backend.appendClicks([{ ...click, id: 'c0', shortcode: 'old1' }]);
+
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+      if (key === EVENTS_KEY) throw new Error('QuotaExceededError');
+      setItem.call(this, key, value);
+    });
+
+    await expect(
+      backend.replaceAll({ urls: [makeUrl({ shortcode: 'new1' })], clicks: [click], rollups: [], events: [] }, 'salt')
+    ).rejects.toThrow('Failed to save data to storage');
+    vi.restoreAllMocks();
+
+    expect((await backend.getAllUrls()).map(url => url.shortcode)).toEqual(['old1']);
+    expect((await backend.getAllClicks()).map(stored => stored.id)).toEqual(['c0']);
+    expect(await backend.getKeyId()).toBeNull();
+  });
+});
+
+describe('LocalStorageBackend.upgradeSchema', () => {
+  it('leaves a legacy payload untouched while reading it', async () => {
+    localStorage.setItem(URLS_KEY, legacyPayload);
+    const backend = new LocalStorageBackend();
+
+    expect((await backend.getAllUrls()).map(url => url.shortcode)).toEqual(['abc123']);
+    expect(localStorage.getItem(URLS_KEY)).toBe(legacyPayload);
+    expect(await backend.getAllClicks()).toEqual([]);
+  });
+
+  it('persists the upgrade and the split-out clicks', async () => {
+    localStorage.setItem(URLS_KEY, legacyPayload);
+    const backend = new LocalStorageBackend();
+
+    await backend.upgradeSchema();
+
+    expect(JSON.parse(localStorage.getItem(URLS_KEY)!).version).toBeGreaterThan(0);
+    expect((await backend.getAllClicks()).map(stored => stored.id)).toEqual(['c1']);
+    expect((await backend.getAllUrls())[0].clickCount).toBe(1);
+  });
+});
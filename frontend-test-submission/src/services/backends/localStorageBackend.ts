@@ -0,0 +1,474 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ShortUrl,
+  ClickEvent,
+  ClickPage,
+  ClickRollup,
+  SnapshotContents,
+  StorageBackend,
+  StorageContents,
+  StorageEvent,
+  StorageSnapshot,
+} from '../../types';
+import { logger } from '../../middleware/logger';
+import {
+  CURRENT_SCHEMA_VERSION,
+  PersistedRecord,
+  UrlPayloadEnvelope,
+  migratePayload,
+  toEnvelope,
+} from '../migrations';
+import { MAX_SNAPSHOTS, StorageCorruptionError, assertValidUrlRecords, checksumUrls } from '../integrity';
+import { reviveClick, reviveEvent, reviveUrl } from '../serialization';
+import { compareEvents } from '../eventLog';
+
+export const URLS_KEY = 'affordmed_short_urls';
+export const CLICKS_KEY = 'affordmed_clicks';
+const CLICKS_KEY_PREFIX = `${CLICKS_KEY}:`;
+const ROLLUPS_KEY_PREFIX = 'affordmed_click_rollups:';
+export const SNAPSHOTS_KEY = 'affordmed_snapshots';
+export const EVENTS_KEY = 'affordmed_events';
+const KEY_ID_KEY = 'affordmed_key_id';
+
+interface StoredSnapshot {
+  id: string;
+  /** Missing on snapshots taken before click events moved out of URLs */
+  version?: number;
+  createdAt: string;
+  urlCount: number;
+  checksum: string;
+  urls: PersistedRecord[];
+}
+
+function deserializeUrl(record: PersistedRecord): ShortUrl {
+  return reviveUrl(record as unknown as ShortUrl);
+}
+
+function deserializeClick(record: PersistedRecord): ClickEvent {
+  return reviveClick(record as unknown as ClickEvent);
+}
+
+function deserializeRollup(record: PersistedRecord): ClickRollup {
+  const rollup = record as unknown as ClickRollup;
+  return { ...rollup, bucketStart: new Date(rollup.bucketStart) };
+}
+
+/**
+ * localStorage backend - keeps every URL in a single versioned envelope,
+ * and each link's click events in its own append-only key
+ * Used as the fallback when IndexedDB is not available
+ */
+export class LocalStorageBackend implements StorageBackend {
+  public readonly name = 'localStorage';
+
+  public async isAvailable(): Promise<boolean> {
+    try {
+      const probe = '__affordmed_probe__';
+      localStorage.setItem(probe, probe);
+      localStorage.removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether any URL or click data has been written under the legacy keys
+   */
+  public hasData(): boolean {
+    return (
+      localStorage.getItem(URLS_KEY) !== null ||
+      localStorage.getItem(EVENTS_KEY) !== null ||
+      this.keysWithPrefix(CLICKS_KEY_PREFIX).length > 0 ||
+      this.keysWithPrefix(ROLLUPS_KEY_PREFIX).length > 0
+    );
+  }
+
+  public async getAllUrls(): Promise<ShortUrl[]> {
+    return this.readUrls();
+  }
+
+  public async getUrl(shortcode: string): Promise<ShortUrl | null> {
+    return this.readUrls().find(url => url.shortcode === shortcode) || null;
+  }
+
+  public async putUrls(newUrls: ShortUrl[]): Promise<void> {
+    const byShortcode = new Map(this.readUrls().map(url => [url.shortcode, url]));
+    newUrls.forEach(url => byShortcode.set(url.shortcode, url));
+    this.writeUrls(Array.from(byShortcode.values()));
+  }
+
+  public async appendClicks(clicks: ClickEvent[]): Promise<void> {
+    this.writeClicks(JSON.parse(JSON.stringify(clicks)));
+  }
+
+  public async getClicks(shortcode: string, offset: number, limit: number): Promise<ClickPage> {
+    const clicks = this.readClicks(CLICKS_KEY_PREFIX + shortcode).reverse();
+    return {
+      clicks: clicks.slice(offset, offset + limit),
+      total: clicks.length,
+      hasMore: offset + limit < clicks.length,
+    };
+  }
+
+  public async getAllClicks(): Promise<ClickEvent[]> {
+    return this.keysWithPrefix(CLICKS_KEY_PREFIX).flatMap(key => this.readClicks(key));
+  }
+
+  public async getClicksBefore(cutoff: Date): Promise<ClickEvent[]> {
+    const clicks = await this.getAllClicks();
+    return clicks.filter(click => click.timestamp < cutoff);
+  }
+
+  public async getRollups(shortcode: string): Promise<ClickRollup[]> {
+    return this.readRollups(ROLLUPS_KEY_PREFIX + shortcode);
+  }
+
+  public async getAllRollups(): Promise<ClickRollup[]> {
+    return this.keysWithPrefix(ROLLUPS_KEY_PREFIX).flatMap(key => this.readRollups(key));
+  }
+
+  public async compactClicks(rollups: ClickRollup[], removedClickIds: string[]): Promise<void> {
+    const byShortcode = new Map<string, ClickRollup[]>();
+    rollups.forEach(rollup => {
+      byShortcode.set(rollup.shortcode, [...(byShortcode.get(rollup.shortcode) || []), rollup]);
+    });
+
+    try {
+      // Rollups first: if the click rewrite fails, clicks are counted twice rather than lost
+      byShortcode.forEach((updated, shortcode) => {
+        const key = ROLLUPS_KEY_PREFIX + shortcode;
+        const merged = new Map(this.readRollups(key).map(rollup => [rollup.id, rollup]));
+        updated.forEach(rollup => merged.set(rollup.id, rollup));
+        localStorage.setItem(key, JSON.stringify(Array.from(merged.values())));
+      });
+
+      const removed = new Set(removedClickIds);
+      this.keysWithPrefix(CLICKS_KEY_PREFIX).forEach(key => {
+        const clicks: PersistedRecord[] = JSON.parse(localStorage.getItem(key) || '[]');
+        const kept = clicks.filter(click => !removed.has(String(click.id)));
+        if (kept.length === 0) {
+          localStorage.removeItem(key);
+        } else if (kept.length !== clicks.length) {
+          localStorage.setItem(key, JSON.stringify(kept));
+        }
+      });
+    } catch (error) {
+      logger.error('storage', 'Failed to compact clicks in localStorage', { error: error.message });
+      throw new Error('Failed to save data to storage');
+    }
+  }
+
+  public async deleteUrls(shortcodes: string[]): Promise<void> {
+    const removed = new Set(shortcodes);
+    this.writeUrls(this.readUrls().filter(url => !removed.has(url.shortcode)));
+    shortcodes.forEach(shortcode => {
+      localStorage.removeItem(CLICKS_KEY_PREFIX + shortcode);
+      localStorage.removeItem(ROLLUPS_KEY_PREFIX + shortcode);
+    });
+  }
+
+  public async clearUrls(): Promise<void> {
+    localStorage.removeItem(URLS_KEY);
+  }
+
+  public async clear(): Promise<void> {
+    localStorage.removeItem(URLS_KEY);
+    localStorage.removeItem(CLICKS_KEY);
+    localStorage.removeItem(EVENTS_KEY);
+    [...this.keysWithPrefix(CLICKS_KEY_PREFIX), ...this.keysWithPrefix(ROLLUPS_KEY_PREFIX)]
+      .forEach(key => localStorage.removeItem(key));
+  }
+
+  public async listSnapshots(): Promise<StorageSnapshot[]> {
+    return this.readSnapshots().map(({ id, createdAt, urlCount }) => ({
+      id,
+      createdAt: new Date(createdAt),
+      urlCount,
+    }));
+  }
+
+  public async writeSnapshot(urls: ShortUrl[]): Promise<void> {
+    const serializedUrls: PersistedRecord[] = JSON.parse(JSON.stringify(urls));
+    const snapshot: StoredSnapshot = {
+      id: uuidv4(),
+      version: CURRENT_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      urlCount: urls.length,
+      checksum: checksumUrls(serializedUrls),
+      urls: serializedUrls,
+    };
+
+    let snapshots = [snapshot, ...this.readSnapshots()].slice(0, MAX_SNAPSHOTS);
+
+    // Drop the oldest snapshots until the set fits in the remaining quota
+    while (snapshots.length > 0) {
+      try {
+        localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
+        return;
+      } catch {
+        snapshots = snapshots.slice(0, -1);
+      }
+    }
+
+    logger.warn('storage', 'Not enough localStorage quota left for a snapshot', { count: urls.length });
+  }
+
+  public async readSnapshot(id: string): Promise<SnapshotContents> {
+    const snapshot = this.readSnapshots().find(s => s.id === id);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+
+    if (checksumUrls(snapshot.urls) !== snapshot.checksum) {
+      throw new StorageCorruptionError('Snapshot does not match its checksum', 'snapshot');
+    }
+
+    const migrated = migratePayload({ version: snapshot.version || 1, urls: snapshot.urls });
+    // Legacy snapshots still embed their click events
+    return { urls: migrated.urls.map(deserializeUrl), clicks: (migrated.clicks || []).map(deserializeClick) };
+  }
+
+  public async clearSnapshots(): Promise<void> {
+    localStorage.removeItem(SNAPSHOTS_KEY);
+  }
+
+  public async appendEvents(events: StorageEvent[]): Promise<void> {
+    const stored: PersistedRecord[] = JSON.parse(localStorage.getItem(EVENTS_KEY) || '[]');
+    const knownIds = new Set(stored.map(event => event.id));
+    const appended = [...stored, ...JSON.parse(JSON.stringify(events.filter(event => !knownIds.has(event.id))))];
+
+    try {
+      localStorage.setItem(EVENTS_KEY, JSON.stringify(appended));
+    } catch (error) {
+      logger.error('storage', 'Failed to save events to localStorage', { error: error.message });
+      throw new Error('Failed to save data to storage');
+    }
+  }
+
+  public async compactEvents(added: StorageEvent[], removedIds: string[]): Promise<void> {
+    const removed = new Set(removedIds);
+    const addedIds = new Set(added.map(event => event.id));
+    const stored: PersistedRecord[] = JSON.parse(localStorage.getItem(EVENTS_KEY) || '[]');
+    const compacted = [
+      ...stored.filter(event => !removed.has(event.id as string) && !addedIds.has(event.id as string)),
+      ...JSON.parse(JSON.stringify(added)),
+    ];
+
+    try {
+      localStorage.setItem(EVENTS_KEY, JSON.stringify(compacted));
+    } catch (error) {
+      logger.error('storage', 'Failed to save events to localStorage', { error: error.message });
+      throw new Error('Failed to save data to storage');
+    }
+  }
+
+  public async getEvents(): Promise<StorageEvent[]> {
+    try {
+      const stored = localStorage.getItem(EVENTS_KEY);
+      const events = stored ? (JSON.parse(stored) as StorageEvent[]).map(reviveEvent) : [];
+      return events.sort(compareEvents);
+    } catch (error) {
+      logger.error('storage', 'Failed to read events from localStorage', { error: error.message });
+      throw new StorageCorruptionError('Stored history could not be read', this.name);
+    }
+  }
+
+  public async hasEvents(): Promise<boolean> {
+    return localStorage.getItem(EVENTS_KEY) !== null;
+  }
+
+  public async replaceAll(contents: StorageContents, keyId: string): Promise<void> {
+    // Serialize every key up front, so a failed write can put them all back
+    const next = new Map<string, string | null>();
+    [URLS_KEY, CLICKS_KEY, EVENTS_KEY, ...this.keysWithPrefix(CLICKS_KEY_PREFIX), ...this.keysWithPrefix(ROLLUPS_KEY_PREFIX)]
+      .forEach(key => next.set(key, null));
+
+    const serializedUrls: PersistedRecord[] = JSON.parse(JSON.stringify(contents.urls));
+    next.set(URLS_KEY, JSON.stringify({
+      version: CURRENT_SCHEMA_VERSION,
+      checksum: checksumUrls(serializedUrls),
+      urls: serializedUrls,
+    }));
+    const byKey = new Map<string, unknown[]>();
+    contents.clicks.forEach(click => {
+      const key = CLICKS_KEY_PREFIX + click.shortcode;
+      byKey.set(key, [...(byKey.get(key) || []), click]);
+    });
+    contents.rollups.forEach(rollup => {
+      const key = ROLLUPS_KEY_PREFIX + rollup.shortcode;
+      byKey.set(key, [...(byKey.get(key) || []), rollup]);
+    });
+    byKey.forEach((records, key) => next.set(key, JSON.stringify(records)));
+    next.set(EVENTS_KEY, JSON.stringify(contents.events));
+    next.set(KEY_ID_KEY, keyId);
+
+    const previous = new Map(Array.from(next.keys()).map(key => [key, localStorage.getItem(key)]));
+    try {
+      this.writeKeys(next);
+    } catch (error) {
+      this.writeKeys(previous);
+      logger.error('storage', 'Failed to replace localStorage contents', { error: error.message });
+      throw new Error('Failed to save data to storage');
+    }
+    logger.info('storage', 'localStorage contents replaced', { count: contents.urls.length });
+  }
+
+  public async getKeyId(): Promise<string | null> {
+    return localStorage.getItem(KEY_ID_KEY);
+  }
+
+  /**
+   * Set or remove (null) each key; removals go first to free quota
+   */
+  private writeKeys(values: Map<string, string | null>): void {
+    values.forEach((value, key) => {
+      if (value === null) localStorage.removeItem(key);
+    });
+    values.forEach((value, key) => {
+      if (value !== null) localStorage.setItem(key, value);
+    });
+  }
+
+  private keysWithPrefix(prefix: string): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private readClicks(key: string): ClickEvent[] {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? (JSON.parse(stored) as PersistedRecord[]).map(deserializeClick) : [];
+    } catch (error) {
+      logger.error('storage', 'Failed to read clicks from localStorage', { key, error: error.message });
+      return [];
+    }
+  }
+
+  private readRollups(key: string): ClickRollup[] {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? (JSON.parse(stored) as PersistedRecord[]).map(deserializeRollup) : [];
+    } catch (error) {
+      logger.error('storage', 'Failed to read click rollups from localStorage', { key, error: error.message });
+      return [];
+    }
+  }
+
+  /**
+   * Append serialized clicks to their shortcode's key, skipping known ids
+   */
+  private writeClicks(clicks: PersistedRecord[]): void {
+    const byShortcode = new Map<string, PersistedRecord[]>();
+    clicks.forEach(click => {
+      const shortcode = String(click.shortcode);
+      byShortcode.set(shortcode, [...(byShortcode.get(shortcode) || []), click]);
+    });
+
+    byShortcode.forEach((newClicks, shortcode) => {
+      const key = CLICKS_KEY_PREFIX + shortcode;
+      const stored: PersistedRecord[] = JSON.parse(localStorage.getItem(key) || '[]');
+      const knownIds = new Set(stored.map(click => click.id));
+      const appended = [...stored, ...newClicks.filter(click => !knownIds.has(click.id))];
+
+      try {
+        localStorage.setItem(key, JSON.stringify(appended));
+      } catch (error) {
+        logger.error('storage', 'Failed to save clicks to localStorage', { shortcode, error: error.message });
+        throw new Error('Failed to save data to storage');
+      }
+    });
+  }
+
+  private readSnapshots(): StoredSnapshot[] {
+    try {
+      const stored = localStorage.getItem(SNAPSHOTS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      logger.error('storage', 'Failed to read snapshots from localStorage', { error: error.message });
+      return [];
+    }
+  }
+
+  private writeUrls(urls: ShortUrl[]): void {
+    try {
+      const serializedUrls: PersistedRecord[] = JSON.parse(JSON.stringify(urls));
+      const envelope = {
+        version: CURRENT_SCHEMA_VERSION,
+        checksum: checksumUrls(serializedUrls),
+        urls: serializedUrls,
+      };
+
+      localStorage.setItem(URLS_KEY, JSON.stringify(envelope));
+      logger.info('storage', 'URLs saved to localStorage', { count: urls.length });
+    } catch (error) {
+      logger.error('storage', 'Failed to save URLs to localStorage', { error: error.message });
+      throw new Error('Failed to save data to storage');
+    }
+  }
+
+  /**
+   * Persist the stored envelope at CURRENT_SCHEMA_VERSION. Reads migrate in
+   * memory only, so this runs once under the write lock before any write.
+   */
+  public async upgradeSchema(): Promise<void> {
+    const stored = localStorage.getItem(URLS_KEY);
+    if (!stored) return;
+
+    const { version, migrated } = this.readEnvelope(stored);
+    if (migrated.version === version) return;
+
+    // Split-out clicks first, so a failure leaves the old payload intact
+    this.writeClicks(migrated.clicks || []);
+    this.writeUrls(migrated.urls.map(deserializeUrl));
+    logger.info('storage', 'Upgraded localStorage schema', { from: version, to: migrated.version });
+  }
+
+  /**
+   * Read and validate the stored envelope, migrating it in memory.
+   * Throws StorageCorruptionError instead of returning an empty list, so a
+   * damaged payload is never silently overwritten by the next save.
+   */
+  private readUrls(): ShortUrl[] {
+    const stored = localStorage.getItem(URLS_KEY);
+    if (!stored) {
+      return [];
+    }
+
+    const { migrated } = this.readEnvelope(stored);
+    const urls = migrated.urls.map(deserializeUrl);
+    logger.info('storage', 'URLs loaded from localStorage', {
+      count: urls.length,
+      schemaVersion: migrated.version,
+    });
+    return urls;
+  }
+
+  private readEnvelope(stored: string): { version: number; migrated: UrlPayloadEnvelope } {
+    let envelope: UrlPayloadEnvelope;
+    try {
+      envelope = toEnvelope(JSON.parse(stored));
+    } catch (error) {
+      logger.error('storage', 'Stored URL payload could not be parsed', { error: error.message });
+      throw new StorageCorruptionError('Stored links could not be read', this.name);
+    }
+
+    if (envelope.checksum && checksumUrls(envelope.urls) !== envelope.checksum) {
+      logger.error('storage', 'Stored URL payload failed checksum validation', {
+        expected: envelope.checksum,
+        count: envelope.urls.length,
+      });
+      throw new StorageCorruptionError('Stored links do not match their checksum', this.name);
+    }
+
+    const migrated = migratePayload(envelope);
+    assertValidUrlRecords(migrated.urls, this.name);
+    return { version: envelope.version, migrated };
+  }
+}
@@ -0,0 +1,79 @@
+import { ShortUrl } from '../types';
+import { UrlCache } from './urlCache';
+import { DEFAULT_WORKSPACE_ID } from './workspaces';
+import { generateShortcode } from '../utils/validation';
+import { logger } from '../middleware/logger';
+
+export interface CacheBenchmarkResult {
+  linkCount: number;
+  buildMs: number;
+  cacheLookupMicros: number;
+  linearScanMicros: number;
+}
+
+const LOOKUPS_PER_RUN = 1000;
+
+function createSyntheticUrls(count: number): ShortUrl[] {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) => ({
+    id: `bench-${i}`,
+    originalUrl: `https://example.com/page/${i % 500}`,
+    shortcode: `${generateShortcode(6)}${i.toString(36)}`,
+    createdAt: new Date(now - i * 60000),
+    expiresAt: new Date(now + (i % 2 === 0 ? 1 : -1) * 3600000),
+    validityMinutes: 60,
+    clickCount: 0,
+    isCustomShortcode: false,
+    workspaceId: DEFAULT_WORKSPACE_ID,
+    isPaused: false,
+    deletedAt: null,
+    password: null,
+    maxClicks: null,
+    activatesAt: null,
+    activeHours: null,
+    redirectRules: [],
+    splitVariants: [],
+    passthrough: null,
+    inactivityDays: null,
+    fallbackUrl: null,
+    expiredMessage: null,
+  }));
+}
+
+/**
+ * Average time per call, in microseconds
+ */
+function timePerCall(shortcodes: string[], lookup: (shortcode: string) => unknown): number {
+  const started = performance.now();
+  shortcodes.forEach(lookup);
+  return ((performance.now() - started) * 1000) / shortcodes.length;
+}
+
+/**
+ * Compare indexed cache lookups against the old linear scan on synthetic data.
+ * Runs entirely in memory and never touches stored links.
+ */
+export function runCacheBenchmark(sizes: number[] = [10000, 100000]): CacheBenchmarkResult[] {
+  return sizes.map(linkCount => {
+    const urls = createSyntheticUrls(linkCount);
+
+    const buildStarted = performance.now();
+    const cache = new UrlCache(urls);
+    const buildMs = performance.now() - buildStarted;
+
+    // Half hits, half misses
+    const probes = Array.from({ length: LOOKUPS_PER_RUN }, (_, i) =>
+      i % 2 === 0 ? urls[Math.floor(Math.random() * linkCount)].shortcode : `missing${i}`
+    );
+
+    const result: CacheBenchmarkResult = {
+      linkCount,
+      buildMs: Math.round(buildMs * 10) / 10,
+      cacheLookupMicros: Math.round(timePerCall(probes, code => cache.get(code)) * 100) / 100,
+      linearScanMicros: Math.round(timePerCall(probes, code => urls.find(url => url.shortcode === code)) * 100) / 100,
+    };
+
+    logger.info('storage', 'Cache benchmark run completed', { ...result });
+    return result;
+  });
+}
@@ -0,0 +1,28 @@
+import { ShortUrl } from '../types';
+
+/**
+ * Thrown when a click-limited link has no redirects left
+ */
+export class LinkExhaustedError extends Error {
+  constructor(public readonly maxClicks: number) {
+    super(
+      maxClicks === 1
+        ? 'This one-time link has already been used'
+        : `This link has reached its limit of ${maxClicks} uses`
+    );
+    this.name = 'LinkExhaustedError';
+  }
+}
+
+/**
+ * Redirects left before the link is used up, or null when unlimited
+ */
+export function remainingClicks(url: ShortUrl): number | null {
+  return url.maxClicks === null || url.maxClicks === undefined
+    ? null
+    : Math.max(url.maxClicks - url.clickCount, 0);
+}
+
+export function isExhausted(url: ShortUrl): boolean {
+  return remainingClicks(url) === 0;
+}
@@ -0,0 +1,174 @@
+import { ClickEvent, ClickRollup, ClickBreakdown, RollupGranularity } from '../types';
+import { logger } from '../middleware/logger';
+
+export interface ClickRetentionPolicy {
+  /** Raw clicks older than this are compacted into rollups */
+  rawRetentionDays: number;
+}
+
+const RETENTION_KEY = 'affordmed_click_retention';
+export const DEFAULT_RETENTION_POLICY: ClickRetentionPolicy = { rawRetentionDays: 14 };
+export const ROLLUP_GRANULARITIES: RollupGranularity[] = ['hour', 'day'];
+
+/**
+ * Read the configured retention policy, falling back to the default
+ */
+export function getRetentionPolicy(): ClickRetentionPolicy {
+  try {
+    const stored = localStorage.getItem(RETENTION_KEY);
+    if (stored) {
+      const policy = JSON.parse(stored) as ClickRetentionPolicy;
+      if (Number.isInteger(policy.rawRetentionDays) && policy.rawRetentionDays > 0) {
+        return policy;
+      }
+    }
+  } catch (error) {
+    logger.warn('click-retention', 'Failed to read retention policy', { error: error.message });
+  }
+  return DEFAULT_RETENTION_POLICY;
+}
+
+export function setRetentionPolicy(policy: ClickRetentionPolicy): void {
+  if (!Number.isInteger(policy.rawRetentionDays) || policy.rawRetentionDays < 1) {
+    throw new Error('Retention must be a whole number of days, at least 1');
+  }
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+  logger.info('click-retention', 'Retention policy updated', { ...policy });
+}
+
+/**
+ * Collapse a user-agent string into a browser family
+ */
+export function userAgentFamily(userAgent: string): string {
+  if (/Edg\//.test(userAgent)) return 'Edge';
+  if (/OPR\/|Opera/.test(userAgent)) return 'Opera';
+  if (/Firefox\//.test(userAgent)) return 'Firefox';
+  if (/Chrome\/|CriOS\//.test(userAgent)) return 'Chrome';
+  if (/Safari\//.test(userAgent)) return 'Safari';
+  return 'Other';
+}
+
+/**
+ * Start of the local hour or day containing `date`
+ */
+export function bucketStart(date: Date, granularity: RollupGranularity): Date {
+  const start = new Date(date);
+  start.setMinutes(0, 0, 0);
+  if (granularity === 'day') {
+    start.setHours(0);
+  }
+  return start;
+}
+
+function rollupId(shortcode: string, granularity: RollupGranularity, start: Date): string {
+  return `${shortcode}:${granularity}:${start.toISOString()}`;
+}
+
+function increment(counts: Record<string, number>, key: string, by: number = 1): void {
+  counts[key] = (counts[key] || 0) + by;
+}
+
+function clickDimensions(click: ClickEvent): { referrer: string; country: string; userAgent: string } {
+  return {
+    referrer: click.referrer || 'direct',
+    country: click.geoLocation?.country || 'Unknown',
+    userAgent: userAgentFamily(click.userAgent),
+  };
+}
+
+/**
+ * Fold raw clicks into hourly and daily rollups.
+ * `existing` holds the stored rollups for the affected shortcodes; the
+ * returned list contains only the rollups that changed.
+ */
+export function rollupClicks(clicks: ClickEvent[], existing: ClickRollup[]): ClickRollup[] {
+  const byId = new Map(existing.map(rollup => [rollup.id, rollup]));
+  const changed = new Map<string, ClickRollup>();
+
+  clicks.forEach(click => {
+    const dimensions = clickDimensions(click);
+
+    ROLLUP_GRANULARITIES.forEach(granularity => {
+      const start = bucketStart(click.timestamp, granularity);
+      const id = rollupId(click.shortcode, granularity, start);
+      let rollup = changed.get(id);
+
+      if (!rollup) {
+        const stored = byId.get(id);
+        rollup = stored
+          ? {
+              ...stored,
+              byReferrer: { ...stored.byReferrer },
+              byCountry: { ...stored.byCountry },
+              byUserAgent: { ...stored.byUserAgent },
+              byVariant: { ...stored.byVariant },
+            }
+          : {
+              id,
+              shortcode: click.shortcode,
+              granularity,
+              bucketStart: start,
+              count: 0,
+              byReferrer: {},
+              byCountry: {},
+              byUserAgent: {},
+              byVariant: {},
+            };
+        changed.set(id, rollup);
+      }
+
+      rollup.count += 1;
+      increment(rollup.byReferrer, dimensions.referrer);
+      increment(rollup.byCountry, dimensions.country);
+      increment(rollup.byUserAgent, dimensions.userAgent);
+      if (click.variantId) {
+        increment(rollup.byVariant, click.variantId);
+      }
+    });
+  });
+
+  return Array.from(changed.values());
+}
+
+/**
+ * Merge raw clicks with rollups of the given granularity into one breakdown
+ */
+export function buildClickBreakdown(
+  clicks: ClickEvent[],
+  rollups: ClickRollup[],
+  granularity: RollupGranularity
+): ClickBreakdown {
+  const breakdown: ClickBreakdown = { total: 0, byReferrer: {}, byCountry: {}, byUserAgent: {}, byVariant: {}, timeline: [] };
+  const timeline = new Map<number, number>();
+
+  rollups
+    .filter(rollup => rollup.granularity === granularity)
+    .forEach(rollup => {
+      breakdown.total += rollup.count;
+      Object.entries(rollup.byReferrer).forEach(([key, count]) => increment(breakdown.byReferrer, key, count));
+      Object.entries(rollup.byCountry).forEach(([key, count]) => increment(breakdown.byCountry, key, count));
+      Object.entries(rollup.byUserAgent).forEach(([key, count]) => increment(breakdown.byUserAgent, key, count));
+      Object.entries(rollup.byVariant || {}).forEach(([key, count]) => increment(breakdown.byVariant, key, count));
+      const time = rollup.bucketStart.getTime();
+      timeline.set(time, (timeline.get(time) || 0) + rollup.count);
+    });
+
+  clicks.forEach(click => {
+    const dimensions = clickDimensions(click);
+    breakdown.total += 1;
+    increment(breakdown.byReferrer, dimensions.referrer);
+    increment(breakdown.byCountry, dimensions.country);
+    increment(breakdown.byUserAgent, dimensions.userAgent);
+    if (click.variantId) {
+      increment(breakdown.byVariant, click.variantId);
+    }
+    const time = bucketStart(click.timestamp, granularity).getTime();
+    timeline.set(time, (timeline.get(time) || 0) + 1);
+  });
+
+  breakdown.timeline = Array.from(timeline.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, count]) => ({ bucketStart: new Date(time), count }));
+
+  return breakdown;
+}
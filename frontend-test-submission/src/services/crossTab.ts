@@ -0,0 +1,87 @@
+import { StorageChangeEvent } from '../types';
+import { logger } from '../middleware/logger';
+
+type StorageChangeListener = (event: StorageChangeEvent) => void;
+
+/**
+ * Cross-tab coordination for StorageService
+ * Serializes writes with the Web Locks API and announces changes over
+ * BroadcastChannel so other open tabs can refresh their views.
+ */
+class CrossTabCoordinator {
+  private static instance: CrossTabCoordinator;
+  private readonly LOCK_NAME = 'affordmed_storage_write';
+  private readonly CHANNEL_NAME = 'affordmed_storage_changes';
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<StorageChangeListener>();
+  // In-tab fallback queue for browsers without navigator.locks
+  private localQueue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<Omit<StorageChangeEvent, 'origin'>>) => {
+        logger.debug('cross-tab', 'Storage change received from another tab', { type: message.data.type });
+        this.notify({ ...message.data, origin: 'remote' });
+      };
+    } else {
+      logger.warn('cross-tab', 'BroadcastChannel not supported; other tabs will not be notified');
+    }
+  }
+
+  public static getInstance(): CrossTabCoordinator {
+    if (!CrossTabCoordinator.instance) {
+      CrossTabCoordinator.instance = new CrossTabCoordinator();
+    }
+    return CrossTabCoordinator.instance;
+  }
+
+  /**
+   * Run a read-modify-write while holding the exclusive storage lock.
+   * Locks are not re-entrant: never call withWriteLock from inside `task`.
+   */
+  public withWriteLock<T>(task: () => Promise<T>): Promise<T> {
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      return navigator.locks.request(this.LOCK_NAME, { mode: 'exclusive' }, task);
+    }
+
+    const result = this.localQueue.then(task, task);
+    this.localQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Announce a change to this tab's listeners and to every other tab
+   */
+  public broadcast(event: Omit<StorageChangeEvent, 'origin'>): void {
+    this.notify({ ...event, origin: 'local' });
+
+    try {
+      this.channel?.postMessage(event);
+    } catch (error) {
+      logger.warn('cross-tab', 'Failed to broadcast storage change', { error: error.message });
+    }
+  }
+
+  /**
+   * Listen for storage changes from this or any other tab
+   */
+  public subscribe(listener: StorageChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(event: StorageChangeEvent): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('cross-tab', 'Storage change listener failed', { error: error.message });
+      }
+    });
+  }
+}
+
+export const crossTab = CrossTabCoordinator.getInstance();
@@ -0,0 +1,187 @@
+/**
+ * At-rest encryption for stored link data
+ * AES-GCM via WebCrypto, keyed from a user passphrase with PBKDF2
+ */
+
+const SETTINGS_KEY = 'affordmed_encryption';
+const PENDING_SETTINGS_KEY = 'affordmed_encryption_pending';
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const VERIFIER_TEXT = 'affordmed-unlock-check';
+
+/** Minimum passphrase length accepted when enabling or changing encryption */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Non-secret parameters needed to re-derive the key and check a passphrase
+ */
+export interface EncryptionSettings {
+  salt: string;
+  iterations: number;
+  /** VERIFIER_TEXT sealed with the derived key */
+  verifier: string;
+}
+
+/**
+ * Thrown when data is read while encryption is enabled but not unlocked
+ */
+export class StorageLockedError extends Error {
+  constructor() {
+    super('Stored links are encrypted. Unlock them with your passphrase first.');
+    this.name = 'StorageLockedError';
+  }
+}
+
+/**
+ * Thrown when a passphrase does not match the stored verifier
+ */
+export class IncorrectPassphraseError extends Error {
+  constructor() {
+    super('Incorrect passphrase');
+    this.name = 'IncorrectPassphraseError';
+  }
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * Encrypts values as base64 `iv || ciphertext` strings with one AES-GCM key
+ */
+export class PayloadCipher {
+  private constructor(private readonly key: CryptoKey) {}
+
+  public static async derive(passphrase: string, salt: Uint8Array, iterations: number): Promise<PayloadCipher> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    const key = await crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+    return new PayloadCipher(key);
+  }
+
+  public async seal(value: unknown): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.key, plaintext));
+
+    const sealed = new Uint8Array(IV_BYTES + ciphertext.length);
+    sealed.set(iv);
+    sealed.set(ciphertext, IV_BYTES);
+    return toBase64(sealed);
+  }
+
+  /**
+   * Decrypt a sealed value; rejects if the key is wrong or the data was altered
+   */
+  public async open<T>(sealed: string): Promise<T> {
+    const bytes = fromBase64(sealed);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) },
+      this.key,
+      bytes.slice(IV_BYTES)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+}
+
+export function readEncryptionSettings(): EncryptionSettings | null {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function writeEncryptionSettings(settings: EncryptionSettings | null): void {
+  if (settings) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } else {
+    localStorage.removeItem(SETTINGS_KEY);
+  }
+}
+
+/**
+ * Identifies the key data is written under: the salt, or 'plain'
+ */
+export function keyIdOf(settings: EncryptionSettings | null): string {
+  return settings ? settings.salt : 'plain';
+}
+
+/**
+ * Record the settings a re-key is switching to before the data is swapped.
+ * If the tab closes between the swap and saving the settings, the next
+ * start settles the change by comparing keyIdOf() with the stored data.
+ */
+export function beginEncryptionChange(settings: EncryptionSettings | null): void {
+  localStorage.setItem(PENDING_SETTINGS_KEY, JSON.stringify({ settings }));
+}
+
+export function readPendingEncryptionChange(): { settings: EncryptionSettings | null } | null {
+  const stored = localStorage.getItem(PENDING_SETTINGS_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * Save the pending settings if the swap committed, and drop them either way
+ */
+export function endEncryptionChange(committed: boolean): void {
+  const pending = readPendingEncryptionChange();
+  if (pending && committed) {
+    writeEncryptionSettings(pending.settings);
+  }
+  localStorage.removeItem(PENDING_SETTINGS_KEY);
+}
+
+/**
+ * Derive a fresh key (new salt) for a passphrase
+ */
+export async function createEncryptionSettings(passphrase: string): Promise<{
+  settings: EncryptionSettings;
+  cipher: PayloadCipher;
+}> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const cipher = await PayloadCipher.derive(passphrase, salt, PBKDF2_ITERATIONS);
+  const settings: EncryptionSettings = {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await cipher.seal(VERIFIER_TEXT),
+  };
+  return { settings, cipher };
+}
+
+/**
+ * Re-derive the key for stored settings, checking the passphrase against the verifier
+ */
+export async function unlockCipher(settings: EncryptionSettings, passphrase: string): Promise<PayloadCipher> {
+  const cipher = await PayloadCipher.derive(passphrase, fromBase64(settings.salt), settings.iterations);
+
+  try {
+    if ((await cipher.open<string>(settings.verifier)) === VERIFIER_TEXT) {
+      return cipher;
+    }
+  } catch {
+    // AES-GCM authentication failed: wrong key
+  }
+  throw new IncorrectPassphraseError();
+}
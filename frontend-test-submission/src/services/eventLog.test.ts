@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compactClickEvents,
+  eventsForWorkspace,
+  getDeviceId,
+  mergeEventLogs,
+  projectEvents,
+  undoRedoStacks,
+} from './eventLog';
+import { makeEvent, makeUrl } from '../test/fixtures';
+import { ShortUrl, StorageEvent } from '../types';
+
+const promo = makeUrl({ shortcode: 'promo1' });
+const docs = makeUrl({ shortcode: 'docs1', workspaceId: 'w2' });
+
+const created = makeEvent('created', '2024-01-01T10:00:00Z', { shortcodes: ['promo1'], urls: [promo] });
+const createdDocs = makeEvent('created', '2024-01-01T10:30:00Z', { shortcodes: ['docs1'], urls: [docs] });
+const paused = makeEvent('updated', '2024-01-01T11:00:00Z', { shortcodes: ['promo1'], changes: { isPaused: true } });
+
+describe('projectEvents', () => {
+  it('replays creations and updates in order', () => {
+    const [url] = projectEvents([created, paused]);
+    expect(url).toEqual({ ...promo, isPaused: true });
+  });
+
+  it('ignores updates to links that do not exist', () => {
+    const orphan = makeEvent('updated', '2024-01-01T11:00:00Z', { shortcodes: ['nope'], changes: { isPaused: true } });
+    expect(projectEvents([orphan])).toEqual([]);
+  });
+
+  it('drops purged links', () => {
+    const purged = makeEvent('deleted', '2024-01-01T12:00:00Z', { shortcodes: ['promo1'] });
+    expect(projectEvents([created, createdDocs, purged]).map(url => url.shortcode)).toEqual(['docs1']);
+  });
+
+  it('replaces everything on a wholesale import', () => {
+    const restored = makeUrl({ shortcode: 'back1' });
+    const restore = makeEvent('imported', '2024-01-01T12:00:00Z', {
+      shortcodes: ['back1'],
+      urls: [restored],
+      replace: true,
+    });
+    expect(projectEvents([created, createdDocs, restore])).toEqual([restored]);
+  });
+
+  it('skips undone events and re-applies redone ones', () => {
+    const undo = makeEvent('undone', '2024-01-01T12:00:00Z', { shortcodes: ['promo1'], targetId: paused.id });
+    const redo = makeEvent('redone', '2024-01-01T13:00:00Z', { shortcodes: ['promo1'], targetId: paused.id });
+
+    expect(projectEvents([created, paused, undo])[0].isPaused).toBe(false);
+    expect(projectEvents([created, paused, undo, redo])[0].isPaused).toBe(true);
+  });
+
+  it('upgrades links copied into events at an older schema', () => {
+    const {
+      redirectRules: _rules,
+      splitVariants: _variants,
+      passthrough: _passthrough,
+      inactivityDays: _inactivity,
+      fallbackUrl: _fallback,
+      expiredMessage: _message,
+      ...atVersion8
+    } = makeUrl({ shortcode: 'old1', isPaused: true, maxClicks: 5 });
+    const createdOld = makeEvent('created', '2024-01-01T10:00:00Z', {
+      shortcodes: ['old1'],
+      urls: [atVersion8 as ShortUrl],
+      schemaVersion: 8,
+    });
+    const resumed = makeEvent('updated', '2024-01-01T11:00:00Z', { shortcodes: ['old1'], changes: { isPaused: false } });
+    const undo = makeEvent('undone', '2024-01-01T12:00:00Z', { shortcodes: ['old1'], targetId: resumed.id });
+
+    const [url] = projectEvents([createdOld, resumed, undo]);
+    expect(url).toEqual(makeUrl({ shortcode: 'old1', isPaused: true, maxClicks: 5 }));
+  });
+
+  it('treats events without a schema version as written at version 2', () => {
+    const { workspaceId: _workspace, isPaused: _paused, deletedAt: _deleted, ...atVersion2 } = makeUrl({ shortcode: 'v2' });
+    const createdOld = makeEvent('created', '2024-01-01T10:00:00Z', {
+      shortcodes: ['v2'],
+      urls: [atVersion2 as ShortUrl],
+      schemaVersion: undefined,
+    });
+
+    const [url] = projectEvents([createdOld]);
+    expect(url).toEqual(makeUrl({ shortcode: 'v2' }));
+  });
+
+  it('replays only events up to a point in time', () => {
+    expect(projectEvents([created, paused], new Date('2024-01-01T10:59:00Z'))[0].isPaused).toBe(false);
+    expect(projectEvents([created, paused], new Date('2024-01-01T09:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('undoRedoStacks', () => {
+  it('stacks undoable changes and skips the baseline', () => {
+    const baseline = makeEvent('imported', '2024-01-01T09:00:00Z', { shortcodes: [], urls: [], baseline: true });
+    const { undo, redo } = undoRedoStacks([baseline, created, paused]);
+    expect(undo.map(event => event.id)).toEqual([created.id, paused.id]);
+    expect(redo).toEqual([]);
+  });
+
+  it('moves undone changes to the redo stack until a new change clears it', () => {
+    const undo = makeEvent('undone', '2024-01-01T12:00:00Z', { shortcodes: ['promo1'], targetId: paused.id });
+    expect(undoRedoStacks([created, paused, undo]).redo.map(event => event.id)).toEqual([paused.id]);
+
+    const edit = makeEvent('updated', '2024-01-01T13:00:00Z', { shortcodes: ['promo1'], changes: { maxClicks: 5 } });
+    expect(undoRedoStacks([created, paused, undo, edit]).redo).toEqual([]);
+  });
+});
+
+describe('mergeEventLogs', () => {
+  it('combines logs without duplicates, in replay order', () => {
+    const merged = mergeEventLogs([created, paused], [createdDocs, created]);
+    expect(merged.map(event => event.id)).toEqual([created.id, createdDocs.id, paused.id]);
+  });
+
+  it('orders events with the same timestamp by id', () => {
+    const a = { ...created, id: 'a' };
+    const b = { ...createdDocs, id: 'b', timestamp: created.timestamp };
+    expect(mergeEventLogs([b], [a]).map(event => event.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('eventsForWorkspace', () => {
+  it('keeps events touching the workspace and their undo markers', () => {
+    const undo = makeEvent('undone', '2024-01-01T12:00:00Z', { shortcodes: ['promo1'], targetId: paused.id });
+    const events = [created, createdDocs, paused, undo];
+    expect(eventsForWorkspace(events, 'default').map(event => event.id)).toEqual([created.id, paused.id, undo.id]);
+    expect(eventsForWorkspace(events, 'w2').map(event => event.id)).toEqual([createdDocs.id]);
+  });
+});
+
+describe('clicked events', () => {
+  const click = (at: string, fields: Partial<StorageEvent> = {}): StorageEvent =>
+    makeEvent('clicked', at, { shortcodes: ['promo1'], clickedAt: new Date(at), ...fields });
+
+  it('count clicks on the link', () => {
+    const [url] = projectEvents([created, click('2024-01-01T11:00:00Z'), click('2024-01-02T09:00:00Z')]);
+    expect(url.clickCount).toBe(2);
+    expect(url.lastClickAt).toEqual(new Date('2024-01-02T09:00:00Z'));
+  });
+
+  it('count only clicks up to a point in time', () => {
+    const events = [created, click('2024-01-01T11:00:00Z'), click('2024-01-01T13:00:00Z')];
+    expect(projectEvents(events, new Date('2024-01-01T12:00:00Z'))[0].clickCount).toBe(1);
+  });
+
+  it('skip clicks on an earlier link with the same shortcode', () => {
+    const purged = makeEvent('deleted', '2024-01-01T12:00:00Z', { shortcodes: ['promo1'] });
+    const reused = makeEvent('created', '2024-02-01T00:00:00Z', { shortcodes: ['promo1'], urls: [promo] });
+    const [url] = projectEvents([created, click('2024-01-01T11:00:00Z'), purged, reused]);
+    expect(url.clickCount).toBe(0);
+  });
+
+  it('slide inactivity expiry to the last click', () => {
+    const idle = makeUrl({ shortcode: 'promo1', inactivityDays: 2, expiresAt: new Date('2024-01-03T00:00:00Z') });
+    const createdIdle = makeEvent('created', '2024-01-01T00:00:00Z', { shortcodes: ['promo1'], urls: [idle] });
+    const [url] = projectEvents([createdIdle, click('2024-01-02T12:00:00Z')]);
+    expect(url.expiresAt).toEqual(new Date('2024-01-04T12:00:00Z'));
+  });
+
+  it('let a click extend a 30-day inactivity link past 30 days from creation in the default workspace', () => {
+    const idle = makeUrl({ shortcode: 'promo1', inactivityDays: 30, expiresAt: new Date('2024-01-31T00:00:00Z') });
+    const createdIdle = makeEvent('created', '2024-01-01T00:00:00Z', { shortcodes: ['promo1'], urls: [idle] });
+    const [url] = projectEvents([createdIdle, click('2024-01-20T00:00:00Z')]);
+    expect(url.expiresAt).toEqual(new Date('2024-02-19T00:00:00Z'));
+  });
+});
+
+describe('compactClickEvents', () => {
+  const click = (at: string, fields: Partial<StorageEvent> = {}): StorageEvent =>
+    makeEvent('clicked', at, { shortcodes: ['promo1'], clickedAt: new Date(at), ...fields });
+
+  it('folds clicks from hours before the cutoff into one event per shortcode and hour', () => {
+    const clicks = [
+      click('2024-01-01T11:05:00Z'),
+      click('2024-01-01T11:40:00Z'),
+      click('2024-01-01T11:50:00Z', { shortcodes: ['docs1'] }),
+      click('2024-01-01T12:10:00Z'),
+    ];
+    const { added, removedIds } = compactClickEvents(clicks, new Date('2024-01-01T12:30:00Z'), getDeviceId());
+
+    expect(removedIds).toEqual(clicks.slice(0, 3).map(event => event.id));
+    expect(added.map(event => [event.shortcodes[0], event.clickCount, event.clickedAt])).toEqual([
+      ['promo1', 2, new Date('2024-01-01T11:40:00Z')],
+      ['docs1', 1, new Date('2024-01-01T11:50:00Z')],
+    ]);
+  });
+
+  it('leaves clicks recorded on other devices alone', () => {
+    const { removedIds } = compactClickEvents([click('2024-01-01T11:05:00Z')], new Date('2024-01-02T00:00:00Z'), 'other');
+    expect(removedIds).toEqual([]);
+  });
+
+  it('keeps the projection unchanged, even when merged with the raw clicks again', () => {
+    const raw = [click('2024-01-01T11:05:00Z'), click('2024-01-01T11:40:00Z'), click('2024-01-01T13:00:00Z')];
+    const { added, removedIds } = compactClickEvents(raw, new Date('2024-01-01T12:00:00Z'), getDeviceId());
+    const compacted = [created, ...raw.filter(event => !removedIds.includes(event.id)), ...added];
+
+    const expected = projectEvents([created, ...raw]);
+    expect(projectEvents(compacted)).toEqual(expected);
+    expect(projectEvents(mergeEventLogs(compacted, [created, ...raw]))).toEqual(expected);
+  });
+});
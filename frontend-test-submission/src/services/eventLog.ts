@@ -0,0 +1,252 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ShortUrl, StorageEvent, StorageEventType } from '../types';
+import { DEFAULT_WORKSPACE_ID, workspaceOf } from './workspaces';
+import { expiryAfterClick } from './expiry';
+import { CURRENT_SCHEMA_VERSION, PersistedRecord, migrateRecords } from './migrations';
+
+/**
+ * Event-sourcing helpers for StorageService
+ * Every mutation is appended to the log as a StorageEvent; stored URLs are a
+ * projection of the log. Undo and redo append `undone` / `redone` markers
+ * instead of rewriting history, so two devices replaying the same set of
+ * events always arrive at the same state.
+ */
+
+const DEVICE_ID_KEY = 'affordmed_device_id';
+
+/**
+ * Schema version of URL copies in events that predate `schemaVersion`;
+ * the log was introduced at version 2
+ */
+const FIRST_EVENT_SCHEMA_VERSION = 2;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Events the user can undo; `deleted` is a permanent purge, while moving
+ * links to and from the trash is recorded as `updated`
+ */
+export const UNDOABLE_EVENT_TYPES: StorageEventType[] = ['created', 'updated', 'imported'];
+
+let deviceId: string | null = null;
+
+/**
+ * Stable id for this browser profile
+ */
+export function getDeviceId(): string {
+  if (!deviceId) {
+    deviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!deviceId) {
+      deviceId = uuidv4();
+      localStorage.setItem(DEVICE_ID_KEY, deviceId);
+    }
+  }
+  return deviceId;
+}
+
+export function createEvent(
+  type: StorageEventType,
+  fields: Omit<StorageEvent, 'id' | 'type' | 'timestamp' | 'deviceId'>
+): StorageEvent {
+  const event: StorageEvent = { id: uuidv4(), type, timestamp: new Date(), deviceId: getDeviceId(), ...fields };
+  if (event.urls) {
+    event.schemaVersion = CURRENT_SCHEMA_VERSION;
+  }
+  return event;
+}
+
+/**
+ * Bring the URL copies in an event up to the current schema, since they
+ * are never rewritten once appended
+ */
+export function upgradeEvent(event: StorageEvent): StorageEvent {
+  const version = event.schemaVersion ?? FIRST_EVENT_SCHEMA_VERSION;
+  if (!event.urls || version >= CURRENT_SCHEMA_VERSION) return event;
+
+  const urls = migrateRecords(event.urls as unknown as PersistedRecord[], version) as unknown as ShortUrl[];
+  return { ...event, urls, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+/**
+ * Total order over events: by timestamp, ties broken by id
+ */
+export function compareEvents(a: StorageEvent, b: StorageEvent): number {
+  const byTime = a.timestamp.getTime() - b.timestamp.getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+/**
+ * Combine two logs, dropping duplicates, in replay order
+ */
+export function mergeEventLogs(local: StorageEvent[], incoming: StorageEvent[]): StorageEvent[] {
+  const byId = new Map(local.map(event => [event.id, event]));
+  incoming.forEach(event => {
+    if (!byId.has(event.id)) {
+      byId.set(event.id, event);
+    }
+  });
+  return Array.from(byId.values()).sort(compareEvents);
+}
+
+/**
+ * Ids of events currently reverted by undo markers
+ */
+function revertedEventIds(events: StorageEvent[]): Set<string> {
+  const reverted = new Set<string>();
+  events.forEach(event => {
+    if (!event.targetId) return;
+    if (event.type === 'undone') {
+      reverted.add(event.targetId);
+    } else if (event.type === 'redone') {
+      reverted.delete(event.targetId);
+    }
+  });
+  return reverted;
+}
+
+/**
+ * Device, shortcode and hour a `clicked` event falls in; compaction keeps
+ * one event per bucket
+ */
+function clickBucket(event: StorageEvent): string {
+  const clickedAt = (event.clickedAt || event.timestamp).getTime();
+  const hour = new Date(Math.floor(clickedAt / HOUR_MS) * HOUR_MS);
+  return `${event.deviceId}:${event.shortcodes[0]}:${hour.toISOString()}`;
+}
+
+/**
+ * Fold this device's `clicked` events from hours that ended before `cutoff`
+ * into one event per shortcode and hour, counting the clicks it stands for
+ * and keeping the time of the last one. Ids are derived from the bucket, so
+ * a log merged from another device that still has the raw events replays
+ * the compacted one instead (see projectEvents).
+ * @returns the compacted events and the ids of the raw events they replace
+ */
+export function compactClickEvents(
+  events: StorageEvent[],
+  cutoff: Date,
+  device: string = getDeviceId()
+): { added: StorageEvent[]; removedIds: string[] } {
+  const before = Math.floor(cutoff.getTime() / HOUR_MS) * HOUR_MS;
+  const buckets = new Map<string, StorageEvent[]>();
+  events
+    .filter(event =>
+      event.type === 'clicked' && event.clickCount === undefined && event.deviceId === device &&
+      (event.clickedAt || event.timestamp).getTime() < before
+    )
+    .forEach(event => buckets.set(clickBucket(event), [...(buckets.get(clickBucket(event)) || []), event]));
+
+  const added = Array.from(buckets, ([bucket, raw]) => {
+    const last = raw.reduce((latest, event) => (compareEvents(event, latest) > 0 ? event : latest));
+    return { ...last, id: `clicks:${bucket}`, clickCount: raw.length };
+  });
+  return { added, removedIds: Array.from(buckets.values()).flat().map(event => event.id) };
+}
+
+/**
+ * Replay the log into URL state, optionally as it stood at `asOf`.
+ * Clicks in hours that were compacted replay at the time of the hour's
+ * last click.
+ */
+export function projectEvents(events: StorageEvent[], asOf?: Date): ShortUrl[] {
+  const visible = (asOf ? events.filter(event => event.timestamp <= asOf) : events).map(upgradeEvent);
+  const reverted = revertedEventIds(visible);
+  const compacted = new Set(
+    events.filter(event => event.type === 'clicked' && event.clickCount !== undefined).map(clickBucket)
+  );
+  const state = new Map<string, ShortUrl>();
+
+  visible.forEach(event => {
+    if (reverted.has(event.id)) return;
+
+    switch (event.type) {
+      case 'imported':
+        if (event.replace) {
+          state.clear();
+        }
+        (event.urls || []).forEach(url => state.set(url.shortcode, url));
+        break;
+      case 'created':
+        (event.urls || []).forEach(url => state.set(url.shortcode, url));
+        break;
+      case 'updated':
+        event.shortcodes.forEach(shortcode => {
+          const current = state.get(shortcode);
+          if (current) {
+            state.set(shortcode, { ...current, ...event.changes });
+          }
+        });
+        break;
+      case 'deleted':
+        event.shortcodes.forEach(shortcode => state.delete(shortcode));
+        break;
+      case 'clicked': {
+        // Raw clicks merged in from a device that has since compacted them
+        if (event.clickCount === undefined && compacted.has(clickBucket(event))) break;
+        const current = state.get(event.shortcodes[0]);
+        if (current) {
+          const clickedAt = event.clickedAt || event.timestamp;
+          state.set(current.shortcode, {
+            ...current,
+            clickCount: current.clickCount + (event.clickCount ?? 1),
+            lastClickAt: current.lastClickAt && current.lastClickAt > clickedAt ? current.lastClickAt : clickedAt,
+            expiresAt: expiryAfterClick(current, clickedAt),
+          });
+        }
+        break;
+      }
+    }
+  });
+
+  return Array.from(state.values());
+}
+
+/**
+ * Undo and redo stacks implied by the log; the last entry of each is next
+ */
+export function undoRedoStacks(events: StorageEvent[]): { undo: StorageEvent[]; redo: StorageEvent[] } {
+  const byId = new Map(events.map(event => [event.id, event]));
+  let undo: StorageEvent[] = [];
+  let redo: StorageEvent[] = [];
+
+  events.forEach(event => {
+    if (UNDOABLE_EVENT_TYPES.includes(event.type) && !event.baseline) {
+      undo.push(event);
+      redo = [];
+      return;
+    }
+
+    const target = event.targetId ? byId.get(event.targetId) : undefined;
+    if (!target) return;
+
+    if (event.type === 'undone') {
+      undo = undo.filter(candidate => candidate.id !== target.id);
+      redo.push(target);
+    } else if (event.type === 'redone') {
+      redo = redo.filter(candidate => candidate.id !== target.id);
+      undo.push(target);
+    }
+  });
+
+  return { undo, redo };
+}
+
+/**
+ * Events that touched links in one workspace, with the undo/redo markers
+ * pointing at them; wholesale replacements (restores) touch every workspace
+ */
+export function eventsForWorkspace(events: StorageEvent[], workspaceId: string): StorageEvent[] {
+  // Shortcodes are globally unique, so the last record seen for one names its workspace
+  const owners = new Map<string, string>();
+  events.forEach(event => (event.urls || []).forEach(url => owners.set(url.shortcode, workspaceOf(url))));
+
+  const byId = new Map(events.map(event => [event.id, event]));
+  const touches = (event: StorageEvent): boolean =>
+    !!event.replace || event.shortcodes.some(shortcode => (owners.get(shortcode) || DEFAULT_WORKSPACE_ID) === workspaceId);
+
+  return events.filter(event => {
+    const target = event.targetId ? byId.get(event.targetId) : undefined;
+    return touches(target || event);
+  });
+}
@@ -0,0 +1,121 @@
+import { ExpiryPolicy, ExpiryType, ShortUrl } from '../types';
+
+/**
+ * Link expiry policies
+ * Every policy is stored as a concrete expiresAt (null for never), so expiry
+ * checks only compare dates. Inactivity links additionally keep their window
+ * in inactivityDays, and each click moves expiresAt out to a fresh window.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+export const MAX_INACTIVITY_DAYS = 365;
+export const MAX_EXPIRED_MESSAGE_LENGTH = 500;
+
+export const EXPIRY_TYPE_LABELS: Record<ExpiryType, string> = {
+  duration: 'After a duration',
+  date: 'At a date and time',
+  inactivity: 'After inactivity',
+  never: 'Never',
+};
+
+/**
+ * Thrown for a link that exists but has expired; carries the link so callers
+ * can use its fallback URL or expired message
+ */
+export class LinkExpiredError extends Error {
+  constructor(public readonly url: ShortUrl) {
+    super(`This short URL expired on ${url.expiresAt?.toLocaleString()}`);
+    this.name = 'LinkExpiredError';
+  }
+}
+
+/**
+ * Expiry as a timestamp for sorting; links that never expire sort last
+ */
+export function expiryTime(url: Pick<ShortUrl, 'expiresAt'>): number {
+  return url.expiresAt === null ? Number.MAX_SAFE_INTEGER : url.expiresAt.getTime();
+}
+
+export function isExpired(url: Pick<ShortUrl, 'expiresAt'>, now: Date = new Date()): boolean {
+  return url.expiresAt !== null && now > url.expiresAt;
+}
+
+/**
+ * Expiry for a link created with `policy`, counting from `start`
+ * (creation, or go-live for scheduled links)
+ */
+export function expiryFor(policy: ExpiryPolicy, start: Date): Date | null {
+  switch (policy.type) {
+    case 'duration':
+      return new Date(start.getTime() + policy.minutes * MINUTE_MS);
+    case 'date':
+      return policy.expiresAt;
+    case 'inactivity':
+      return new Date(start.getTime() + policy.days * DAY_MINUTES * MINUTE_MS);
+    case 'never':
+      return null;
+  }
+}
+
+/**
+ * Lifetime a policy allows from `start`, checked against the workspace
+ * maximum; an inactivity link counts one idle window. Null for never.
+ */
+export function policyMinutes(policy: ExpiryPolicy, start: Date): number | null {
+  switch (policy.type) {
+    case 'duration':
+      return policy.minutes;
+    case 'date':
+      return Math.ceil((policy.expiresAt.getTime() - start.getTime()) / MINUTE_MS);
+    case 'inactivity':
+      return policy.days * DAY_MINUTES;
+    case 'never':
+      return null;
+  }
+}
+
+/**
+ * Whether an existing link was given the expiry `policy` asks for, e.g. for
+ * dedupe: the same lifetime, expiry date or inactivity window, or never
+ */
+export function matchesExpiryPolicy(url: ShortUrl, policy: ExpiryPolicy): boolean {
+  switch (policy.type) {
+    case 'never':
+      return url.expiresAt === null && url.inactivityDays === null;
+    case 'inactivity':
+      return url.inactivityDays === policy.days;
+    case 'duration':
+      return url.inactivityDays === null && url.expiresAt !== null && url.validityMinutes === policy.minutes;
+    case 'date':
+      return url.inactivityDays === null && url.expiresAt?.getTime() === policy.expiresAt.getTime();
+  }
+}
+
+/**
+ * Expiry once a click at `clickedAt` is recorded; only inactivity links move.
+ * For these the workspace maximum bounds each idle window, checked when the
+ * link is created, not the total lifetime: a link that keeps getting clicks
+ * stays alive, which is the point of inactivity expiry.
+ */
+export function expiryAfterClick(url: ShortUrl, clickedAt: Date): Date | null {
+  if (!url.inactivityDays || url.expiresAt === null) {
+    return url.expiresAt;
+  }
+  const renewed = clickedAt.getTime() + url.inactivityDays * DAY_MINUTES * MINUTE_MS;
+  return renewed > url.expiresAt.getTime() ? new Date(renewed) : url.expiresAt;
+}
+
+/**
+ * Short description of how a link expires, e.g. "After 30 days without clicks"
+ */
+export function describeExpiryPolicy(url: ShortUrl): string {
+  if (url.expiresAt === null) {
+    return 'Never expires';
+  }
+  if (url.inactivityDays) {
+    return `After ${url.inactivityDays} day${url.inactivityDays !== 1 ? 's' : ''} without clicks`;
+  }
+  return `${url.validityMinutes} minutes`;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  StorageCorruptionError,
+  assertValidClickRecords,
+  assertValidUrlRecords,
+  checksumUrls,
+  computeChecksum,
+  stripRecordChecksums,
+  withRecordChecksum,
+} from './integrity';
+
+describe('computeChecksum', () => {
+  it('is stable and sensitive to any change', () => {
+    expect(computeChecksum('hello')).toBe(computeChecksum('hello'));
+    expect(computeChecksum('hello')).not.toBe(computeChecksum('hellp'));
+    expect(computeChecksum('')).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('checksums URL lists by their JSON form', () => {
+    const urls = [{ shortcode: 'a' }];
+    expect(checksumUrls(urls)).toBe(computeChecksum(JSON.stringify(urls)));
+  });
+});
+
+describe('assertValidUrlRecords', () => {
+  const valid = { shortcode: 'abc', originalUrl: 'https://example.com', createdAt: '2024-01-01', expiresAt: null };
+
+  it('accepts well-formed records, including ones that never expire', () => {
+    expect(() => assertValidUrlRecords([valid], 'test')).not.toThrow();
+  });
+
+  it('names the first malformed record', () => {
+    expect(() => assertValidUrlRecords([valid, { ...valid, createdAt: 'garbage' }], 'test'))
+      .toThrow(new StorageCorruptionError('Stored URL record #2 is malformed', 'test'));
+    expect(() => assertValidUrlRecords([null], 'test')).toThrow(StorageCorruptionError);
+  });
+});
+
+describe('record checksums', () => {
+  const record = { shortcode: 'abc', createdAt: new Date('2024-01-01T00:00:00Z') };
+
+  it('round-trips a record and replaces a stale checksum', () => {
+    const stamped = withRecordChecksum({ ...record, checksum: 'stale' });
+    expect(stamped.checksum).not.toBe('stale');
+    expect(stripRecordChecksums([stamped], 'test')).toEqual([record]);
+  });
+
+  it('rejects records that changed or lost their checksum', () => {
+    const stamped = withRecordChecksum(record);
+    expect(() => stripRecordChecksums([stamped, { ...stamped, shortcode: 'abd' }], 'test'))
+      .toThrow(new StorageCorruptionError('Stored URL record #2 does not match its checksum', 'test'));
+    expect(() => stripRecordChecksums([record], 'test')).toThrow(StorageCorruptionError);
+  });
+});
+
+describe('assertValidClickRecords', () => {
+  it('accepts clicks with an id, shortcode and timestamp', () => {
+    expect(() => assertValidClickRecords([{ id: 'c1', shortcode: 'abc', timestamp: '2024-01-01' }], 'test')).not.toThrow();
+  });
+
+  it('names the first malformed click', () => {
+    expect(() => assertValidClickRecords([{ id: 'c1', shortcode: 'abc' }], 'test'))
+      .toThrow(new StorageCorruptionError('Stored click record #1 is malformed', 'test'));
+  });
+});
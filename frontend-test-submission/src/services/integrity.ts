@@ -0,0 +1,102 @@
+import { ClickEvent, ShortUrl } from '../types';
+
+/**
+ * Integrity helpers for persisted URL data
+ * Checksums and structural checks used to detect corrupted storage on read
+ */
+
+/** Number of last-known-good snapshots kept per backend */
+export const MAX_SNAPSHOTS = 5;
+
+/**
+ * Thrown when stored data fails to parse or does not match its checksum
+ */
+export class StorageCorruptionError extends Error {
+  constructor(message: string, public readonly source: string) {
+    super(message);
+    this.name = 'StorageCorruptionError';
+  }
+}
+
+/**
+ * FNV-1a 32-bit hash of a string, hex encoded.
+ * Not cryptographic - it only needs to catch truncated or mangled payloads.
+ */
+export function computeChecksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Checksum of a URL list in its JSON form
+ */
+export function checksumUrls(urls: unknown[]): string {
+  return computeChecksum(JSON.stringify(urls));
+}
+
+/** A record stored with the checksum of its own JSON form */
+export type ChecksummedRecord<T> = T & { checksum?: string };
+
+/**
+ * Copy of `record` carrying the checksum of everything else in it, for
+ * stores that keep records one by one rather than in a single envelope
+ */
+export function withRecordChecksum<T extends object>(record: ChecksummedRecord<T>): T & { checksum: string } {
+  const { checksum: _, ...rest } = record;
+  return { ...(rest as T), checksum: computeChecksum(JSON.stringify(rest)) };
+}
+
+/**
+ * Verify and drop the checksum of each record read back one by one
+ */
+export function stripRecordChecksums<T extends object>(records: ChecksummedRecord<T>[], source: string): T[] {
+  return records.map((record, index) => {
+    const { checksum, ...rest } = record;
+    if (checksum !== computeChecksum(JSON.stringify(rest))) {
+      throw new StorageCorruptionError(`Stored URL record #${index + 1} does not match its checksum`, source);
+    }
+    return rest as T;
+  });
+}
+
+function isValidDate(value: unknown): boolean {
+  if (!(value instanceof Date) && typeof value !== 'string') return false;
+  return !Number.isNaN(new Date(value).getTime());
+}
+
+/**
+ * Verify every record has the fields the app cannot work without
+ */
+export function assertValidUrlRecords(urls: unknown[], source: string): asserts urls is ShortUrl[] {
+  const invalidIndex = urls.findIndex(record => {
+    if (!record || typeof record !== 'object') return true;
+    const url = record as Record<string, unknown>;
+    return typeof url.shortcode !== 'string' ||
+      typeof url.originalUrl !== 'string' ||
+      !isValidDate(url.createdAt) ||
+      (url.expiresAt !== null && !isValidDate(url.expiresAt));
+  });
+
+  if (invalidIndex !== -1) {
+    throw new StorageCorruptionError(`Stored URL record #${invalidIndex + 1} is malformed`, source);
+  }
+}
+
+/**
+ * Verify every click record can be counted and shown
+ */
+export function assertValidClickRecords(clicks: unknown[], source: string): asserts clicks is ClickEvent[] {
+  const invalidIndex = clicks.findIndex(record => {
+    if (!record || typeof record !== 'object') return true;
+    const click = record as Record<string, unknown>;
+    return typeof click.id !== 'string' || typeof click.shortcode !== 'string' || !isValidDate(click.timestamp);
+  });
+
+  if (invalidIndex !== -1) {
+    throw new StorageCorruptionError(`Stored click record #${invalidIndex + 1} is malformed`, source);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Thrown when no live link has the shortcode: it never existed, was purged,
+ * or is in the trash
+ */
+export class LinkNotFoundError extends Error {
+  constructor(public readonly shortcode: string) {
+    super(`Short URL "${shortcode}" does not exist`);
+    this.name = 'LinkNotFoundError';
+  }
+}
+
+/**
+ * Thrown when the owner has paused a link
+ */
+export class LinkPausedError extends Error {
+  constructor() {
+    super('This short URL has been paused by its owner');
+    this.name = 'LinkPausedError';
+  }
+}
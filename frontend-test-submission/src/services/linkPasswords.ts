@@ -0,0 +1,118 @@
+import { LinkPasswordHash } from '../types';
+import { fromBase64, toBase64 } from './encryption';
+
+/**
+ * Password protection for individual short links
+ * Only a salted PBKDF2 hash is stored with the link. Failed attempts are
+ * counted per browser session and lock the link out for a while.
+ */
+
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const ATTEMPTS_KEY = 'affordmed_link_password_attempts';
+
+/** Minimum length for a link password */
+export const MIN_LINK_PASSWORD_LENGTH = 4;
+export const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+interface AttemptRecord {
+  failures: number;
+  lockedUntil?: number;
+}
+
+/**
+ * Thrown by a redirect to a protected link when no password was given
+ */
+export class LinkPasswordRequiredError extends Error {
+  constructor() {
+    super('This short URL is password protected');
+    this.name = 'LinkPasswordRequiredError';
+  }
+}
+
+export class IncorrectLinkPasswordError extends Error {
+  constructor(public readonly attemptsLeft: number) {
+    super(`Incorrect password. ${attemptsLeft} attempt${attemptsLeft !== 1 ? 's' : ''} left.`);
+    this.name = 'IncorrectLinkPasswordError';
+  }
+}
+
+export class TooManyPasswordAttemptsError extends Error {
+  constructor(public readonly retryAt: Date) {
+    super(`Too many incorrect passwords. Try again after ${retryAt.toLocaleTimeString()}.`);
+    this.name = 'TooManyPasswordAttemptsError';
+  }
+}
+
+async function deriveHash(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, HASH_BITS);
+  return new Uint8Array(bits);
+}
+
+export async function hashLinkPassword(password: string): Promise<LinkPasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    hash: toBase64(await deriveHash(password, salt, PBKDF2_ITERATIONS)),
+  };
+}
+
+export async function verifyLinkPassword(password: string, stored: LinkPasswordHash): Promise<boolean> {
+  const expected = fromBase64(stored.hash);
+  const actual = await deriveHash(password, fromBase64(stored.salt), stored.iterations);
+
+  // Compare every byte so timing does not reveal how much matched
+  let difference = expected.length ^ actual.length;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected[i] ^ (actual[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+function readAttempts(): Record<string, AttemptRecord> {
+  try {
+    return JSON.parse(sessionStorage.getItem(ATTEMPTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writeAttempts(attempts: Record<string, AttemptRecord>): void {
+  sessionStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+}
+
+/**
+ * Throw if this session is locked out of the link
+ */
+export function assertPasswordAttemptAllowed(shortcode: string, now: number = Date.now()): void {
+  const record = readAttempts()[shortcode];
+  if (record?.lockedUntil && record.lockedUntil > now) {
+    throw new TooManyPasswordAttemptsError(new Date(record.lockedUntil));
+  }
+}
+
+/**
+ * Count a failed attempt; returns how many are left before a lockout
+ */
+export function recordFailedPasswordAttempt(shortcode: string, now: number = Date.now()): number {
+  const attempts = readAttempts();
+  const previous = attempts[shortcode];
+  // A lockout that has run out starts a fresh count
+  const failures = (previous?.lockedUntil && previous.lockedUntil <= now ? 0 : previous?.failures || 0) + 1;
+
+  attempts[shortcode] = failures >= MAX_FAILED_ATTEMPTS
+    ? { failures, lockedUntil: now + LOCKOUT_MS }
+    : { failures };
+  writeAttempts(attempts);
+  return Math.max(MAX_FAILED_ATTEMPTS - failures, 0);
+}
+
+export function clearPasswordAttempts(shortcode: string): void {
+  const attempts = readAttempts();
+  delete attempts[shortcode];
+  writeAttempts(attempts);
+}
@@ -0,0 +1,24 @@
+import { storageService } from './storage';
+import { getRetentionPolicy } from './clickRetention';
+import { getTrashPolicy } from './trash';
+import { logger } from '../middleware/logger';
+
+const STARTUP_DELAY_MS = 2000;
+
+/**
+ * Run storage housekeeping once the app has settled after startup.
+ * Every tab runs it; the storage write lock makes the extra runs no-ops.
+ */
+export function scheduleStartupMaintenance(): () => void {
+  const timer = setTimeout(async () => {
+    try {
+      const compacted = await storageService.compactClicks(getRetentionPolicy());
+      const purged = await storageService.purgeTrash(getTrashPolicy());
+      logger.info('maintenance', 'Startup maintenance completed', { compactedClicks: compacted, purgedUrls: purged });
+    } catch (error) {
+      logger.error('maintenance', 'Startup maintenance failed', { error: error.message });
+    }
+  }, STARTUP_DELAY_MS);
+
+  return () => clearTimeout(timer);
+}
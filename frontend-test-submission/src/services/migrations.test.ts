@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, PersistedRecord, SchemaVersionError, migratePayload, migrateRecords, toEnvelope } from './migrations';
+
+const CREATED = '2024-01-01T00:00:00.000Z';
+const EXPIRES = '2024-01-01T00:30:00.000Z';
+
+/** A link as the very first release stored it: a bare record with embedded clicks */
+function legacyUrl(overrides: PersistedRecord = {}): PersistedRecord {
+  return {
+    id: 'u1',
+    originalUrl: 'https://example.com/',
+    shortcode: 'abc123',
+    createdAt: CREATED,
+    expiresAt: EXPIRES,
+    ...overrides,
+  };
+}
+
+/** Upgrade one record from `version` and return it */
+function migrateOne(url: PersistedRecord, version: number): PersistedRecord {
+  return migratePayload({ version, urls: [url] }).urls[0];
+}
+
+describe('toEnvelope', () => {
+  it('treats a bare array as the unversioned format', () => {
+    expect(toEnvelope([legacyUrl()])).toEqual({ version: 0, urls: [legacyUrl()] });
+  });
+
+  it('keeps the version and checksum of an envelope', () => {
+    expect(toEnvelope({ version: 4, urls: [], checksum: 'abc' })).toEqual({ version: 4, urls: [], checksum: 'abc' });
+  });
+
+  it('rejects anything else', () => {
+    expect(() => toEnvelope({ urls: 'nope' })).toThrow('Unrecognized URL payload format');
+    expect(() => toEnvelope(null)).toThrow('Unrecognized URL payload format');
+  });
+});
+
+describe('migratePayload', () => {
+  it('upgrades an unversioned payload all the way to the current version', () => {
+    const migrated = migratePayload({ version: 0, urls: [legacyUrl()] });
+
+    expect(migrated.version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(migrated.urls[0]).toEqual({
+      ...legacyUrl(),
+      validityMinutes: 30,
+      isCustomShortcode: false,
+      clickCount: 0,
+      lastClickAt: undefined,
+      workspaceId: 'default',
+      isPaused: false,
+      deletedAt: null,
+      password: null,
+      maxClicks: null,
+      activatesAt: null,
+      activeHours: null,
+      redirectRules: [],
+      splitVariants: [],
+      passthrough: null,
+      inactivityDays: null,
+      fallbackUrl: null,
+      expiredMessage: null,
+    });
+  });
+
+  it('leaves a current payload untouched', () => {
+    const urls = [legacyUrl({ workspaceId: 'w1' })];
+    expect(migratePayload({ version: CURRENT_SCHEMA_VERSION, urls })).toEqual({
+      version: CURRENT_SCHEMA_VERSION,
+      urls,
+      clicks: [],
+    });
+  });
+
+  it('refuses data written by a newer version', () => {
+    expect(() => migratePayload({ version: CURRENT_SCHEMA_VERSION + 1, urls: [] })).toThrow(SchemaVersionError);
+  });
+
+  it('v1 derives validityMinutes and fills flags', () => {
+    const url = migrateOne(legacyUrl({ isCustomShortcode: 1 }), 0);
+    expect(url.validityMinutes).toBe(30);
+    expect(url.isCustomShortcode).toBe(true);
+    expect(migrateOne(legacyUrl({ validityMinutes: 45 }), 0).validityMinutes).toBe(45);
+  });
+
+  it('v2 moves embedded clicks into the click store and keeps counters', () => {
+    const clicks = [
+      { id: 'c1', timestamp: '2024-01-01T00:05:00.000Z', referrer: '' },
+      { id: 'c2', timestamp: '2024-01-01T00:10:00.000Z', referrer: '' },
+    ];
+    const migrated = migratePayload({
+      version: 1,
+      urls: [legacyUrl({ clicks })],
+      clicks: [{ id: 'c0', shortcode: 'abc123', timestamp: '2024-01-01T00:01:00.000Z' }],
+    });
+
+    expect(migrated.urls[0]).not.toHaveProperty('clicks');
+    expect(migrated.urls[0].clickCount).toBe(3);
+    expect(migrated.urls[0].lastClickAt).toBe('2024-01-01T00:10:00.000Z');
+    expect(migrated.clicks.map(click => click.id).sort()).toEqual(['c0', 'c1', 'c2']);
+    expect(migrated.clicks.every(click => click.shortcode === 'abc123')).toBe(true);
+  });
+
+  it('v3 assigns links to the default workspace unless they have one', () => {
+    expect(migrateOne(legacyUrl(), 2).workspaceId).toBe('default');
+    expect(migrateOne(legacyUrl({ workspaceId: 'w1' }), 2).workspaceId).toBe('w1');
+  });
+
+  it('v4 marks links as not paused', () => {
+    expect(migrateOne(legacyUrl(), 3).isPaused).toBe(false);
+    expect(migrateOne(legacyUrl({ isPaused: true }), 3).isPaused).toBe(true);
+  });
+
+  it('v5 marks links as not in the trash', () => {
+    expect(migrateOne(legacyUrl(), 4).deletedAt).toBeNull();
+    expect(migrateOne(legacyUrl({ deletedAt: EXPIRES }), 4).deletedAt).toBe(EXPIRES);
+  });
+
+  it('v6 leaves links without a password', () => {
+    expect(migrateOne(legacyUrl(), 5).password).toBeNull();
+  });
+
+  it('v7 gives links unlimited clicks', () => {
+    expect(migrateOne(legacyUrl(), 6).maxClicks).toBeNull();
+    expect(migrateOne(legacyUrl({ maxClicks: 1 }), 6).maxClicks).toBe(1);
+  });
+
+  it('v8 makes links active immediately and around the clock', () => {
+    const url = migrateOne(legacyUrl(), 7);
+    expect(url.activatesAt).toBeNull();
+    expect(url.activeHours).toBeNull();
+  });
+
+  it('v9 gives links no redirect rules', () => {
+    expect(migrateOne(legacyUrl(), 8).redirectRules).toEqual([]);
+  });
+
+  it('v10 gives links no A/B split', () => {
+    expect(migrateOne(legacyUrl(), 9).splitVariants).toEqual([]);
+  });
+
+  it('v11 turns passthrough off', () => {
+    expect(migrateOne(legacyUrl(), 10).passthrough).toBeNull();
+  });
+
+  it('v12 keeps a fixed expiry', () => {
+    expect(migrateOne(legacyUrl(), 11).inactivityDays).toBeNull();
+    expect(migrateOne(legacyUrl({ inactivityDays: 30 }), 11).inactivityDays).toBe(30);
+  });
+
+  it('v13 shows the default expired page', () => {
+    const url = migrateOne(legacyUrl(), 12);
+    expect(url.fallbackUrl).toBeNull();
+    expect(url.expiredMessage).toBeNull();
+  });
+
+  it('only runs the migrations newer than the stored version', () => {
+    // v4 would reset a missing isPaused, but this record is already past it
+    const url = migrateOne(legacyUrl(), 4);
+    expect(url).not.toHaveProperty('isPaused');
+    expect(url.deletedAt).toBeNull();
+  });
+});
+
+describe('migrateRecords', () => {
+  it('upgrades loose records from the given version', () => {
+    const [url] = migrateRecords([legacyUrl({ workspaceId: 'w2', isPaused: true })], 8);
+    expect(url).toMatchObject({ workspaceId: 'w2', isPaused: true, redirectRules: [], fallbackUrl: null });
+  });
+
+  it('leaves current records as they are', () => {
+    const current = legacyUrl();
+    expect(migrateRecords([current], CURRENT_SCHEMA_VERSION)).toEqual([current]);
+  });
+
+  it('refuses records from a newer schema', () => {
+    expect(() => migrateRecords([legacyUrl()], CURRENT_SCHEMA_VERSION + 1)).toThrow(SchemaVersionError);
+  });
+});
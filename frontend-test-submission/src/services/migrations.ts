@@ -0,0 +1,286 @@
+import { logger } from '../middleware/logger';
+
+/**
+ * Schema versioning for persisted short URL data
+ * Every payload is stored as `{ version, urls }`; older payloads are upgraded
+ * on load by running the registered migrations in order.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 13;
+
+export type PersistedRecord = Record<string, unknown>;
+
+export interface UrlPayloadEnvelope {
+  version: number;
+  urls: PersistedRecord[];
+  /** Click events, which the backends persist outside the URL payload */
+  clicks?: PersistedRecord[];
+  checksum?: string;
+}
+
+interface MigrationPayload {
+  urls: PersistedRecord[];
+  clicks: PersistedRecord[];
+}
+
+interface SchemaMigration {
+  /** Version the payload is at after this migration has run */
+  version: number;
+  description: string;
+  migrate: (payload: MigrationPayload) => MigrationPayload;
+}
+
+function toTime(value: unknown): number {
+  return new Date(value as string | Date).getTime();
+}
+
+/**
+ * Thrown when stored data was written by a newer version of the app
+ */
+export class SchemaVersionError extends Error {
+  constructor(public readonly storedVersion: number) {
+    super(
+      `Stored data uses schema version ${storedVersion}, but this app only supports up to version ${CURRENT_SCHEMA_VERSION}. ` +
+      'Please update the app instead of downgrading your data.'
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/**
+ * Ordered migration registry - append new entries, never edit shipped ones
+ */
+const migrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Wrap legacy URL array in a versioned envelope and fill missing fields',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => {
+        const createdAt = new Date(url.createdAt as string | Date);
+        const expiresAt = new Date(url.expiresAt as string | Date);
+
+        return {
+          ...url,
+          clicks: Array.isArray(url.clicks) ? url.clicks : [],
+          isCustomShortcode: Boolean(url.isCustomShortcode),
+          validityMinutes: typeof url.validityMinutes === 'number'
+            ? url.validityMinutes
+            : Math.round((expiresAt.getTime() - createdAt.getTime()) / 60000),
+        };
+      }),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Move embedded click events into the click store and keep only counters on URLs',
+    migrate: ({ urls, clicks }) => {
+      const byId = new Map<unknown, PersistedRecord>(clicks.map(click => [click.id, click]));
+      urls.forEach(url => {
+        const embedded = Array.isArray(url.clicks) ? url.clicks as PersistedRecord[] : [];
+        embedded.forEach(click => byId.set(click.id, { ...click, shortcode: url.shortcode }));
+      });
+      const allClicks = Array.from(byId.values());
+
+      const counters = new Map<unknown, { count: number; last: PersistedRecord | null }>();
+      allClicks.forEach(click => {
+        const counter = counters.get(click.shortcode) || { count: 0, last: null };
+        counter.count++;
+        if (!counter.last || toTime(click.timestamp) > toTime(counter.last.timestamp)) {
+          counter.last = click;
+        }
+        counters.set(click.shortcode, counter);
+      });
+
+      return {
+        clicks: allClicks,
+        urls: urls.map(({ clicks: _, ...url }) => {
+          const counter = counters.get(url.shortcode);
+          return {
+            ...url,
+            clickCount: counter ? counter.count : 0,
+            lastClickAt: counter?.last ? counter.last.timestamp : undefined,
+          };
+        }),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Assign existing URLs to the default workspace',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({
+        ...url,
+        workspaceId: typeof url.workspaceId === 'string' ? url.workspaceId : 'default',
+      })),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Mark existing URLs as not paused',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, isPaused: Boolean(url.isPaused) })),
+    }),
+  },
+  {
+    version: 5,
+    description: 'Mark existing URLs as not in the trash',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, deletedAt: url.deletedAt ?? null })),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Mark existing URLs as not password protected',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, password: url.password ?? null })),
+    }),
+  },
+  {
+    version: 7,
+    description: 'Give existing URLs unlimited clicks',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, maxClicks: url.maxClicks ?? null })),
+    }),
+  },
+  {
+    version: 8,
+    description: 'Make existing URLs active immediately and around the clock',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({
+        ...url,
+        activatesAt: url.activatesAt ?? null,
+        activeHours: url.activeHours ?? null,
+      })),
+    }),
+  },
+  {
+    version: 9,
+    description: 'Give existing URLs no redirect rules',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, redirectRules: url.redirectRules ?? [] })),
+    }),
+  },
+  {
+    version: 10,
+    description: 'Give existing URLs no A/B split',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, splitVariants: url.splitVariants ?? [] })),
+    }),
+  },
+  {
+    version: 11,
+    description: 'Turn off query and path passthrough for existing URLs',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, passthrough: url.passthrough ?? null })),
+    }),
+  },
+  {
+    version: 12,
+    description: 'Keep fixed expiry for existing URLs (no inactivity expiry)',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({ ...url, inactivityDays: url.inactivityDays ?? null })),
+    }),
+  },
+  {
+    version: 13,
+    description: 'Show the default expired page for existing URLs',
+    migrate: ({ urls, clicks }) => ({
+      clicks,
+      urls: urls.map(url => ({
+        ...url,
+        fallbackUrl: url.fallbackUrl ?? null,
+        expiredMessage: url.expiredMessage ?? null,
+      })),
+    }),
+  },
+];
+
+function runMigrations(
+  payload: MigrationPayload,
+  fromVersion: number,
+  onStep?: (from: number, migration: SchemaMigration, count: number) => void
+): { version: number; payload: MigrationPayload } {
+  let version = fromVersion;
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    onStep?.(version, migration, payload.urls.length);
+    payload = migration.migrate(payload);
+    version = migration.version;
+  }
+  return { version, payload };
+}
+
+/**
+ * Upgrade URL records kept outside the main payload, such as copies inside
+ * history events or encrypted blobs, from `fromVersion` to the current one.
+ * Quiet, since it runs on every read of those records.
+ */
+export function migrateRecords(urls: PersistedRecord[], fromVersion: number): PersistedRecord[] {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+  return runMigrations({ urls, clicks: [] }, fromVersion).payload.urls;
+}
+
+/**
+ * Normalize whatever was read from storage into an envelope.
+ * A bare array is the pre-versioning (version 0) format.
+ */
+export function toEnvelope(raw: unknown): UrlPayloadEnvelope {
+  if (Array.isArray(raw)) {
+    return { version: 0, urls: raw };
+  }
+
+  if (raw && typeof raw === 'object') {
+    const { version, urls, checksum } = raw as Partial<UrlPayloadEnvelope>;
+    if (Number.isInteger(version) && Array.isArray(urls)) {
+      return { version, urls, checksum };
+    }
+  }
+
+  throw new Error('Unrecognized URL payload format');
+}
+
+/**
+ * Upgrade an envelope to CURRENT_SCHEMA_VERSION, logging every step
+ */
+export function migratePayload(envelope: UrlPayloadEnvelope): UrlPayloadEnvelope {
+  if (envelope.version > CURRENT_SCHEMA_VERSION) {
+    logger.error('storage', 'Refusing to downgrade data written by a newer app version', {
+      storedVersion: envelope.version,
+      supportedVersion: CURRENT_SCHEMA_VERSION,
+    });
+    throw new SchemaVersionError(envelope.version);
+  }
+
+  const { version, payload } = runMigrations(
+    { urls: envelope.urls, clicks: envelope.clicks || [] },
+    envelope.version,
+    (from, migration, count) => logger.info('storage', 'Applying schema migration', {
+      from,
+      to: migration.version,
+      description: migration.description,
+      count,
+    })
+  );
+
+  if (version !== envelope.version) {
+    logger.info('storage', 'Schema migration completed', {
+      from: envelope.version,
+      to: version,
+    });
+  }
+
+  return { version, ...payload };
+}
@@ -0,0 +1,116 @@
+import { PassthroughSettings, QueryConflictPolicy } from '../types';
+import { joinUrl, mergeQuery, parseQueryPairs, splitUrl } from './queryStrings';
+
+/**
+ * Forwarding the visitor's query string and extra path to the destination
+ */
+
+/**
+ * The parts of the visited short URL beyond the shortcode
+ */
+export interface IncomingRequest {
+  /** Raw query string, with or without the leading "?" */
+  query: string;
+  /** Path after the shortcode, e.g. "guide/install"; empty for none */
+  path: string;
+}
+
+export const DEFAULT_PASSTHROUGH: PassthroughSettings = {
+  forwardQuery: true,
+  conflictPolicy: 'destination',
+  wildcardPath: false,
+};
+
+export const CONFLICT_POLICY_LABELS: Record<QueryConflictPolicy, string> = {
+  destination: "Destination's value wins",
+  incoming: "Visitor's value wins",
+  both: 'Keep both',
+};
+
+/**
+ * Thrown when a visit has extra path segments the link cannot forward
+ */
+export class UnexpectedPathError extends Error {
+  /** @param path set when the link takes extra paths but not this one */
+  constructor(shortcode: string, path?: string) {
+    super(path
+      ? `Short URL "${shortcode}" cannot forward the path "${path}"`
+      : `Short URL "${shortcode}" does not accept extra path segments`);
+    this.name = 'UnexpectedPathError';
+  }
+}
+
+/**
+ * Decoded, non-empty path segments; dot segments are refused so a visitor
+ * cannot climb out of the destination's path
+ */
+function pathSegments(path: string): string[] | null {
+  const segments = path.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  return segments.some(segment => segment === '.' || segment === '..' || segment.includes('/'))
+    ? null
+    : segments;
+}
+
+export function hasExtraPath(incoming: IncomingRequest | undefined): boolean {
+  return Boolean(incoming && incoming.path.split('/').some(Boolean));
+}
+
+/**
+ * Destination with the visitor's extra path and query applied as the link's
+ * settings allow. Throws UnexpectedPathError for a path the link cannot take.
+ */
+export function applyPassthrough(
+  shortcode: string,
+  destination: string,
+  settings: PassthroughSettings | null,
+  incoming: IncomingRequest | undefined
+): string {
+  if (!incoming) return destination;
+
+  let result = destination;
+  if (hasExtraPath(incoming)) {
+    if (!settings?.wildcardPath) {
+      throw new UnexpectedPathError(shortcode);
+    }
+    const segments = pathSegments(incoming.path);
+    if (!segments) {
+      throw new UnexpectedPathError(shortcode, incoming.path);
+    }
+    const parts = splitUrl(result);
+    const base = parts.base.replace(/\/+$/, '');
+    result = joinUrl({ ...parts, base: `${base}/${segments.map(encodeURIComponent).join('/')}` });
+  }
+
+  if (settings?.forwardQuery) {
+    result = mergeQuery(result, parseQueryPairs(incoming.query), settings.conflictPolicy);
+  }
+  return result;
+}
+
+/**
+ * Whether two links forward queries and paths the same way; null is off
+ */
+export function samePassthrough(a: PassthroughSettings | null, b: PassthroughSettings | null): boolean {
+  if (!a || !b) return a === b;
+  return a.forwardQuery === b.forwardQuery && a.conflictPolicy === b.conflictPolicy && a.wildcardPath === b.wildcardPath;
+}
+
+/**
+ * Short human description, e.g. "Query (visitor's value wins), wildcard paths"
+ */
+export function describePassthrough(settings: PassthroughSettings): string {
+  const parts: string[] = [];
+  if (settings.forwardQuery) {
+    parts.push(`Query (${CONFLICT_POLICY_LABELS[settings.conflictPolicy].toLowerCase()})`);
+  }
+  if (settings.wildcardPath) {
+    parts.push(parts.length > 0 ? 'wildcard paths' : 'Wildcard paths');
+  }
+  return parts.join(', ') || 'Off';
+}
@@ -0,0 +1,75 @@
+import { QueryConflictPolicy } from '../types';
+
+/**
+ * Query-string merging that leaves existing parameters exactly as written
+ * Pairs are handled as raw `key=value` strings so nothing is re-encoded;
+ * only keys are decoded to compare them.
+ */
+
+export interface UrlParts {
+  /** Everything before the query string, e.g. "https://a.com/path" */
+  base: string;
+  /** Raw `key=value` pairs, without the leading "?" */
+  pairs: string[];
+  /** Including the leading "#", or empty */
+  fragment: string;
+}
+
+export function splitUrl(url: string): UrlParts {
+  const hashIndex = url.indexOf('#');
+  const fragment = hashIndex >= 0 ? url.slice(hashIndex) : '';
+  const beforeFragment = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = beforeFragment.indexOf('?');
+
+  return {
+    base: queryIndex >= 0 ? beforeFragment.slice(0, queryIndex) : beforeFragment,
+    pairs: queryIndex >= 0 ? parseQueryPairs(beforeFragment.slice(queryIndex + 1)) : [],
+    fragment,
+  };
+}
+
+export function joinUrl({ base, pairs, fragment }: UrlParts): string {
+  return `${base}${pairs.length > 0 ? `?${pairs.join('&')}` : ''}${fragment}`;
+}
+
+/**
+ * Raw pairs of a query string, with or without its leading "?"
+ */
+export function parseQueryPairs(query: string): string[] {
+  return query.replace(/^\?/, '').split('&').filter(pair => pair !== '');
+}
+
+export function pairKey(pair: string): string {
+  const key = pair.split('=')[0];
+  try {
+    return decodeURIComponent(key.replace(/\+/g, ' '));
+  } catch {
+    return key;
+  }
+}
+
+export function encodePair(key: string, value: string): string {
+  return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+}
+
+/**
+ * Merge `incoming` pairs into the URL's query string.
+ * On a key present in both, 'destination' keeps the URL's own value,
+ * 'incoming' replaces it, and 'both' keeps every pair.
+ */
+export function mergeQuery(url: string, incoming: string[], policy: QueryConflictPolicy): string {
+  if (incoming.length === 0) return url;
+
+  const parts = splitUrl(url);
+  const incomingKeys = new Set(incoming.map(pairKey));
+  const ownKeys = new Set(parts.pairs.map(pairKey));
+
+  const kept = policy === 'incoming'
+    ? parts.pairs.filter(pair => !incomingKeys.has(pairKey(pair)))
+    : parts.pairs;
+  const added = policy === 'destination'
+    ? incoming.filter(pair => !ownKeys.has(pairKey(pair)))
+    : incoming;
+
+  return joinUrl({ ...parts, pairs: [...kept, ...added] });
+}
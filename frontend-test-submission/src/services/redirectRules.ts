@@ -0,0 +1,82 @@
+import { DeviceType, RedirectRule, RuleCondition } from '../types';
+import { isWithinActiveHours, describeActiveHours } from './schedules';
+
+/**
+ * Conditional redirect rules
+ * A link's rules are checked in order; the first whose condition matches the
+ * visitor decides the destination, otherwise the link's own URL is used.
+ */
+
+/**
+ * What is known about the visitor at redirect time
+ */
+export interface RedirectContext {
+  userAgent: string;
+  /** Preferred languages, most preferred first, e.g. ["de-AT", "de", "en"] */
+  languages: readonly string[];
+  country?: string;
+  countryCode?: string;
+  now: Date;
+}
+
+export const DEVICE_LABELS: Record<DeviceType, string> = {
+  ios: 'iOS',
+  android: 'Android',
+  desktop: 'Desktop',
+};
+
+export function detectDevice(userAgent: string): DeviceType {
+  if (/iPhone|iPad|iPod/i.test(userAgent)) return 'ios';
+  if (/Android/i.test(userAgent)) return 'android';
+  return 'desktop';
+}
+
+/**
+ * "pt" matches "pt-BR"; "pt-BR" only matches itself
+ */
+function matchesLanguage(wanted: string, language: string): boolean {
+  const a = wanted.toLowerCase();
+  const b = language.toLowerCase();
+  return a === b || b.startsWith(`${a}-`);
+}
+
+export function conditionMatches(condition: RuleCondition, context: RedirectContext): boolean {
+  switch (condition.type) {
+    case 'device':
+      return condition.devices.includes(detectDevice(context.userAgent));
+    case 'language':
+      return condition.languages.some(wanted => context.languages.some(language => matchesLanguage(wanted, language)));
+    case 'country': {
+      // Rules may name either the country or its ISO code
+      const visitor = [context.country, context.countryCode]
+        .filter((value): value is string => Boolean(value))
+        .map(value => value.toLowerCase());
+      return condition.countries.some(country => visitor.includes(country.trim().toLowerCase()));
+    }
+    case 'time':
+      return isWithinActiveHours(condition.hours, context.now);
+  }
+}
+
+/**
+ * First rule matching the visitor, or null to use the default destination
+ */
+export function matchRedirectRule(rules: RedirectRule[], context: RedirectContext): RedirectRule | null {
+  return rules.find(rule => conditionMatches(rule.condition, context)) || null;
+}
+
+/**
+ * Short human description of a condition, e.g. "Device is iOS or Android"
+ */
+export function describeCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case 'device':
+      return `Device is ${condition.devices.map(device => DEVICE_LABELS[device]).join(' or ')}`;
+    case 'language':
+      return `Language is ${condition.languages.join(' or ')}`;
+    case 'country':
+      return `Country is ${condition.countries.join(' or ')}`;
+    case 'time':
+      return `Time is ${describeActiveHours(condition.hours)}`;
+  }
+}
@@ -0,0 +1,131 @@
+import { ActiveHours, ShortUrl } from '../types';
+
+/**
+ * Activation schedules for short links
+ * A link can go live at a later `activatesAt`, and can be limited to
+ * recurring weekly windows (e.g. weekdays 09:00-17:00) in a time zone.
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTE_MS = 60 * 1000;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Each jump lands on the next window start; extra rounds absorb DST shifts
+const MAX_SEARCH_STEPS = 16;
+
+/**
+ * Thrown when a link exists but is outside its schedule
+ */
+export class LinkNotYetActiveError extends Error {
+  /** @param opensAt when the link next becomes available; null if it never will */
+  constructor(public readonly opensAt: Date | null) {
+    super(opensAt ? `This short URL opens at ${opensAt.toLocaleString()}` : 'This short URL is not currently available');
+    this.name = 'LinkNotYetActiveError';
+  }
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight, or null if malformed
+ */
+export function parseTimeOfDay(value: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Weekday (0 = Sunday) and minutes after midnight of `date` in `timeZone`
+ */
+function zonedTime(date: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+export function isWithinActiveHours(hours: ActiveHours, date: Date): boolean {
+  const { day, minutes } = zonedTime(date, hours.timeZone);
+  return hours.windows.some(window =>
+    window.days.includes(day) &&
+    minutes >= parseTimeOfDay(window.start)! &&
+    minutes < parseTimeOfDay(window.end)!
+  );
+}
+
+/**
+ * Minutes from the zoned `day`/`minutes` until the next window start
+ */
+function minutesUntilNextWindow(hours: ActiveHours, day: number, minutes: number): number | null {
+  let best: number | null = null;
+  hours.windows.forEach(window => {
+    const start = parseTimeOfDay(window.start)!;
+    window.days.forEach(windowDay => {
+      let delta = ((windowDay - day + 7) % 7) * MINUTES_PER_DAY + start - minutes;
+      if (delta <= 0) delta += 7 * MINUTES_PER_DAY;
+      if (best === null || delta < best) best = delta;
+    });
+  });
+  return best;
+}
+
+function nextActiveHoursOpening(hours: ActiveHours, from: Date): Date | null {
+  let candidate = new Date(Math.ceil(from.getTime() / MINUTE_MS) * MINUTE_MS);
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (isWithinActiveHours(hours, candidate)) {
+      return candidate;
+    }
+    const { day, minutes } = zonedTime(candidate, hours.timeZone);
+    const delta = minutesUntilNextWindow(hours, day, minutes);
+    if (delta === null) return null;
+    candidate = new Date(candidate.getTime() + delta * MINUTE_MS);
+  }
+  return null;
+}
+
+/**
+ * Whether the link's schedule lets it redirect at `now`, and if not, when it
+ * next opens (null if it never will before expiring)
+ */
+export function scheduleAvailability(url: ShortUrl, now: Date = new Date()): { available: boolean; opensAt: Date | null } {
+  const activatesAt = url.activatesAt && url.activatesAt > now ? url.activatesAt : null;
+  const hours = url.activeHours;
+
+  if (!activatesAt && (!hours || isWithinActiveHours(hours, now))) {
+    return { available: true, opensAt: null };
+  }
+
+  const from = activatesAt || now;
+  const opensAt = hours ? nextActiveHoursOpening(hours, from) : from;
+  return { available: false, opensAt: opensAt && (url.expiresAt === null || opensAt < url.expiresAt) ? opensAt : null };
+}
+
+/**
+ * Short human description of recurring windows, e.g. "Mon-Fri 09:00-17:00 (Europe/Berlin)"
+ */
+export function describeActiveHours(hours: ActiveHours): string {
+  const windows = hours.windows.map(window => {
+    const days = [...window.days].sort();
+    const contiguous = days.length > 2 && days.every((day, i) => i === 0 || day === days[i - 1] + 1);
+    const dayLabel = contiguous
+      ? `${WEEKDAYS[days[0]]}-${WEEKDAYS[days[days.length - 1]]}`
+      : days.map(day => WEEKDAYS[day]).join(', ');
+    return `${dayLabel} ${window.start}-${window.end}`;
+  });
+  return `${windows.join('; ')} (${hours.timeZone})`;
+}
@@ -0,0 +1,40 @@
+import { ShortUrl, ClickEvent, StorageEvent } from '../types';
+
+/**
+ * Turning JSON-parsed records back into app objects
+ * Dates come back from JSON as strings; every ShortUrl date field is listed
+ * here so each store revives them the same way.
+ */
+
+const URL_DATE_FIELDS = ['createdAt', 'expiresAt', 'lastClickAt', 'deletedAt', 'activatesAt'] as const;
+
+function toDate(value: unknown): Date {
+  return value instanceof Date ? value : new Date(value as string);
+}
+
+/**
+ * Revive the date fields present on a full or partial URL record
+ */
+export function reviveUrl<T extends Partial<ShortUrl>>(record: T): T {
+  const revived = { ...record };
+  URL_DATE_FIELDS.forEach(field => {
+    if (revived[field] !== undefined && revived[field] !== null) {
+      (revived as Record<string, unknown>)[field] = toDate(revived[field]);
+    }
+  });
+  return revived;
+}
+
+export function reviveClick(record: ClickEvent): ClickEvent {
+  return { ...record, timestamp: toDate(record.timestamp) };
+}
+
+export function reviveEvent(record: StorageEvent): StorageEvent {
+  return {
+    ...record,
+    timestamp: toDate(record.timestamp),
+    urls: record.urls?.map(url => reviveUrl(url)),
+    changes: record.changes ? reviveUrl(record.changes) : undefined,
+    clickedAt: record.clickedAt ? toDate(record.clickedAt) : undefined,
+  };
+}
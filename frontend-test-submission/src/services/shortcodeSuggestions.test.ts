@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { shortcodeCandidates } from './shortcodeSuggestions';
+
+describe('shortcodeCandidates', () => {
+  it('swaps whole words for synonyms, keeping their case', () => {
+    const candidates = shortcodeCandidates('summerSale');
+    expect(candidates).toEqual(expect.arrayContaining(['summerPromo', 'summerOffer', 'summerDeal']));
+    expect(shortcodeCandidates('PROMO')).toContain('OFFER');
+  });
+
+  it('leaves words that merely contain a synonym alone', () => {
+    ['target', 'budget', 'newsletter'].forEach(desired => {
+      const candidates = shortcodeCandidates(desired);
+      expect(candidates.filter(candidate => !/\d$/.test(candidate)).every(candidate => candidate.length <= desired.length)).toBe(true);
+      expect(candidates.some(candidate => /download|updates/i.test(candidate))).toBe(false);
+    });
+  });
+
+  it('offers each abbreviation once and none too short to use', () => {
+    const abbreviations = shortcodeCandidates('target').filter(candidate => !/\d$/.test(candidate));
+    expect(abbreviations).toEqual(['trgt']);
+    expect(shortcodeCandidates('summerSale')).not.toContain('sS');
+  });
+
+  it('counts on from a trailing number', () => {
+    expect(shortcodeCandidates('launch7').slice(0, 1)).toEqual(['launch8']);
+  });
+});
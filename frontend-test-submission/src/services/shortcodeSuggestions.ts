@@ -0,0 +1,105 @@
+import { MAX_SHORTCODE_LENGTH, shortcodeWords } from './shortcodes';
+
+/**
+ * Alternatives for a custom shortcode that is already taken
+ * Candidates are built from the desired code alone: synonyms from a small
+ * local list, abbreviations, and numeric suffixes. The caller drops the ones
+ * that are invalid, blocked or in use.
+ */
+
+/**
+ * Words people commonly put in shortcodes; every word in a group can stand
+ * in for the others
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ['promo', 'offer', 'deal', 'sale'],
+  ['discount', 'save', 'coupon'],
+  ['shop', 'store'],
+  ['news', 'updates'],
+  ['blog', 'posts', 'articles'],
+  ['info', 'about', 'details'],
+  ['help', 'support', 'faq'],
+  ['contact', 'reach'],
+  ['jobs', 'careers', 'hiring'],
+  ['event', 'meetup'],
+  ['signup', 'join', 'register'],
+  ['login', 'signin'],
+  ['docs', 'guide'],
+  ['launch', 'release'],
+  ['download', 'get'],
+  ['video', 'watch'],
+  ['free', 'gift'],
+];
+
+/**
+ * Thrown when a custom shortcode is taken; carries available alternatives
+ */
+export class ShortcodeTakenError extends Error {
+  constructor(public readonly shortcode: string, public readonly suggestions: string[]) {
+    super(`Shortcode "${shortcode}" is already in use`);
+    this.name = 'ShortcodeTakenError';
+  }
+}
+
+/** Match the case of the word replaced, e.g. Promo -> Offer, PROMO -> OFFER */
+function matchCase(original: string, word: string): string {
+  if (original === original.toUpperCase()) return word.toUpperCase();
+  return original[0] === original[0].toUpperCase() ? word[0].toUpperCase() + word.slice(1) : word;
+}
+
+/** Shortest abbreviation worth offering; shorter ones fail validation anyway */
+const MIN_ABBREVIATION_LENGTH = 3;
+
+/**
+ * Swap whole words only, so "target" never becomes "tardownload"; words
+ * are split on camelCase and digit boundaries, e.g. summerSale2024
+ */
+function synonymsOf(desired: string): string[] {
+  const words = shortcodeWords(desired);
+  return words.flatMap((word, index) => {
+    const group = SYNONYM_GROUPS.find(candidates => candidates.includes(word.toLowerCase()));
+    if (!group) return [];
+    return group
+      .filter(other => other !== word.toLowerCase())
+      .map(other => [...words.slice(0, index), matchCase(word, other), ...words.slice(index + 1)].join(''));
+  });
+}
+
+function abbreviationsOf(desired: string): string[] {
+  const words = shortcodeWords(desired);
+  const abbreviations = [
+    desired[0] + desired.slice(1).replace(/[aeiou]/gi, ''),
+    words.map(word => word[0] + word.slice(1).replace(/[aeiou]/gi, '')).join(''),
+    words.map(word => (/^\d+$/.test(word) ? word : word[0])).join(''),
+  ];
+  return Array.from(new Set(abbreviations))
+    .filter(abbreviation => abbreviation !== desired && abbreviation.length >= MIN_ABBREVIATION_LENGTH);
+}
+
+/**
+ * Numbered variants; a code already ending in a number counts on from it
+ */
+function suffixesOf(desired: string): string[] {
+  const [, stem, digits] = desired.match(/^(.*?)(\d*)$/);
+  const start = digits ? parseInt(digits, 10) + 1 : 2;
+  return Array.from({ length: 98 }, (_, i) => {
+    const suffix = String(start + i);
+    return stem.slice(0, MAX_SHORTCODE_LENGTH - suffix.length) + suffix;
+  });
+}
+
+/**
+ * Every candidate for `desired`, best first; the three kinds take turns so
+ * the first few already show a mix
+ */
+export function shortcodeCandidates(desired: string): string[] {
+  const lists = [suffixesOf(desired), synonymsOf(desired), abbreviationsOf(desired)];
+  const longest = Math.max(...lists.map(list => list.length));
+  const candidates: string[] = [];
+  for (let i = 0; i < longest; i++) {
+    lists.forEach(list => {
+      if (i < list.length) candidates.push(list[i]);
+    });
+  }
+  return candidates;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SHORTCODE_GENERATORS,
+  lengthFor,
+  setShortcodeAllowlist,
+  setShortcodeBlocklist,
+  shortcodeRejection,
+  shortcodeWords,
+} from './shortcodes';
+
+describe('shortcodeWords', () => {
+  it('splits on camelCase and digit boundaries', () => {
+    expect(shortcodeWords('summerSale2024')).toEqual(['summer', 'Sale', '2024']);
+    expect(shortcodeWords('PDFGuide')).toEqual(['PDF', 'Guide']);
+  });
+});
+
+describe('shortcodeRejection', () => {
+  it('rejects app route names in any case', () => {
+    expect(shortcodeRejection('Statistics')).toMatch(/reserved/);
+  });
+
+  it('rejects blocked terms anywhere in the code, including lowercase joins', () => {
+    expect(shortcodeRejection('fuckyou')).toMatch(/blocked/);
+    expect(shortcodeRejection('shitdeal')).toMatch(/blocked/);
+    expect(shortcodeRejection('affordmedsale')).toMatch(/blocked/);
+    expect(shortcodeRejection('AFFORDMEDsale')).toMatch(/blocked/);
+    expect(shortcodeRejection('sale2024')).toBeNull();
+  });
+
+  it('lets blocked terms through only inside allowed words', () => {
+    setShortcodeBlocklist(['spam', 'ass']);
+    expect(shortcodeRejection('buySpam')).toMatch(/blocked/);
+    expect(shortcodeRejection('classic')).toBeNull();
+    expect(shortcodeRejection('passport')).toBeNull();
+    // Allowed in one place, blocked in another
+    expect(shortcodeRejection('classass')).toMatch(/blocked/);
+
+    setShortcodeAllowlist([]);
+    expect(shortcodeRejection('classic')).toMatch(/blocked/);
+  });
+
+  it('accepts only alphanumeric allowed words', () => {
+    expect(setShortcodeAllowlist([' Class ', 'class', ''])).toEqual(['class']);
+    expect(() => setShortcodeAllowlist(['first-class'])).toThrow('Allowed word "first-class" can only contain letters and numbers');
+  });
+});
+
+describe('SHORTCODE_GENERATORS', () => {
+  it('produces codes of the requested length', async () => {
+    for (const generator of Object.values(SHORTCODE_GENERATORS)) {
+      for (const length of [4, 6, 11]) {
+        expect(await generator.next(length)).toHaveLength(length);
+      }
+    }
+  });
+
+  it('never hands out the same sequential code twice, even concurrently', async () => {
+    const codes = await Promise.all(Array.from({ length: 20 }, () => SHORTCODE_GENERATORS.sequential.next(6)));
+    expect(new Set(codes).size).toBe(20);
+    expect(codes.slice().sort()[0]).toBe('000000');
+  });
+
+  it('builds pronounceable codes from whole words', async () => {
+    const code = await SHORTCODE_GENERATORS.pronounceable.next(8);
+    const [first] = shortcodeWords(code);
+    expect(first.length).toBeGreaterThanOrEqual(3);
+    expect(code).toMatch(/^([A-Z][a-z]{2,4})+\d{0,2}$/);
+  });
+
+  it('grows the length as the keyspace fills', () => {
+    const generator = SHORTCODE_GENERATORS.random;
+    expect(lengthFor(generator, 4, 0)).toBe(4);
+    expect(lengthFor(generator, 4, generator.keyspace(4))).toBeGreaterThan(4);
+  });
+});
@@ -0,0 +1,374 @@
+import { logger } from '../middleware/logger';
+import { APP_ROUTES } from '../routes';
+import { crossTab } from './crossTab';
+
+/**
+ * Shortcode generation strategies
+ * A generator only proposes candidates; the caller checks them against the
+ * codes already taken and retries. Codes get longer once the store fills too
+ * much of the current length's keyspace, and every candidate is counted per
+ * strategy so collision rates can be compared. Custom and generated codes
+ * alike must avoid app route names and the configurable blocklist.
+ */
+
+export type ShortcodeStrategy = 'random' | 'sequential' | 'readable' | 'pronounceable';
+
+export interface ShortcodeGenerator {
+  readonly strategy: ShortcodeStrategy;
+  readonly label: string;
+  /** What a code looks like, for settings screens */
+  readonly example: string;
+  /** Distinct codes the generator can produce at `length` */
+  keyspace(length: number): number;
+  next(length: number): Promise<string>;
+}
+
+export interface ShortcodePolicy {
+  strategy: ShortcodeStrategy;
+  /** Codes start at this length and grow from there */
+  minLength: number;
+}
+
+export interface ShortcodeMetrics {
+  /** Candidates proposed, including ones that collided */
+  attempts: number;
+  collisions: number;
+  /** Length of the most recent candidate */
+  lastLength: number;
+}
+
+const POLICY_KEY = 'affordmed_shortcode_policy';
+const METRICS_KEY = 'affordmed_shortcode_metrics';
+const COUNTER_KEY = 'affordmed_shortcode_counter';
+const BLOCKLIST_KEY = 'affordmed_shortcode_blocklist';
+const ALLOWLIST_KEY = 'affordmed_shortcode_allowlist';
+
+/** Shortest and longest generated codes; custom shortcodes allow 3-20 */
+export const MIN_SHORTCODE_LENGTH = 4;
+export const MAX_SHORTCODE_LENGTH = 20;
+export const DEFAULT_SHORTCODE_POLICY: ShortcodePolicy = { strategy: 'random', minLength: 6 };
+
+/**
+ * First path segment of every app route, lowercased; a link with one of
+ * these shortcodes could never be reached
+ */
+export const RESERVED_SHORTCODES: ReadonlySet<string> = new Set(
+  Object.values(APP_ROUTES)
+    .map(path => path.split('/')[1])
+    .filter(segment => segment !== '')
+    .map(segment => segment.toLowerCase())
+);
+
+/** Profanity and brand terms rejected until the blocklist is edited */
+export const DEFAULT_SHORTCODE_BLOCKLIST: string[] = ['affordmed', 'fuck', 'shit', 'cunt', 'bitch'];
+
+/**
+ * Harmless words that contain a blocked term, e.g. "class" for "ass"; a
+ * blocked term inside one of these is let through
+ */
+export const DEFAULT_SHORTCODE_ALLOWLIST: string[] = [
+  'scunthorpe', 'class', 'pass', 'mass', 'bass', 'grass', 'assist', 'assets', 'assess', 'embassy',
+];
+
+/** Move to a longer code once this share of a length's keyspace is taken */
+const MAX_KEYSPACE_FILL = 0.01;
+
+const BASE62 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+/** No 0/O/o, 1/l/I */
+const READABLE = '23456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnpqrstuvwxyz';
+/** Short, inoffensive words for pronounceable codes, grouped by length */
+const WORDS_BY_LENGTH: Record<number, string[]> = {
+  3: [
+    'ant', 'bay', 'bee', 'cat', 'cod', 'cow', 'dew', 'elk', 'elm', 'fig', 'fox', 'gem', 'hen', 'ivy',
+    'jam', 'jay', 'kit', 'map', 'oak', 'owl', 'pea', 'pie', 'ray', 'sky', 'sun', 'tea', 'yak', 'zen',
+  ],
+  4: [
+    'bear', 'bird', 'boat', 'cake', 'calm', 'cave', 'clay', 'cove', 'deer', 'dove', 'fern', 'fish', 'frog', 'gold',
+    'hill', 'kite', 'lake', 'leaf', 'lime', 'lion', 'mint', 'moon', 'moss', 'nest', 'pear', 'pine', 'plum', 'rain',
+    'reef', 'rose', 'sage', 'sand', 'seal', 'snow', 'star', 'swan', 'tide', 'tree', 'wave', 'wind', 'wolf',
+  ],
+  5: [
+    'amber', 'apple', 'beach', 'berry', 'cedar', 'cloud', 'coral', 'daisy', 'eagle', 'ember', 'field', 'flame',
+    'grape', 'honey', 'lemon', 'mango', 'maple', 'ocean', 'olive', 'otter', 'pearl', 'piano', 'river', 'robin',
+    'stone', 'tiger', 'tulip', 'whale',
+  ],
+};
+const WORD_LENGTHS = Object.keys(WORDS_BY_LENGTH).map(Number);
+const SHORTEST_WORD = Math.min(...WORD_LENGTHS);
+
+/**
+ * Uniform index below `size` from crypto.getRandomValues; values past the
+ * last whole multiple of `size` are redrawn to avoid modulo bias
+ */
+function randomIndex(size: number): number {
+  const limit = Math.floor(0x100000000 / size) * size;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % size;
+}
+
+function randomString(alphabet: string, length: number): string {
+  return Array.from({ length }, () => alphabet[randomIndex(alphabet.length)]).join('');
+}
+
+function toBase62(value: number): string {
+  let result = '';
+  do {
+    result = BASE62[value % 62] + result;
+    value = Math.floor(value / 62);
+  } while (value > 0);
+  return result;
+}
+
+/**
+ * Crypto-random base62 code, for callers that need one synchronously
+ */
+export function randomShortcode(length: number): string {
+  return randomString(BASE62, length);
+}
+
+const randomGenerator: ShortcodeGenerator = {
+  strategy: 'random',
+  label: 'Random (letters and digits)',
+  example: 'x7Kp2Q',
+  keyspace: length => Math.pow(BASE62.length, length),
+  next: async length => randomShortcode(length),
+};
+
+/**
+ * Base62 counter shared by every tab through localStorage; codes are short
+ * and never repeat, but they are easy to guess. The counter is read and
+ * bumped under the write lock so two tabs never draw the same value.
+ */
+const sequentialGenerator: ShortcodeGenerator = {
+  strategy: 'sequential',
+  label: 'Sequential counter',
+  example: '00004c',
+  keyspace: length => Math.pow(BASE62.length, length),
+  next: length => crossTab.withWriteLock(async () => {
+    const counter = parseInt(localStorage.getItem(COUNTER_KEY) || '0', 10) || 0;
+    localStorage.setItem(COUNTER_KEY, String(counter + 1));
+    return toBase62(counter).padStart(length, '0');
+  }),
+};
+
+const readableGenerator: ShortcodeGenerator = {
+  strategy: 'readable',
+  label: 'Readable (no look-alike characters)',
+  example: 'h4Tm9K',
+  keyspace: length => Math.pow(READABLE.length, length),
+  next: async length => randomString(READABLE, length),
+};
+
+/**
+ * Codes of `length` letters spelled from whole words (and digits for the
+ * last one or two characters no word fits), counted case-insensitively
+ */
+function wordKeyspace(length: number): number {
+  if (length < SHORTEST_WORD) return Math.pow(10, length);
+  return WORD_LENGTHS
+    .filter(wordLength => wordLength <= length)
+    .reduce((total, wordLength) => total + WORDS_BY_LENGTH[wordLength].length * wordKeyspace(length - wordLength), 0);
+}
+
+/**
+ * Capitalized words from a small list, e.g. "FoxBay" or "OceanTea7"
+ */
+const pronounceableGenerator: ShortcodeGenerator = {
+  strategy: 'pronounceable',
+  label: 'Pronounceable words',
+  example: 'FoxBay',
+  keyspace: wordKeyspace,
+  next: async length => {
+    let code = '';
+    while (length - code.length >= SHORTEST_WORD) {
+      const fitting = WORD_LENGTHS.filter(wordLength => wordLength <= length - code.length);
+      const words = WORDS_BY_LENGTH[fitting[randomIndex(fitting.length)]];
+      const word = words[randomIndex(words.length)];
+      code += word[0].toUpperCase() + word.slice(1);
+    }
+    return code + randomString('0123456789', length - code.length);
+  },
+};
+
+export const SHORTCODE_GENERATORS: Record<ShortcodeStrategy, ShortcodeGenerator> = {
+  random: randomGenerator,
+  sequential: sequentialGenerator,
+  readable: readableGenerator,
+  pronounceable: pronounceableGenerator,
+};
+
+/**
+ * Shortest length from `minLength` at which `takenCount` codes fill no more
+ * than MAX_KEYSPACE_FILL of the generator's keyspace
+ */
+export function lengthFor(generator: ShortcodeGenerator, minLength: number, takenCount: number): number {
+  let length = minLength;
+  while (length < MAX_SHORTCODE_LENGTH && takenCount >= generator.keyspace(length) * MAX_KEYSPACE_FILL) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Read the configured policy, falling back to the default
+ */
+export function getShortcodePolicy(): ShortcodePolicy {
+  try {
+    const stored = localStorage.getItem(POLICY_KEY);
+    if (stored) {
+      const policy = JSON.parse(stored) as ShortcodePolicy;
+      if (SHORTCODE_GENERATORS[policy.strategy] && isValidMinLength(policy.minLength)) {
+        return policy;
+      }
+    }
+  } catch (error) {
+    logger.warn('shortcodes', 'Failed to read shortcode policy', { error: error.message });
+  }
+  return DEFAULT_SHORTCODE_POLICY;
+}
+
+export function setShortcodePolicy(policy: ShortcodePolicy): void {
+  if (!SHORTCODE_GENERATORS[policy.strategy]) {
+    throw new Error(`Unknown shortcode strategy "${policy.strategy}"`);
+  }
+  if (!isValidMinLength(policy.minLength)) {
+    throw new Error(`Shortcode length must be between ${MIN_SHORTCODE_LENGTH} and ${MAX_SHORTCODE_LENGTH}`);
+  }
+  localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+  logger.info('shortcodes', 'Shortcode policy updated', { ...policy });
+}
+
+function isValidMinLength(length: number): boolean {
+  return Number.isInteger(length) && length >= MIN_SHORTCODE_LENGTH && length <= MAX_SHORTCODE_LENGTH;
+}
+
+/**
+ * Candidate counts per strategy since metrics were last reset
+ */
+export function getShortcodeMetrics(): Partial<Record<ShortcodeStrategy, ShortcodeMetrics>> {
+  try {
+    return JSON.parse(localStorage.getItem(METRICS_KEY) || '{}');
+  } catch (error) {
+    logger.warn('shortcodes', 'Failed to read shortcode metrics', { error: error.message });
+    return {};
+  }
+}
+
+/**
+ * Share of candidates that were already taken, from 0 to 1
+ */
+export function collisionRate(metrics: ShortcodeMetrics | undefined): number {
+  return metrics && metrics.attempts > 0 ? metrics.collisions / metrics.attempts : 0;
+}
+
+export function recordShortcodeAttempt(strategy: ShortcodeStrategy, length: number, collided: boolean): void {
+  const all = getShortcodeMetrics();
+  const current = all[strategy] || { attempts: 0, collisions: 0, lastLength: length };
+  all[strategy] = {
+    attempts: current.attempts + 1,
+    collisions: current.collisions + (collided ? 1 : 0),
+    lastLength: length,
+  };
+  localStorage.setItem(METRICS_KEY, JSON.stringify(all));
+}
+
+export function resetShortcodeMetrics(): void {
+  localStorage.removeItem(METRICS_KEY);
+  logger.info('shortcodes', 'Shortcode metrics reset');
+}
+
+function readTerms(key: string, fallback: string[]): string[] {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    logger.warn('shortcodes', 'Failed to read shortcode word list', { key, error: error.message });
+    return fallback;
+  }
+}
+
+/** Trim, lowercase and dedupe terms; throws naming the first that is not alphanumeric */
+function normalizeTerms(terms: string[], kind: string): string[] {
+  const normalized = Array.from(new Set(terms.map(term => term.trim().toLowerCase()).filter(term => term !== '')));
+  const invalid = normalized.find(term => !/^[a-z0-9]+$/.test(term));
+  if (invalid) {
+    throw new Error(`${kind} "${invalid}" can only contain letters and numbers`);
+  }
+  return normalized;
+}
+
+/**
+ * Blocked terms, lowercased; a shortcode containing any of them is rejected
+ */
+export function getShortcodeBlocklist(): string[] {
+  return readTerms(BLOCKLIST_KEY, DEFAULT_SHORTCODE_BLOCKLIST);
+}
+
+export function setShortcodeBlocklist(terms: string[]): string[] {
+  const blocklist = normalizeTerms(terms, 'Blocked term');
+  localStorage.setItem(BLOCKLIST_KEY, JSON.stringify(blocklist));
+  logger.info('shortcodes', 'Shortcode blocklist updated', { terms: blocklist.length });
+  return blocklist;
+}
+
+/**
+ * Allowed words, lowercased; blocked terms inside them do not count
+ */
+export function getShortcodeAllowlist(): string[] {
+  return readTerms(ALLOWLIST_KEY, DEFAULT_SHORTCODE_ALLOWLIST);
+}
+
+export function setShortcodeAllowlist(terms: string[]): string[] {
+  const allowlist = normalizeTerms(terms, 'Allowed word');
+  localStorage.setItem(ALLOWLIST_KEY, JSON.stringify(allowlist));
+  logger.info('shortcodes', 'Shortcode allowlist updated', { terms: allowlist.length });
+  return allowlist;
+}
+
+/** Start of every occurrence of `term` in `text` */
+function occurrences(text: string, term: string): number[] {
+  const starts: number[] = [];
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + 1)) {
+    starts.push(index);
+  }
+  return starts;
+}
+
+/**
+ * Whether `code` contains `term` anywhere outside an allowed word,
+ * e.g. "shit" in shitdeal, but not "ass" in classic when class is allowed
+ */
+function containsBlockedTerm(code: string, term: string, allowlist: string[]): boolean {
+  const allowed = allowlist.flatMap(word => occurrences(code, word).map(start => [start, start + word.length]));
+  return occurrences(code, term).some(start =>
+    !allowed.some(([from, to]) => from <= start && start + term.length <= to)
+  );
+}
+
+/**
+ * Words in a shortcode, split on camelCase and digit boundaries,
+ * e.g. summerSale2024 -> summer, Sale, 2024
+ */
+export function shortcodeWords(shortcode: string): string[] {
+  return shortcode.match(/[A-Z]?[a-z]+|[A-Z]+(?![a-z])|\d+/g) || [];
+}
+
+/**
+ * Why a shortcode may not be used, or null if it may; matching ignores case.
+ * Blocked terms match anywhere in the code, so joins like "shitdeal" are
+ * caught; words on the allowlist excuse the terms inside them.
+ */
+export function shortcodeRejection(shortcode: string): string | null {
+  const folded = shortcode.toLowerCase();
+  if (RESERVED_SHORTCODES.has(folded)) {
+    return `"${shortcode}" is reserved for a page of this app`;
+  }
+  const allowlist = getShortcodeAllowlist();
+  if (getShortcodeBlocklist().some(term => containsBlockedTerm(folded, term, allowlist))) {
+    return `"${shortcode}" contains a blocked word`;
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SplitVariant } from '../types';
+import { logger } from '../middleware/logger';
+
+/**
+ * Weighted A/B splits between destinations
+ * Each visitor gets a stored random id; hashing it with the shortcode picks
+ * the variant, so a returning visitor lands on the same one every time.
+ */
+
+const VISITOR_ID_KEY = 'affordmed_visitor_id';
+const VARIANT_NAMES = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/** Most variants a single link can split between */
+export const MAX_SPLIT_VARIANTS = 10;
+export const MAX_VARIANT_WEIGHT = 1000;
+
+/**
+ * This browser's visitor id, created on first use
+ */
+export function getVisitorId(): string {
+  try {
+    const stored = localStorage.getItem(VISITOR_ID_KEY);
+    if (stored) return stored;
+
+    const visitorId = uuidv4();
+    localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    return visitorId;
+  } catch (error) {
+    // Without storage the visitor cannot be recognised again; split at random
+    logger.warn('split-tests', 'Failed to persist visitor id', { error: error.message });
+    return uuidv4();
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Variant this visitor is served for the link, or null when no split is set up
+ */
+export function pickVariant(variants: SplitVariant[], shortcode: string, visitorId: string): SplitVariant | null {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight <= 0) return null;
+
+  let point = hashString(`${visitorId}:${shortcode}`) % totalWeight;
+  for (const variant of variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return null;
+}
+
+/**
+ * First letter not yet used by another variant of the link
+ */
+export function nextVariantName(variants: SplitVariant[]): string {
+  const used = new Set(variants.map(variant => variant.name));
+  return VARIANT_NAMES.split('').find(name => !used.has(name)) || `${variants.length + 1}`;
+}
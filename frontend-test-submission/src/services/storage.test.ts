@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { storageService } from './storage';
+import { LocalStorageBackend } from './backends/localStorageBackend';
+import { makeUrl } from '../test/fixtures';
+
+describe('StorageService.addUrls', () => {
+  beforeEach(() => {
+    storageService.invalidateCache();
+  });
+
+  it('saves the free shortcodes and returns the ones taken meanwhile', async () => {
+    await storageService.loadUrls();
+    // Written behind the cache's back, as another tab would
+    await new LocalStorageBackend().putUrls([makeUrl({ shortcode: 'taken1' })]);
+
+    const taken = await storageService.addUrls([makeUrl({ shortcode: 'TAKEN1' }), makeUrl({ shortcode: 'free1' })]);
+
+    expect(taken).toEqual(['TAKEN1']);
+    const created = (await storageService.getEventLog()).filter(event => event.type === 'created');
+    expect(created.map(event => event.shortcodes)).toEqual([['free1']]);
+  });
+
+  it('starts the event log for data stored before it existed without deadlocking', async () => {
+    await new LocalStorageBackend().putUrls([makeUrl({ shortcode: 'legacy1' })]);
+
+    expect(await storageService.addUrls([makeUrl({ shortcode: 'new1' })])).toEqual([]);
+
+    const events = await storageService.getEventLog();
+    expect(events.find(event => event.baseline)?.shortcodes).toEqual(['legacy1']);
+    expect(events.find(event => event.type === 'created')?.shortcodes).toEqual(['new1']);
+  });
+});
+
+describe('StorageService.recordClick', () => {
+  beforeEach(() => {
+    storageService.invalidateCache();
+  });
+
+  it('extends a 30-day inactivity link under the default workspace maximum', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    const idle = makeUrl({ shortcode: 'idle1', createdAt, inactivityDays: 30, expiresAt: new Date('2024-01-31T00:00:00Z') });
+    await storageService.addUrls([idle]);
+
+    const clickedAt = new Date('2024-01-25T00:00:00Z');
+    await storageService.recordClick('idle1', { id: 'c1', shortcode: 'idle1', timestamp: clickedAt, referrer: '', userAgent: '' });
+
+    const [stored] = await new LocalStorageBackend().getAllUrls();
+    expect(stored.expiresAt).toEqual(new Date('2024-02-24T00:00:00Z'));
+  });
+
+  it('records clicks in the event log and compacts them with the raw clicks', async () => {
+    await storageService.addUrls([makeUrl({ shortcode: 'promo1', expiresAt: new Date('2099-01-01T00:00:00Z') })]);
+    const click = (id: string, at: string) => ({ id, shortcode: 'promo1', timestamp: new Date(at), referrer: '', userAgent: '' });
+    await storageService.recordClick('promo1', click('c1', '2024-01-01T10:05:00Z'));
+    await storageService.recordClick('promo1', click('c2', '2024-01-01T10:35:00Z'));
+
+    const clicked = (await storageService.getEventLog()).filter(event => event.type === 'clicked');
+    expect(clicked).toHaveLength(2);
+
+    await storageService.compactClicks({ rawRetentionDays: 14 });
+
+    const events = await storageService.getEventLog();
+    expect(events.filter(event => event.type === 'clicked').map(event => event.clickCount)).toEqual([2]);
+    expect((await storageService.getUrlsAsOf(new Date()))[0].clickCount).toBe(2);
+  });
+});
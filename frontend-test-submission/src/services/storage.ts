@@ -1,16 +1,84 @@
-import { ShortUrl, ClickEvent } from '../types';
+import {
+  ShortUrl,
+  ClickEvent,
+  ClickPage,
+  ClickBreakdown,
+  RollupGranularity,
+  StorageBackend,
+  StorageSnapshot,
+  StorageChangeEvent,
+  StorageEvent,
+} from '../types';
 import { logger } from '../middleware/logger';
+import { LocalStorageBackend } from './backends/localStorageBackend';
+import { IndexedDbBackend } from './backends/indexedDbBackend';
+import { EncryptedBackend } from './backends/encryptedBackend';
+import { SchemaVersionError } from './migrations';
+import { StorageCorruptionError } from './integrity';
+import { crossTab } from './crossTab';
+import { UrlCache } from './urlCache';
+import { ClickRetentionPolicy, buildClickBreakdown, rollupClicks } from './clickRetention';
+import {
+  compactClickEvents,
+  createEvent,
+  eventsForWorkspace,
+  mergeEventLogs,
+  projectEvents,
+  undoRedoStacks,
+} from './eventLog';
+import { workspaceService, workspaceOf } from './workspaces';
+import { TrashPolicy, isShortcodeReserved, purgeCutoff, reserveShortcodes } from './trash';
+import { LinkExhaustedError, isExhausted } from './clickLimits';
+import { LinkNotYetActiveError, scheduleAvailability } from './schedules';
+import { LinkExpiredError, expiryAfterClick, isExpired } from './expiry';
+import {
+  EncryptionSettings,
+  PayloadCipher,
+  StorageLockedError,
+  beginEncryptionChange,
+  createEncryptionSettings,
+  endEncryptionChange,
+  keyIdOf,
+  readEncryptionSettings,
+  readPendingEncryptionChange,
+  unlockCipher,
+} from './encryption';
+
+export type EncryptionState = 'disabled' | 'locked' | 'unlocked';
 
 /**
- * Storage service for persisting URL data in localStorage
+ * Storage service for persisting URL data
+ * Delegates to IndexedDB when available and falls back to localStorage
+ * Writes are serialized across tabs and announced to every open tab
+ * Reads are served from an in-memory indexed cache hydrated on first use
+ * With encryption enabled, records are sealed with a passphrase-derived key
+ * Every mutation is also appended to an event log, which backs undo/redo
+ * and point-in-time views; the URL store is kept as its projection
+ * Link reads, statistics and history are scoped to the active workspace;
+ * shortcode lookups stay global so shortcodes remain unique everywhere
+ * Deleting moves links to a trash; purged links' shortcodes stay reserved
  * Handles all data persistence operations with error handling and logging
  */
 class StorageService {
   private static instance: StorageService;
-  private readonly URLS_KEY = 'affordmed_short_urls';
-  private readonly CLICKS_KEY = 'affordmed_clicks';
+  private readonly localBackend = new LocalStorageBackend();
+  private backendPromise: Promise<StorageBackend> | null = null;
+  private cachePromise: Promise<UrlCache> | null = null;
+  private cipher: PayloadCipher | null = null;
 
-  private constructor() {}
+  private constructor() {
+    // Another tab wrote to storage, or data was replaced wholesale:
+    // drop the cache so the next read rehydrates from the backend
+    crossTab.subscribe(event => {
+      if (event.origin === 'remote' && event.type === 'encryption-changed') {
+        // Our key is stale; lock until the user enters the new passphrase
+        this.cipher = null;
+      }
+      if (event.origin === 'remote' || event.type === 'data-replaced') {
+        this.invalidateCache();
+      }
+    });
+  }
 
   public static getInstance(): StorageService {
     if (!StorageService.instance) {
@@ -20,50 +88,217 @@ class StorageService {
   }
 
   /**
-   * Save short URLs to localStorage
+   * Resolve the active backend, wrapped for encryption when enabled.
+   * Throws StorageLockedError until the passphrase has been entered.
    */
-  public saveUrls(urls: ShortUrl[]): void {
-    try {
-      const serialized = JSON.stringify(urls, (key, value) => {
-        if (key === 'createdAt' || key === 'expiresAt' || key === 'timestamp') {
-          return value instanceof Date ? value.toISOString() : value;
+  private async getBackend(): Promise<StorageBackend> {
+    const backend = await this.getStorageBackend();
+    if (!readEncryptionSettings()) return backend;
+    if (!this.cipher) throw new StorageLockedError();
+    return new EncryptedBackend(backend, this.cipher);
+  }
+
+  /**
+   * Resolve the underlying backend, preferring IndexedDB
+   */
+  private getStorageBackend(): Promise<StorageBackend> {
+    if (!this.backendPromise) {
+      this.backendPromise = this.selectBackend();
+    }
+    return this.backendPromise;
+  }
+
+  private async selectBackend(): Promise<StorageBackend> {
+    const indexedDbBackend = new IndexedDbBackend();
+
+    if (await indexedDbBackend.isAvailable()) {
+      await crossTab.withWriteLock(async () => {
+        await this.migrateFromLocalStorage(indexedDbBackend);
+        await this.settleEncryptionChange(indexedDbBackend);
+      });
+      logger.info('storage', 'Using storage backend', { backend: indexedDbBackend.name });
+      return indexedDbBackend;
+    }
+
+    logger.warn('storage', 'Falling back to localStorage backend');
+    await crossTab.withWriteLock(async () => {
+      await this.localBackend.upgradeSchema();
+      await this.settleEncryptionChange(this.localBackend);
+    });
+    return this.localBackend;
+  }
+
+  /**
+   * Finish a re-key that was interrupted between swapping the data and
+   * saving the settings: keep the new settings only if the swap committed
+   */
+  private async settleEncryptionChange(backend: StorageBackend): Promise<void> {
+    const pending = readPendingEncryptionChange();
+    if (!pending) return;
+
+    const committed = (await backend.getKeyId()) === keyIdOf(pending.settings);
+    endEncryptionChange(committed);
+    logger.warn('storage', 'Settled an interrupted encryption change', { committed });
+  }
+
+  /**
+   * Resolve the hydrated URL cache, loading it from the backend if needed
+   */
+  private getCache(): Promise<UrlCache> {
+    if (!this.cachePromise) {
+      const hydration = this.hydrateCache();
+      this.cachePromise = hydration;
+      hydration.catch(() => {
+        if (this.cachePromise === hydration) {
+          this.cachePromise = null;
         }
-        return value;
       });
-      
-      localStorage.setItem(this.URLS_KEY, serialized);
-      logger.info('storage', 'URLs saved to localStorage', { count: urls.length });
+    }
+    return this.cachePromise;
+  }
+
+  private async hydrateCache(): Promise<UrlCache> {
+    const backend = await this.getBackend();
+    const started = performance.now();
+    // Never takes the write lock: reads can happen while it is held
+    const urls = await backend.getAllUrls();
+    const cache = new UrlCache(urls);
+
+    const collisions = cache.caseCollisions();
+    if (collisions.length > 0) {
+      // Lookups stay exact, so each of these still opens its own link
+      logger.warn('storage', 'Stored shortcodes differ only in case; rename one of each group', {
+        groups: collisions,
+      });
+    }
+    logger.info('storage', 'URL cache hydrated', {
+      count: cache.size,
+      durationMs: Math.round(performance.now() - started),
+    });
+    return cache;
+  }
+
+  /**
+   * Apply a local write to the cache, if it has been hydrated
+   */
+  private async updateCache(update: (cache: UrlCache) => void): Promise<void> {
+    if (!this.cachePromise) return;
+    try {
+      update(await this.cachePromise);
+    } catch {
+      // Hydration failed; the next read retries from the backend
+    }
+  }
+
+  /**
+   * Drop the in-memory cache; the next read rehydrates from the backend
+   */
+  public invalidateCache(): void {
+    this.cachePromise = null;
+  }
+
+  /**
+   * Take the write lock for a change recorded in the event log, starting the
+   * log from the stored URLs first if it is empty. Locks are not re-entrant,
+   * so the log is bootstrapped here, under the lock the write already holds.
+   */
+  private withEventLogLock<T>(backend: StorageBackend, task: () => Promise<T>): Promise<T> {
+    return crossTab.withWriteLock(async () => {
+      await this.startEventLog(backend);
+      return task();
+    });
+  }
+
+  /**
+   * Record the current URLs as the log's baseline, for data stored before
+   * the event log existed
+   */
+  private async startEventLog(backend: StorageBackend): Promise<void> {
+    if (await backend.hasEvents()) return;
+
+    const urls = await backend.getAllUrls();
+    if (urls.length === 0) return;
+    await backend.appendEvents([
+      createEvent('imported', { shortcodes: urls.map(url => url.shortcode), urls, baseline: true }),
+    ]);
+    logger.info('storage', 'Event log started from existing URLs', { count: urls.length });
+  }
+
+  /**
+   * Move URLs written by the localStorage backend into the target backend.
+   * The legacy key is only removed once the copy has been committed.
+   */
+  private async migrateFromLocalStorage(target: StorageBackend): Promise<void> {
+    if (!this.localBackend.hasData()) return;
+
+    try {
+      await this.localBackend.upgradeSchema();
+      const legacyUrls = await this.localBackend.getAllUrls();
+      const legacyClicks = await this.localBackend.getAllClicks();
+      const legacyRollups = await this.localBackend.getAllRollups();
+      const legacyEvents = await this.localBackend.getEvents();
+      await target.putUrls(legacyUrls);
+      await target.appendClicks(legacyClicks);
+      await target.compactClicks(legacyRollups, []);
+      await target.appendEvents(legacyEvents);
+      await this.localBackend.clear();
+
+      logger.info('storage', 'Migrated URLs from localStorage', {
+        backend: target.name,
+        count: legacyUrls.length,
+        clickCount: legacyClicks.length,
+      });
     } catch (error) {
-      logger.error('storage', 'Failed to save URLs to localStorage', { error: error.message });
-      throw new Error('Failed to save data to storage');
+      logger.error('storage', 'Failed to migrate URLs from localStorage', { error: error.message });
     }
   }
 
   /**
-   * Load short URLs from localStorage
+   * Keep a last-known-good copy of the current data before it is changed.
+   * Corrupted data blocks the write so it cannot be overwritten.
    */
-  public loadUrls(): ShortUrl[] {
+  private async snapshotBeforeWrite(backend: StorageBackend): Promise<void> {
+    const current = await backend.getAllUrls();
+    if (current.length === 0) return;
+
     try {
-      const stored = localStorage.getItem(this.URLS_KEY);
-      if (!stored) {
-        return [];
-      }
+      await backend.writeSnapshot(current);
+    } catch (error) {
+      logger.warn('storage', 'Failed to write backup snapshot', { error: error.message });
+    }
+  }
 
-      const parsed = JSON.parse(stored);
-      const urls = parsed.map((url: any) => ({
-        ...url,
-        createdAt: new Date(url.createdAt),
-        expiresAt: new Date(url.expiresAt),
-        clicks: url.clicks.map((click: any) => ({
-          ...click,
-          timestamp: new Date(click.timestamp),
-        })),
-      }));
-
-      logger.info('storage', 'URLs loaded from localStorage', { count: urls.length });
-      return urls;
+  /**
+   * Save short URLs, replacing any stored URL with the same shortcode
+   */
+  public async saveUrls(urls: ShortUrl[], eventType: 'created' | 'imported' = 'imported'): Promise<void> {
+    const backend = await this.getBackend();
+    await this.withEventLogLock(backend, async () => {
+      await this.snapshotBeforeWrite(backend);
+      await backend.appendEvents([createEvent(eventType, { shortcodes: urls.map(url => url.shortcode), urls })]);
+      await backend.putUrls(urls);
+    });
+    await this.updateCache(cache => urls.forEach(url => cache.upsert(url)));
+    crossTab.broadcast({ type: 'urls-saved', shortcodes: urls.map(url => url.shortcode) });
+  }
+
+  /**
+   * Load all short URLs in the active workspace
+   */
+  public async loadUrls(): Promise<ShortUrl[]> {
+    try {
+      const cache = await this.getCache();
+      return cache.values(workspaceService.getActiveId());
     } catch (error) {
-      logger.error('storage', 'Failed to load URLs from localStorage', { error: error.message });
+      if (
+        error instanceof SchemaVersionError ||
+        error instanceof StorageCorruptionError ||
+        error instanceof StorageLockedError
+      ) {
+        // Surface to the caller instead of pretending storage is empty
+        throw error;
+      }
+      logger.error('storage', 'Failed to load URLs', { error: error.message });
       return [];
     }
   }
@@ -71,10 +306,8 @@ class StorageService {
   /**
    * Add a new short URL
    */
-  public addUrl(url: ShortUrl): void {
-    const urls = this.loadUrls();
-    urls.push(url);
-    this.saveUrls(urls);
+  public async addUrl(url: ShortUrl): Promise<void> {
+    await this.saveUrls([url], 'created');
     logger.logUrlEvent('URL created', url.shortcode, {
       originalUrl: url.originalUrl,
       validityMinutes: url.validityMinutes,
@@ -83,106 +316,674 @@ class StorageService {
   }
 
   /**
-   * Add multiple URLs
+   * Add multiple URLs. Shortcodes taken in the meantime, e.g. by another
+   * tab, are skipped and returned so the caller can fail just those rows.
    */
-  public addUrls(newUrls: ShortUrl[]): void {
-    const existingUrls = this.loadUrls();
-    const allUrls = [...existingUrls, ...newUrls];
-    this.saveUrls(allUrls);
-    logger.logUrlEvent('Multiple URLs created', '', { count: newUrls.length });
+  public async addUrls(newUrls: ShortUrl[]): Promise<string[]> {
+    const backend = await this.getBackend();
+    const { saved, taken } = await this.withEventLogLock(backend, async () => {
+      // Re-check under the lock against the backend, not the cache: another
+      // tab may have taken a shortcode meanwhile, in any case
+      const stored = new Set((await backend.getAllUrls()).map(url => url.shortcode.toLowerCase()));
+      const saved: ShortUrl[] = [];
+      const taken: string[] = [];
+      for (const url of newUrls) {
+        const folded = url.shortcode.toLowerCase();
+        if (stored.has(folded) || isShortcodeReserved(url.shortcode)) {
+          taken.push(url.shortcode);
+        } else {
+          stored.add(folded);
+          saved.push(url);
+        }
+      }
+      if (saved.length === 0) return { saved, taken };
+
+      await this.snapshotBeforeWrite(backend);
+      await backend.appendEvents([
+        createEvent('created', { shortcodes: saved.map(url => url.shortcode), urls: saved }),
+      ]);
+      await backend.putUrls(saved);
+      return { saved, taken };
+    });
+
+    if (taken.length > 0) {
+      logger.warn('storage', 'Skipped shortcodes taken while saving', { shortcodes: taken });
+    }
+    if (saved.length > 0) {
+      await this.updateCache(cache => saved.forEach(url => cache.upsert(url)));
+      crossTab.broadcast({ type: 'urls-saved', shortcodes: saved.map(url => url.shortcode) });
+      logger.logUrlEvent('Multiple URLs created', '', { count: saved.length });
+    }
+    return taken;
   }
 
   /**
    * Find URL by shortcode
+   * Throws LinkExpiredError for an expired link and LinkNotYetActiveError for
+   * one outside its activation schedule, so callers can tell them apart from
+   * a missing one
    */
-  public findByShortcode(shortcode: string): ShortUrl | null {
-    const urls = this.loadUrls();
-    const found = urls.find(url => url.shortcode === shortcode);
-    
+  public async findByShortcode(shortcode: string): Promise<ShortUrl | null> {
+    const cache = await this.getCache();
+    const found = cache.get(shortcode);
+
     if (found) {
+      if (found.deletedAt) {
+        logger.warn('storage', 'Attempted to access URL in the trash', { shortcode });
+        return null;
+      }
+
       // Check if URL has expired
-      if (new Date() > found.expiresAt) {
+      if (isExpired(found)) {
         logger.warn('storage', 'Attempted to access expired URL', { shortcode });
-        return null;
+        throw new LinkExpiredError(found);
+      }
+
+      const schedule = scheduleAvailability(found);
+      if (!schedule.available) {
+        logger.warn('storage', 'Attempted to access URL outside its schedule', {
+          shortcode,
+          opensAt: schedule.opensAt?.toISOString(),
+        });
+        throw new LinkNotYetActiveError(schedule.opensAt);
       }
     }
-    
+
     return found || null;
   }
 
+  /**
+   * Apply edits to an existing URL, whether or not it has expired
+   * `getChanges` runs under the write lock against the current record;
+   * returns the record as it was before and after the change
+   */
+  public async updateUrl(
+    shortcode: string,
+    getChanges: (current: ShortUrl) => Partial<ShortUrl>
+  ): Promise<{ previous: ShortUrl; updated: ShortUrl }> {
+    const backend = await this.getBackend();
+    const result = await this.withEventLogLock(backend, async () => {
+      const previous = await backend.getUrl(shortcode);
+      if (!previous) {
+        throw new Error(`Short URL "${shortcode}" not found`);
+      }
+
+      const changes = getChanges(previous);
+      const updated: ShortUrl = { ...previous, ...changes };
+      await this.snapshotBeforeWrite(backend);
+      await backend.appendEvents([createEvent('updated', { shortcodes: [shortcode], changes })]);
+      await backend.putUrls([updated]);
+      return { previous, updated };
+    });
+
+    await this.updateCache(cache => cache.upsert(result.updated));
+    crossTab.broadcast({ type: 'urls-saved', shortcodes: [shortcode] });
+    return result;
+  }
+
+  /**
+   * Move URLs to the trash; they stop redirecting but can be restored until purged
+   */
+  public async trashUrls(shortcodes: string[]): Promise<number> {
+    return this.setDeletedAt(shortcodes, new Date());
+  }
+
+  /**
+   * Bring URLs back out of the trash
+   */
+  public async restoreUrls(shortcodes: string[]): Promise<number> {
+    return this.setDeletedAt(shortcodes, null);
+  }
+
+  private async setDeletedAt(shortcodes: string[], deletedAt: Date | null): Promise<number> {
+    const backend = await this.getBackend();
+    const changed = await this.withEventLogLock(backend, async () => {
+      const urls = (await Promise.all(shortcodes.map(shortcode => backend.getUrl(shortcode))))
+        .filter(url => url && Boolean(url.deletedAt) !== Boolean(deletedAt))
+        .map(url => ({ ...url, deletedAt }));
+      if (urls.length === 0) return urls;
+
+      await this.snapshotBeforeWrite(backend);
+      await backend.appendEvents([
+        createEvent('updated', { shortcodes: urls.map(url => url.shortcode), changes: { deletedAt } }),
+      ]);
+      await backend.putUrls(urls);
+      return urls;
+    });
+
+    if (changed.length > 0) {
+      await this.updateCache(cache => changed.forEach(url => cache.upsert(url)));
+      crossTab.broadcast({ type: 'urls-saved', shortcodes: changed.map(url => url.shortcode) });
+      logger.logUrlEvent(deletedAt ? 'URLs moved to trash' : 'URLs restored from trash', '', {
+        shortcodes: changed.map(url => url.shortcode),
+      });
+    }
+    return changed.length;
+  }
+
+  /**
+   * URLs in the active workspace's trash, most recently deleted first
+   */
+  public async getTrash(): Promise<ShortUrl[]> {
+    const cache = await this.getCache();
+    return cache.trashed(workspaceService.getActiveId())
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+  }
+
+  /**
+   * Permanently delete trashed URLs with their clicks: the given ones, or
+   * every link whose grace period has run out. Their shortcodes stay
+   * reserved for the policy's cooldown. Returns the number purged.
+   */
+  public async purgeTrash(policy: TrashPolicy, shortcodes?: string[]): Promise<number> {
+    const backend = await this.getBackend();
+    const cutoff = purgeCutoff(policy);
+
+    const purged = await this.withEventLogLock(backend, async () => {
+      const requested = shortcodes ? new Set(shortcodes) : null;
+      const urls = (await backend.getAllUrls()).filter(url =>
+        url.deletedAt && (requested ? requested.has(url.shortcode) : url.deletedAt <= cutoff)
+      );
+      if (urls.length === 0) return urls;
+
+      await this.snapshotBeforeWrite(backend);
+      // Reserve first: a purged code must never be free while the link is gone
+      reserveShortcodes(urls, policy);
+      await backend.appendEvents([createEvent('deleted', { shortcodes: urls.map(url => url.shortcode) })]);
+      await backend.deleteUrls(urls.map(url => url.shortcode));
+      return urls;
+    });
+
+    if (purged.length > 0) {
+      await this.updateCache(cache => purged.forEach(url => cache.remove(url)));
+      crossTab.broadcast({ type: 'urls-saved', shortcodes: purged.map(url => url.shortcode) });
+      logger.logUrlEvent('URLs purged from trash', '', {
+        shortcodes: purged.map(url => url.shortcode),
+        cooldownDays: policy.cooldownDays,
+      });
+    }
+    return purged.length;
+  }
+
   /**
    * Record a click event for a short URL
+   * The event goes to the append-only click store and, as a `clicked` event,
+   * to the event log; the URL keeps only counters
+   * Click caps are checked under the write lock, so concurrent redirects from
+   * several tabs can never exceed them; throws LinkExhaustedError instead
    */
-  public recordClick(shortcode: string, clickEvent: ClickEvent): void {
-    const urls = this.loadUrls();
-    const urlIndex = urls.findIndex(url => url.shortcode === shortcode);
-    
-    if (urlIndex === -1) {
+  public async recordClick(shortcode: string, clickEvent: ClickEvent): Promise<void> {
+    const backend = await this.getBackend();
+    const url = await this.withEventLogLock(backend, async () => {
+      const existing = await backend.getUrl(shortcode);
+      if (!existing) return null;
+      if (isExhausted(existing)) {
+        throw new LinkExhaustedError(existing.maxClicks!);
+      }
+
+      const updated: ShortUrl = {
+        ...existing,
+        clickCount: existing.clickCount + 1,
+        lastClickAt: clickEvent.timestamp,
+        expiresAt: expiryAfterClick(existing, clickEvent.timestamp),
+      };
+      await backend.appendClicks([clickEvent]);
+      await backend.appendEvents([
+        createEvent('clicked', { shortcodes: [shortcode], clickedAt: clickEvent.timestamp }),
+      ]);
+      await backend.putUrls([updated]);
+      return updated;
+    });
+
+    if (!url) {
       logger.warn('storage', 'Attempted to record click for non-existent URL', { shortcode });
       return;
     }
 
-    urls[urlIndex].clicks.push(clickEvent);
-    this.saveUrls(urls);
-    
+    await this.updateCache(cache => cache.upsert(url));
+    crossTab.broadcast({ type: 'click-recorded', shortcodes: [shortcode] });
     logger.logAnalyticsEvent('URL clicked', shortcode, {
       referrer: clickEvent.referrer,
-      totalClicks: urls[urlIndex].clicks.length,
+      totalClicks: url.clickCount,
     });
   }
 
   /**
-   * Check if shortcode is already in use
+   * Get a page of click events for a short URL, newest first
+   */
+  public async getClicksPaginated(shortcode: string, page: number = 0, limit: number = 20): Promise<ClickPage> {
+    const backend = await this.getBackend();
+    return backend.getClicks(shortcode, page * limit, limit);
+  }
+
+  /**
+   * Get every stored click event
    */
-  public isShortcodeInUse(shortcode: string): boolean {
-    const urls = this.loadUrls();
-    return urls.some(url => url.shortcode === shortcode);
+  public async getAllClicks(): Promise<ClickEvent[]> {
+    const backend = await this.getBackend();
+    return backend.getAllClicks();
   }
 
   /**
-   * Get analytics data for all URLs
+   * Click totals for one link, merging raw clicks with compacted rollups
    */
-  public getAnalytics(): {
+  public async getClickBreakdown(shortcode: string, granularity: RollupGranularity = 'day'): Promise<ClickBreakdown> {
+    const backend = await this.getBackend();
+    const [raw, rollups] = await Promise.all([
+      backend.getClicks(shortcode, 0, Number.MAX_SAFE_INTEGER),
+      backend.getRollups(shortcode),
+    ]);
+    return buildClickBreakdown(raw.clicks, rollups, granularity);
+  }
+
+  /**
+   * Compact raw clicks older than the retention window into hourly and
+   * daily rollups, and their `clicked` events into one event per hour.
+   * Returns the number of raw clicks removed.
+   */
+  public async compactClicks(policy: ClickRetentionPolicy): Promise<number> {
+    const backend = await this.getBackend();
+    const cutoff = new Date(Date.now() - policy.rawRetentionDays * 24 * 60 * 60 * 1000);
+
+    const expired = await crossTab.withWriteLock(async () => {
+      const { added, removedIds } = compactClickEvents(await backend.getEvents(), cutoff);
+      if (removedIds.length > 0) {
+        await backend.compactEvents(added, removedIds);
+      }
+
+      const clicks = await backend.getClicksBefore(cutoff);
+      if (clicks.length === 0) return clicks;
+
+      const shortcodes = Array.from(new Set(clicks.map(click => click.shortcode)));
+      const existing = (await Promise.all(shortcodes.map(code => backend.getRollups(code)))).flat();
+      await backend.compactClicks(rollupClicks(clicks, existing), clicks.map(click => click.id));
+      return clicks;
+    });
+
+    if (expired.length > 0) {
+      const shortcodes = Array.from(new Set(expired.map(click => click.shortcode)));
+      crossTab.broadcast({ type: 'clicks-compacted', shortcodes });
+    }
+    logger.info('storage', 'Click compaction finished', {
+      cutoff: cutoff.toISOString(),
+      compactedClicks: expired.length,
+    });
+    return expired.length;
+  }
+
+  /**
+   * Number of shortcodes taken across every workspace, trash included
+   */
+  public async countShortcodes(): Promise<number> {
+    const cache = await this.getCache();
+    return cache.size;
+  }
+
+  /**
+   * Check if shortcode is already in use, by a live or trashed link or a
+   * recently purged one; case is ignored so Promo and promo cannot both exist
+   */
+  public async isShortcodeInUse(shortcode: string): Promise<boolean> {
+    const cache = await this.getCache();
+    return cache.hasIgnoringCase(shortcode) || isShortcodeReserved(shortcode);
+  }
+
+  /**
+   * Find every URL in the active workspace pointing at the given destination
+   */
+  public async findByOriginalUrl(originalUrl: string): Promise<ShortUrl[]> {
+    const cache = await this.getCache();
+    return cache.findByOriginalUrl(originalUrl, workspaceService.getActiveId());
+  }
+
+  /**
+   * Number of URLs stored in a workspace, including its trash
+   */
+  public async countUrlsInWorkspace(workspaceId: string): Promise<number> {
+    const cache = await this.getCache();
+    return cache.values(workspaceId).length + cache.trashed(workspaceId).length;
+  }
+
+  /**
+   * Get analytics data for the URLs in the active workspace
+   */
+  public async getAnalytics(): Promise<{
     totalUrls: number;
     totalClicks: number;
     activeUrls: number;
     expiredUrls: number;
-  } {
-    const urls = this.loadUrls();
-    const now = new Date();
-    
+    neverExpiringUrls: number;
+  }> {
+    const cache = await this.getCache();
+    const workspaceId = workspaceService.getActiveId();
+    const urls = cache.values(workspaceId);
+    const expiredUrls = cache.countExpired(new Date(), workspaceId);
+
     const analytics = {
       totalUrls: urls.length,
-      totalClicks: urls.reduce((sum, url) => sum + url.clicks.length, 0),
-      activeUrls: urls.filter(url => url.expiresAt > now).length,
-      expiredUrls: urls.filter(url => url.expiresAt <= now).length,
+      totalClicks: urls.reduce((sum, url) => sum + url.clickCount, 0),
+      activeUrls: urls.length - expiredUrls,
+      expiredUrls,
+      neverExpiringUrls: urls.filter(url => url.expiresAt === null).length,
     };
 
-    logger.info('analytics', 'Analytics data retrieved', analytics);
+    logger.info('analytics', 'Analytics data retrieved', { ...analytics, workspaceId });
     return analytics;
   }
 
   /**
    * Clear all stored data (for testing/reset)
    */
-  public clearAll(): void {
-    localStorage.removeItem(this.URLS_KEY);
-    localStorage.removeItem(this.CLICKS_KEY);
+  public async clearAll(): Promise<void> {
+    const backend = await this.getStorageBackend();
+    await crossTab.withWriteLock(async () => {
+      await backend.clear();
+      if (backend !== this.localBackend) {
+        await this.localBackend.clear();
+      }
+    });
+    crossTab.broadcast({ type: 'data-replaced', shortcodes: [] });
     logger.warn('storage', 'All stored data cleared');
   }
 
   /**
-   * Get URLs with pagination
+   * Check whether stored data can be read, listing snapshots to recover from
    */
-  public getUrlsPaginated(page: number = 0, limit: number = 10): {
+  public async checkIntegrity(): Promise<{
+    ok: boolean;
+    error?: string;
+    snapshots: StorageSnapshot[];
+  }> {
+    try {
+      const backend = await this.getBackend();
+      await backend.getAllUrls();
+      return { ok: true, snapshots: [] };
+    } catch (error) {
+      if (!(error instanceof StorageCorruptionError)) {
+        throw error;
+      }
+
+      const snapshots = await this.listSnapshots();
+      logger.error('storage', 'Stored data failed integrity check', {
+        error: error.message,
+        source: error.source,
+        snapshotCount: snapshots.length,
+      });
+      return { ok: false, error: error.message, snapshots };
+    }
+  }
+
+  /**
+   * List available backup snapshots, newest first
+   */
+  public async listSnapshots(): Promise<StorageSnapshot[]> {
+    const backend = await this.getBackend();
+    return backend.listSnapshots();
+  }
+
+  /**
+   * Replace the stored URLs with the contents of a snapshot; the click log is kept
+   */
+  public async restoreSnapshot(id: string): Promise<void> {
+    const backend = await this.getBackend();
+    const urls = await crossTab.withWriteLock(async () => {
+      const { urls, clicks } = await backend.readSnapshot(id);
+      await backend.appendClicks(clicks);
+      await backend.appendEvents([
+        createEvent('imported', { shortcodes: urls.map(url => url.shortcode), urls, replace: true }),
+      ]);
+      await backend.clearUrls();
+      await backend.putUrls(urls);
+      return urls;
+    });
+    crossTab.broadcast({ type: 'data-replaced', shortcodes: [] });
+
+    logger.warn('storage', 'Restored URLs from snapshot', { snapshotId: id, count: urls.length });
+  }
+
+  /**
+   * Drop unreadable URL data and start over; snapshots and clicks are kept
+   */
+  public async discardCorruptedData(): Promise<void> {
+    const backend = await this.getBackend();
+    await crossTab.withWriteLock(async () => {
+      await backend.appendEvents([createEvent('imported', { shortcodes: [], urls: [], replace: true })]);
+      await backend.clearUrls();
+    });
+    crossTab.broadcast({ type: 'data-replaced', shortcodes: [] });
+    logger.warn('storage', 'Corrupted URL data discarded by user', { backend: backend.name });
+  }
+
+  /**
+   * The changes in the active workspace that undo and redo would act on next, if any
+   */
+  public async getHistoryState(): Promise<{ undo: StorageEvent | null; redo: StorageEvent | null }> {
+    const backend = await this.getBackend();
+    const events = eventsForWorkspace(await backend.getEvents(), workspaceService.getActiveId());
+    const { undo, redo } = undoRedoStacks(events);
+    return { undo: undo[undo.length - 1] || null, redo: redo[redo.length - 1] || null };
+  }
+
+  /**
+   * Revert the most recent change that has not been undone yet
+   */
+  public async undo(): Promise<StorageEvent | null> {
+    return this.applyHistoryMarker('undone');
+  }
+
+  /**
+   * Re-apply the most recently undone change
+   */
+  public async redo(): Promise<StorageEvent | null> {
+    return this.applyHistoryMarker('redone');
+  }
+
+  private async applyHistoryMarker(type: 'undone' | 'redone'): Promise<StorageEvent | null> {
+    const backend = await this.getBackend();
+
+    const target = await this.withEventLogLock(backend, async () => {
+      const events = await backend.getEvents();
+      const stacks = undoRedoStacks(eventsForWorkspace(events, workspaceService.getActiveId()));
+      const stack = type === 'undone' ? stacks.undo : stacks.redo;
+      const next = stack[stack.length - 1];
+      if (!next) return null;
+
+      const marker = createEvent(type, { shortcodes: next.shortcodes, targetId: next.id });
+      await this.snapshotBeforeWrite(backend);
+      await backend.appendEvents([marker]);
+      await this.replaceWithProjection(backend, [...events, marker]);
+      return next;
+    });
+
+    if (target) {
+      crossTab.broadcast({ type: 'data-replaced', shortcodes: target.shortcodes });
+      logger.logUserAction(type === 'undone' ? 'undo' : 'redo', 'storage', {
+        eventType: target.type,
+        shortcodes: target.shortcodes,
+      });
+    }
+    return target;
+  }
+
+  /**
+   * Rewrite the URL store from the event log
+   */
+  private async replaceWithProjection(backend: StorageBackend, events: StorageEvent[]): Promise<void> {
+    const urls = projectEvents(events);
+    await backend.clearUrls();
+    await backend.putUrls(urls);
+  }
+
+  /**
+   * URLs in the active workspace as they stood at a past moment, replayed
+   * from the event log
+   */
+  public async getUrlsAsOf(asOf: Date): Promise<ShortUrl[]> {
+    const backend = await this.getBackend();
+    const workspaceId = workspaceService.getActiveId();
+    return projectEvents(await backend.getEvents(), asOf)
+      .filter(url => workspaceOf(url) === workspaceId && !url.deletedAt);
+  }
+
+  /**
+   * The full event log, oldest first, e.g. for merging on another device
+   */
+  public async getEventLog(): Promise<StorageEvent[]> {
+    const backend = await this.getBackend();
+    return backend.getEvents();
+  }
+
+  /**
+   * Merge events recorded on another device; both devices end up with the
+   * same state once they hold the same events
+   */
+  public async mergeEventLog(incoming: StorageEvent[]): Promise<number> {
+    const backend = await this.getBackend();
+
+    const added = await this.withEventLogLock(backend, async () => {
+      const local = await backend.getEvents();
+      const knownIds = new Set(local.map(event => event.id));
+      const unseen = incoming.filter(event => !knownIds.has(event.id));
+      if (unseen.length === 0) return 0;
+
+      await this.snapshotBeforeWrite(backend);
+      await backend.appendEvents(unseen);
+      await this.replaceWithProjection(backend, mergeEventLogs(local, unseen));
+      return unseen.length;
+    });
+
+    if (added > 0) {
+      crossTab.broadcast({ type: 'data-replaced', shortcodes: [] });
+    }
+    logger.info('storage', 'Event log merged', { received: incoming.length, added });
+    return added;
+  }
+
+  public getEncryptionState(): EncryptionState {
+    if (!readEncryptionSettings()) return 'disabled';
+    return this.cipher ? 'unlocked' : 'locked';
+  }
+
+  /**
+   * Derive the key from the passphrase; throws IncorrectPassphraseError
+   */
+  public async unlock(passphrase: string): Promise<void> {
+    const settings = readEncryptionSettings();
+    if (!settings) return;
+
+    this.cipher = await unlockCipher(settings, passphrase);
+    this.invalidateCache();
+    logger.info('storage', 'Encrypted storage unlocked');
+  }
+
+  /**
+   * Turn on encryption and re-write all stored data under the new key
+   */
+  public async enableEncryption(passphrase: string): Promise<void> {
+    if (readEncryptionSettings()) {
+      throw new Error('Encryption is already enabled');
+    }
+    const { settings, cipher } = await createEncryptionSettings(passphrase);
+    await this.rekey(cipher, settings);
+    logger.warn('storage', 'At-rest encryption enabled');
+  }
+
+  /**
+   * Re-encrypt all stored data under a key derived from a new passphrase
+   */
+  public async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    await this.verifyPassphrase(currentPassphrase);
+    const { settings, cipher } = await createEncryptionSettings(newPassphrase);
+    await this.rekey(cipher, settings);
+    logger.warn('storage', 'Encryption passphrase changed');
+  }
+
+  /**
+   * Decrypt all stored data and turn encryption off
+   */
+  public async disableEncryption(passphrase: string): Promise<void> {
+    await this.verifyPassphrase(passphrase);
+    await this.rekey(null, null);
+    logger.warn('storage', 'At-rest encryption disabled');
+  }
+
+  private async verifyPassphrase(passphrase: string): Promise<void> {
+    const settings = readEncryptionSettings();
+    if (!settings) {
+      throw new Error('Encryption is not enabled');
+    }
+    this.cipher = await unlockCipher(settings, passphrase);
+  }
+
+  /**
+   * Read everything with the current key and swap in a copy written with
+   * `cipher` (or in plain form when null). The new settings stay pending
+   * until the swap has committed; only then are snapshots sealed with the
+   * old key replaced by one snapshot of the re-written data.
+   */
+  private async rekey(cipher: PayloadCipher | null, settings: EncryptionSettings | null): Promise<void> {
+    const storageBackend = await this.getStorageBackend();
+
+    await crossTab.withWriteLock(async () => {
+      const current = await this.getBackend();
+      const [urls, clicks, rollups, events] = await Promise.all([
+        current.getAllUrls(),
+        current.getAllClicks(),
+        current.getAllRollups(),
+        current.getEvents(),
+      ]);
+
+      const target = cipher ? new EncryptedBackend(storageBackend, cipher) : storageBackend;
+      beginEncryptionChange(settings);
+      try {
+        await target.replaceAll({ urls, clicks, rollups, events }, keyIdOf(settings));
+      } catch (error) {
+        endEncryptionChange(false);
+        logger.error('storage', 'Re-encryption failed; stored data is unchanged', { error: error.message });
+        throw error;
+      }
+      endEncryptionChange(true);
+      this.cipher = cipher;
+
+      try {
+        await storageBackend.clearSnapshots();
+        if (urls.length > 0) {
+          await target.writeSnapshot(urls);
+        }
+      } catch (error) {
+        logger.warn('storage', 'Failed to replace snapshots after re-encryption', { error: error.message });
+      }
+
+      logger.info('storage', 'Stored data re-encrypted', {
+        urlCount: urls.length,
+        clickCount: clicks.length,
+        encrypted: cipher !== null,
+      });
+    });
+
+    this.invalidateCache();
+    crossTab.broadcast({ type: 'encryption-changed', shortcodes: [] });
+  }
+
+  /**
+   * Listen for changes made by this tab or any other open tab
+   */
+  public subscribe(listener: (event: StorageChangeEvent) => void): () => void {
+    return crossTab.subscribe(listener);
+  }
+
+  /**
+   * Get URLs in the active workspace with pagination
+   */
+  public async getUrlsPaginated(page: number = 0, limit: number = 10): Promise<{
     urls: ShortUrl[];
     total: number;
     hasMore: boolean;
-  } {
-    const allUrls = this.loadUrls().sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }> {
+    const allUrls = (await this.getCache()).newestFirst(workspaceService.getActiveId());
     const start = page * limit;
     const end = start + limit;
-    
+
     return {
       urls: allUrls.slice(start, end),
       total: allUrls.length,
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { isShortcodeReserved, reserveShortcodes } from './trash';
+import { makeUrl } from '../test/fixtures';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('reserveShortcodes', () => {
+  const purgedAt = new Date('2024-03-01T00:00:00Z');
+  const deleted = makeUrl({ shortcode: 'promo1', deletedAt: new Date('2024-01-01T00:00:00Z') });
+
+  it('starts the cooldown when the link is purged, not when it was deleted', () => {
+    reserveShortcodes([deleted], { purgeAfterDays: 60, cooldownDays: 30 }, purgedAt);
+
+    expect(isShortcodeReserved('PROMO1', new Date(purgedAt.getTime() + 29 * DAY_MS))).toBe(true);
+    expect(isShortcodeReserved('promo1', new Date(purgedAt.getTime() + 31 * DAY_MS))).toBe(false);
+  });
+
+  it('reserves nothing without a cooldown', () => {
+    reserveShortcodes([deleted], { purgeAfterDays: 30, cooldownDays: 0 }, purgedAt);
+    expect(isShortcodeReserved('promo1', purgedAt)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { ShortUrl } from '../types';
+import { logger } from '../middleware/logger';
+
+export interface TrashPolicy {
+  /** Links in the trash longer than this are purged for good */
+  purgeAfterDays: number;
+  /** A deleted link's shortcode cannot be reused until this long after it is purged */
+  cooldownDays: number;
+}
+
+const TRASH_POLICY_KEY = 'affordmed_trash_policy';
+const RESERVED_SHORTCODES_KEY = 'affordmed_reserved_shortcodes';
+export const DEFAULT_TRASH_POLICY: TrashPolicy = { purgeAfterDays: 30, cooldownDays: 90 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function isWholeDays(value: unknown, min: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min;
+}
+
+/**
+ * Read the configured trash policy, falling back to the default
+ */
+export function getTrashPolicy(): TrashPolicy {
+  try {
+    const stored = localStorage.getItem(TRASH_POLICY_KEY);
+    if (stored) {
+      const policy = JSON.parse(stored) as TrashPolicy;
+      if (isWholeDays(policy.purgeAfterDays, 1) && isWholeDays(policy.cooldownDays, 0)) {
+        return policy;
+      }
+    }
+  } catch (error) {
+    logger.warn('trash', 'Failed to read trash policy', { error: error.message });
+  }
+  return DEFAULT_TRASH_POLICY;
+}
+
+export function setTrashPolicy(policy: TrashPolicy): void {
+  if (!isWholeDays(policy.purgeAfterDays, 1)) {
+    throw new Error('Grace period must be a whole number of days, at least 1');
+  }
+  if (!isWholeDays(policy.cooldownDays, 0)) {
+    throw new Error('Shortcode cooldown must be a whole number of days');
+  }
+  localStorage.setItem(TRASH_POLICY_KEY, JSON.stringify(policy));
+  logger.info('trash', 'Trash policy updated', { ...policy });
+}
+
+/**
+ * Cutoff before which trashed links are due for purging
+ */
+export function purgeCutoff(policy: TrashPolicy, now: Date = new Date()): Date {
+  return new Date(now.getTime() - policy.purgeAfterDays * DAY_MS);
+}
+
+/**
+ * Shortcode -> release time (ms) for purged links still cooling down
+ */
+function readReservations(now: number): Map<string, number> {
+  try {
+    const stored: Record<string, number> = JSON.parse(localStorage.getItem(RESERVED_SHORTCODES_KEY) || '{}');
+    return new Map(Object.entries(stored).filter(([, releaseAt]) => releaseAt > now));
+  } catch (error) {
+    logger.warn('trash', 'Failed to read reserved shortcodes', { error: error.message });
+    return new Map();
+  }
+}
+
+/**
+ * Keep purged links' shortcodes out of circulation until their cooldown ends,
+ * so old printed links never lead to someone else's destination. The
+ * cooldown starts at the purge, since the shortcode stays taken while its
+ * link sits in the trash.
+ */
+export function reserveShortcodes(urls: ShortUrl[], policy: TrashPolicy, now: Date = new Date()): void {
+  const reservations = readReservations(now.getTime());
+  const releaseAt = now.getTime() + policy.cooldownDays * DAY_MS;
+  if (releaseAt > now.getTime()) {
+    urls.forEach(url => reservations.set(url.shortcode, releaseAt));
+  }
+  localStorage.setItem(RESERVED_SHORTCODES_KEY, JSON.stringify(Object.fromEntries(reservations)));
+}
+
+export function isShortcodeReserved(shortcode: string, now: Date = new Date()): boolean {
+  const folded = shortcode.toLowerCase();
+  return Array.from(readReservations(now.getTime()).keys()).some(reserved => reserved.toLowerCase() === folded);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { UrlCache } from './urlCache';
+import { makeUrl } from '../test/fixtures';
+
+const AFTER_EXPIRY = new Date('2024-01-02T00:00:00Z');
+
+describe('UrlCache', () => {
+  it('counts expired links per workspace', () => {
+    const cache = new UrlCache([
+      makeUrl({ shortcode: 'a1' }),
+      makeUrl({ shortcode: 'a2', workspaceId: 'w2' }),
+      makeUrl({ shortcode: 'a3', workspaceId: 'w2', expiresAt: null }),
+    ]);
+
+    expect(cache.countExpired(AFTER_EXPIRY)).toBe(2);
+    expect(cache.countExpired(AFTER_EXPIRY, 'default')).toBe(1);
+    expect(cache.countExpired(AFTER_EXPIRY, 'w2')).toBe(1);
+    expect(cache.countExpired(AFTER_EXPIRY, 'missing')).toBe(0);
+  });
+
+  it('keeps the workspace counts in step with upserts and removals', () => {
+    const moved = makeUrl({ shortcode: 'a1' });
+    const cache = new UrlCache([moved, makeUrl({ shortcode: 'a2' })]);
+
+    cache.upsert({ ...moved, workspaceId: 'w2' });
+    expect(cache.countExpired(AFTER_EXPIRY, 'default')).toBe(1);
+    expect(cache.countExpired(AFTER_EXPIRY, 'w2')).toBe(1);
+
+    cache.upsert({ ...moved, workspaceId: 'w2', deletedAt: AFTER_EXPIRY });
+    expect(cache.countExpired(AFTER_EXPIRY, 'w2')).toBe(0);
+  });
+
+  it('groups stored shortcodes that differ only in case', () => {
+    const cache = new UrlCache(['Promo', 'promo', 'PROMO', 'docs1', 'Sale1'].map(shortcode => makeUrl({ shortcode })));
+
+    expect(cache.caseCollisions()).toEqual([['Promo', 'promo', 'PROMO']]);
+    expect(cache.get('promo')?.shortcode).toBe('promo');
+  });
+
+  it('removes the exact link among several expiring at the same time', () => {
+    const urls = ['a1', 'a2', 'a3'].map(shortcode => makeUrl({ shortcode }));
+    const cache = new UrlCache(urls);
+
+    cache.remove(urls[1]);
+
+    expect(cache.countExpired(AFTER_EXPIRY)).toBe(2);
+    expect(cache.newestFirst().map(url => url.shortcode).sort()).toEqual(['a1', 'a3']);
+  });
+});
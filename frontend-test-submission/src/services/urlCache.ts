@@ -0,0 +1,227 @@
+import { ShortUrl } from '../types';
+import { workspaceOf } from './workspaces';
+import { normalizeUrl } from '../utils/validation';
+import { expiryTime } from './expiry';
+
+/**
+ * Index of the first element for which `isAfter` is true (binary search)
+ */
+function lowerBound<T>(items: T[], isAfter: (item: T) => boolean): number {
+  let low = 0;
+  let high = items.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (isAfter(items[mid])) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Sorted list of URLs ordered by one of their date fields
+ */
+class DateIndex {
+  private items: ShortUrl[] = [];
+
+  constructor(private readonly key: 'createdAt' | 'expiresAt') {}
+
+  public load(urls: ShortUrl[]): void {
+    this.items = [...urls].sort((a, b) => this.time(a) - this.time(b));
+  }
+
+  public insert(url: ShortUrl): void {
+    const time = this.time(url);
+    this.items.splice(lowerBound(this.items, item => this.time(item) > time), 0, url);
+  }
+
+  /** Remove `url` itself; entries sharing its date are searched from the first of them */
+  public remove(url: ShortUrl): void {
+    const time = this.time(url);
+    for (let index = lowerBound(this.items, item => this.time(item) >= time); index < this.items.length; index++) {
+      const item = this.items[index];
+      if (item === url) {
+        this.items.splice(index, 1);
+        return;
+      }
+      if (this.time(item) !== time) return;
+    }
+  }
+
+  /** Number of URLs whose date is at or before `date` */
+  public countAtOrBefore(date: Date): number {
+    const time = date.getTime();
+    return lowerBound(this.items, item => this.time(item) > time);
+  }
+
+  /** All URLs in ascending date order */
+  public ascending(): ShortUrl[] {
+    return this.items;
+  }
+
+  private time(url: ShortUrl): number {
+    return this.key === 'expiresAt' ? expiryTime(url) : url.createdAt.getTime();
+  }
+}
+
+/**
+ * In-memory cache of stored URLs with secondary indexes
+ * Primary lookup is by shortcode; originalUrl (normalized), workspace, expiry
+ * and createdAt are indexed so lookups and sorted reads never scan the full list.
+ * Shortcodes are unique across workspaces, ignoring case.
+ * Links in the trash keep their shortcode but are left out of every
+ * secondary index, so reads only ever see live links.
+ */
+export class UrlCache {
+  private byShortcode = new Map<string, ShortUrl>();
+  /** Lowercased shortcode -> stored shortcode */
+  private byFoldedShortcode = new Map<string, string>();
+  private byOriginalUrl = new Map<string, Set<string>>();
+  private byWorkspace = new Map<string, Set<string>>();
+  private byExpiry = new DateIndex('expiresAt');
+  /** Workspace id -> expiry index of its live URLs */
+  private byWorkspaceExpiry = new Map<string, DateIndex>();
+  private byCreatedAt = new DateIndex('createdAt');
+  private trash = new Set<string>();
+
+  constructor(urls: ShortUrl[] = []) {
+    this.load(urls);
+  }
+
+  public load(urls: ShortUrl[]): void {
+    const live = urls.filter(url => !url.deletedAt);
+    this.byShortcode = new Map(urls.map(url => [url.shortcode, url]));
+    this.byFoldedShortcode = new Map(urls.map(url => [url.shortcode.toLowerCase(), url.shortcode]));
+    this.trash = new Set(urls.filter(url => url.deletedAt).map(url => url.shortcode));
+    this.byOriginalUrl = new Map();
+    this.byWorkspace = new Map();
+    this.byWorkspaceExpiry = new Map();
+    live.forEach(url => {
+      this.indexOriginalUrl(url);
+      this.indexWorkspace(url);
+    });
+    this.byExpiry.load(live);
+    this.byCreatedAt.load(live);
+    this.byWorkspace.forEach((shortcodes, workspaceId) => {
+      const index = new DateIndex('expiresAt');
+      index.load(Array.from(shortcodes, code => this.byShortcode.get(code)!));
+      this.byWorkspaceExpiry.set(workspaceId, index);
+    });
+  }
+
+  public get size(): number {
+    return this.byShortcode.size;
+  }
+
+  public get(shortcode: string): ShortUrl | undefined {
+    return this.byShortcode.get(shortcode);
+  }
+
+  public has(shortcode: string): boolean {
+    return this.byShortcode.has(shortcode);
+  }
+
+  /** Whether a stored shortcode matches `shortcode` in any case, e.g. Promo for promo */
+  public hasIgnoringCase(shortcode: string): boolean {
+    return this.byFoldedShortcode.has(shortcode.toLowerCase());
+  }
+
+  /**
+   * Stored shortcodes that differ only in case, e.g. Promo and promo, grouped;
+   * they can only date from before case was ignored
+   */
+  public caseCollisions(): string[][] {
+    const groups = new Map<string, string[]>();
+    this.byShortcode.forEach((_, shortcode) => {
+      const folded = shortcode.toLowerCase();
+      groups.set(folded, [...(groups.get(folded) || []), shortcode]);
+    });
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+
+  /** Every live URL, or only those in one workspace */
+  public values(workspaceId?: string): ShortUrl[] {
+    if (workspaceId === undefined) {
+      return Array.from(this.byWorkspace.keys()).flatMap(id => this.values(id));
+    }
+    const shortcodes = this.byWorkspace.get(workspaceId);
+    return shortcodes ? Array.from(shortcodes, code => this.byShortcode.get(code)!) : [];
+  }
+
+  /** URLs in the trash, optionally within one workspace */
+  public trashed(workspaceId?: string): ShortUrl[] {
+    const urls = Array.from(this.trash, code => this.byShortcode.get(code)!);
+    return workspaceId === undefined ? urls : urls.filter(url => workspaceOf(url) === workspaceId);
+  }
+
+  /** Live URLs whose destination normalizes to the same URL */
+  public findByOriginalUrl(originalUrl: string, workspaceId?: string): ShortUrl[] {
+    const shortcodes = this.byOriginalUrl.get(normalizeUrl(originalUrl));
+    const urls = shortcodes ? Array.from(shortcodes, code => this.byShortcode.get(code)!) : [];
+    return workspaceId === undefined ? urls : urls.filter(url => workspaceOf(url) === workspaceId);
+  }
+
+  /** Number of URLs that have expired as of `now`, optionally within one workspace */
+  public countExpired(now: Date = new Date(), workspaceId?: string): number {
+    const index = workspaceId === undefined ? this.byExpiry : this.byWorkspaceExpiry.get(workspaceId);
+    return index ? index.countAtOrBefore(now) : 0;
+  }
+
+  /** URLs sorted newest first, optionally within one workspace */
+  public newestFirst(workspaceId?: string): ShortUrl[] {
+    const ascending = workspaceId === undefined
+      ? this.byCreatedAt.ascending()
+      : this.byCreatedAt.ascending().filter(url => workspaceOf(url) === workspaceId);
+    return [...ascending].reverse();
+  }
+
+  public upsert(url: ShortUrl): void {
+    const existing = this.byShortcode.get(url.shortcode);
+    if (existing) {
+      this.remove(existing);
+    }
+
+    this.byShortcode.set(url.shortcode, url);
+    this.byFoldedShortcode.set(url.shortcode.toLowerCase(), url.shortcode);
+    if (url.deletedAt) {
+      this.trash.add(url.shortcode);
+      return;
+    }
+    this.indexOriginalUrl(url);
+    this.indexWorkspace(url);
+    this.byExpiry.insert(url);
+    this.byCreatedAt.insert(url);
+    const workspaceExpiry = this.byWorkspaceExpiry.get(workspaceOf(url)) || new DateIndex('expiresAt');
+    workspaceExpiry.insert(url);
+    this.byWorkspaceExpiry.set(workspaceOf(url), workspaceExpiry);
+  }
+
+  public remove(url: ShortUrl): void {
+    this.byShortcode.delete(url.shortcode);
+    if (this.byFoldedShortcode.get(url.shortcode.toLowerCase()) === url.shortcode) {
+      this.byFoldedShortcode.delete(url.shortcode.toLowerCase());
+    }
+    this.trash.delete(url.shortcode);
+    this.byOriginalUrl.get(normalizeUrl(url.originalUrl))?.delete(url.shortcode);
+    this.byWorkspace.get(workspaceOf(url))?.delete(url.shortcode);
+    this.byExpiry.remove(url);
+    this.byCreatedAt.remove(url);
+    this.byWorkspaceExpiry.get(workspaceOf(url))?.remove(url);
+  }
+
+  private indexOriginalUrl(url: ShortUrl): void {
+    const key = normalizeUrl(url.originalUrl);
+    const shortcodes = this.byOriginalUrl.get(key) || new Set<string>();
+    shortcodes.add(url.shortcode);
+    this.byOriginalUrl.set(key, shortcodes);
+  }
+
+  private indexWorkspace(url: ShortUrl): void {
+    const workspaceId = workspaceOf(url);
+    const shortcodes = this.byWorkspace.get(workspaceId) || new Set<string>();
+    shortcodes.add(url.shortcode);
+    this.byWorkspace.set(workspaceId, shortcodes);
+  }
+}
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { urlService } from './urlService';
+import { storageService } from './storage';
+
+describe('UrlService.createUrls', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    storageService.invalidateCache();
+  });
+
+  it('fails only the rows whose shortcode was taken while saving', async () => {
+    vi.spyOn(storageService, 'addUrls').mockResolvedValue(['promo']);
+
+    const response = await urlService.createUrls([
+      { originalUrl: 'https://example.com/a', customShortcode: 'promo' },
+      { originalUrl: 'https://example.com/b', customShortcode: 'docs' },
+    ]);
+
+    expect(response.success.map(url => url.shortcode)).toEqual(['docs']);
+    expect(response.errors).toHaveLength(1);
+    expect(response.errors[0]).toMatchObject({ index: 0 });
+    expect(response.errors[0].suggestions?.length).toBeGreaterThan(0);
+  });
+});
+
+describe('UrlService dedupe', () => {
+  afterEach(() => {
+    storageService.invalidateCache();
+  });
+
+  const passthrough = { forwardQuery: true, conflictPolicy: 'incoming' as const, wildcardPath: false };
+
+  it('reuses a link with the same expiry and passthrough', async () => {
+    const first = await urlService.createUrls([{ originalUrl: 'https://example.com/a', validityMinutes: 60, dedupe: true }]);
+    const second = await urlService.createUrls([{ originalUrl: 'https://example.com/a', validityMinutes: 60, dedupe: true }]);
+
+    expect(second.reused).toEqual([first.success[0].shortcode]);
+    expect(second.dedupeReasons[first.success[0].shortcode]).toMatch(/^Reused/);
+  });
+
+  it('creates a new link when the existing one expires differently', async () => {
+    const first = await urlService.createUrls([{ originalUrl: 'https://example.com/a', validityMinutes: 30, dedupe: true }]);
+    const second = await urlService.createUrls([{
+      originalUrl: 'https://example.com/a',
+      expiry: { type: 'inactivity', days: 7 },
+      dedupe: true,
+    }]);
+
+    const shortcode = second.success[0].shortcode;
+    expect(shortcode).not.toBe(first.success[0].shortcode);
+    expect(second.reused).toEqual([]);
+    expect(second.dedupeReasons[shortcode]).toMatch(/expire differently/);
+  });
+
+  it('creates a new link when the existing one forwards queries differently', async () => {
+    await urlService.createUrls([{ originalUrl: 'https://example.com/a', validityMinutes: 60, dedupe: true }]);
+    const second = await urlService.createUrls([{
+      originalUrl: 'https://example.com/a',
+      validityMinutes: 60,
+      passthrough,
+      dedupe: true,
+    }]);
+
+    expect(second.reused).toEqual([]);
+    expect(second.dedupeReasons[second.success[0].shortcode]).toMatch(/forward queries or paths differently/);
+  });
+});
+
+describe('UrlService.updateUrl', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const createdAt = new Date('2024-01-01T00:00:00Z');
+
+  afterEach(() => {
+    vi.useRealTimers();
+    storageService.invalidateCache();
+  });
+
+  it('keeps repeated extensions within the workspace maximum from go-live', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(createdAt);
+    const { success: [url] } = await urlService.createUrls([{ originalUrl: 'https://example.com/a', validityMinutes: 60 }]);
+
+    vi.setSystemTime(new Date(createdAt.getTime() + 20 * DAY_MS));
+    const extended = await urlService.updateUrl(url.shortcode, { expiresAt: new Date(createdAt.getTime() + 25 * DAY_MS) });
+    expect(extended.validityMinutes).toBe(25 * 24 * 60);
+
+    // Within 30 days of now, but past 30 days of go-live
+    await expect(urlService.updateUrl(url.shortcode, { expiresAt: new Date(createdAt.getTime() + 35 * DAY_MS) }))
+      .rejects.toThrow('Expiry can be at most 43200 minutes after the link went live');
+  });
+});
@@ -1,9 +1,68 @@
 import { v4 as uuidv4 } from 'uuid';
-import { ShortUrl, CreateUrlRequest, CreateUrlsResponse, ClickEvent } from '../types';
+import {
+  ShortUrl,
+  CreateUrlRequest,
+  CreateUrlsResponse,
+  ClickEvent,
+  ClickPage,
+  ClickBreakdown,
+  RollupGranularity,
+  StorageEvent,
+  Workspace,
+  UpdateUrlRequest,
+  ExpiryPolicy,
+} from '../types';
 import { storageService } from './storage';
-import { validateUrlRequests, generateShortcode, sanitizeUrl, sanitizeShortcode } from '../utils/validation';
+import { workspaceService } from './workspaces';
+import { ClickRetentionPolicy, getRetentionPolicy, setRetentionPolicy } from './clickRetention';
+import { TrashPolicy, getTrashPolicy, setTrashPolicy } from './trash';
+import { LinkExhaustedError, isExhausted } from './clickLimits';
+import { LinkNotYetActiveError, describeActiveHours } from './schedules';
+import { describeCondition, matchRedirectRule } from './redirectRules';
+import { getVisitorId, pickVariant } from './splitTests';
+import { applyUtmParameters } from './utm';
+import { LinkExpiredError, describeExpiryPolicy, expiryFor, expiryTime, isExpired, matchesExpiryPolicy, policyMinutes } from './expiry';
+import { LinkNotFoundError, LinkPausedError } from './linkErrors';
+import {
+  MAX_SHORTCODE_LENGTH,
+  SHORTCODE_GENERATORS,
+  ShortcodePolicy,
+  getShortcodeAllowlist,
+  getShortcodeBlocklist,
+  getShortcodePolicy,
+  lengthFor,
+  recordShortcodeAttempt,
+  setShortcodeAllowlist,
+  setShortcodeBlocklist,
+  setShortcodePolicy,
+  shortcodeRejection,
+} from './shortcodes';
+import { ShortcodeTakenError, shortcodeCandidates } from './shortcodeSuggestions';
+import { IncomingRequest, UnexpectedPathError, applyPassthrough, hasExtraPath, samePassthrough } from './passthrough';
+import {
+  IncorrectLinkPasswordError,
+  LinkPasswordRequiredError,
+  assertPasswordAttemptAllowed,
+  clearPasswordAttempts,
+  hashLinkPassword,
+  recordFailedPasswordAttempt,
+  verifyLinkPassword,
+} from './linkPasswords';
+import {
+  validateUrlRequests,
+  validateUpdateRequest,
+  formatValidationErrors,
+  sanitizeUrl,
+  sanitizeShortcode,
+  normalizeUrl,
+  isValidShortcode,
+} from '../utils/validation';
 import { logger } from '../middleware/logger';
 
+const MAX_SHORTCODE_ATTEMPTS = 20;
+const COLLISIONS_BEFORE_GROWING = 3;
+const DEFAULT_SUGGESTION_COUNT = 5;
+
 /**
  * Core URL shortening service
  * Handles all business logic for URL creation, management, and analytics
@@ -27,10 +86,15 @@ class UrlService {
     logger.logUrlEvent('Bulk URL creation started', '', { count: requests.length });
 
     // Validate all requests
-    const { valid, errors } = validateUrlRequests(requests);
+    const { valid, errors } = validateUrlRequests(requests, workspaceService.getActive().defaults.maxValidityMinutes);
 
     const success: ShortUrl[] = [];
-    const finalErrors: Array<{ index: number; error: string }> = [];
+    const created: ShortUrl[] = [];
+    const reused: string[] = [];
+    const dedupeReasons: CreateUrlsResponse['dedupeReasons'] = {};
+    const finalErrors: CreateUrlsResponse['errors'] = [];
+    // Request index behind each entry of `success`
+    const successIndexes: number[] = [];
 
     // Convert validation errors to response format
     errors.forEach(({ index, errors: validationErrors }) => {
@@ -42,43 +106,160 @@ class UrlService {
 
     // Process valid requests
     for (const request of valid) {
+      const originalIndex = requests.indexOf(request);
       try {
+        const dedupe = request.dedupe ? await this.findReusableUrl(request, created) : null;
+        if (dedupe?.url) {
+          success.push(dedupe.url);
+          successIndexes.push(originalIndex);
+          reused.push(dedupe.url.shortcode);
+          dedupeReasons[dedupe.url.shortcode] = dedupe.reason;
+          continue;
+        }
+
         const shortUrl = await this.createSingleUrl(request);
         success.push(shortUrl);
+        successIndexes.push(originalIndex);
+        created.push(shortUrl);
+        if (dedupe) {
+          dedupeReasons[shortUrl.shortcode] = dedupe.reason;
+        }
       } catch (error) {
-        const originalIndex = requests.findIndex(r => 
-          r.originalUrl === request.originalUrl && 
-          r.customShortcode === request.customShortcode
-        );
         finalErrors.push({
           index: originalIndex,
-          error: error.message
+          error: error.message,
+          suggestions: error instanceof ShortcodeTakenError ? error.suggestions : undefined,
         });
       }
     }
 
-    // Save successful URLs to storage
-    if (success.length > 0) {
-      storageService.addUrls(success);
+    // Save newly created URLs to storage; codes taken meanwhile fail only their own rows
+    const taken = new Set(created.length > 0 ? await storageService.addUrls(created) : []);
+    for (let i = success.length - 1; i >= 0; i--) {
+      const url = success[i];
+      if (!taken.has(url.shortcode)) continue;
+
+      finalErrors.push({
+        index: successIndexes[i],
+        error: `Shortcode "${url.shortcode}" was taken while saving; please try again`,
+        suggestions: url.isCustomShortcode ? await this.suggestShortcodes(url.shortcode) : undefined,
+      });
+      success.splice(i, 1);
+      successIndexes.splice(i, 1);
+      delete dedupeReasons[url.shortcode];
     }
+    finalErrors.sort((a, b) => a.index - b.index);
 
-    const response = { success, errors: finalErrors };
+    const response = {
+      success,
+      reused: reused.filter(shortcode => !taken.has(shortcode)),
+      dedupeReasons,
+      errors: finalErrors,
+    };
     
     logger.logUrlEvent('Bulk URL creation completed', '', {
       totalRequests: requests.length,
       successCount: success.length,
+      reusedCount: reused.length,
       errorCount: finalErrors.length
     });
 
     return response;
   }
 
+  /**
+   * Destination a request will be shortened to, UTM parameters included
+   */
+  private destinationOf(request: CreateUrlRequest): string {
+    return request.utm
+      ? applyUtmParameters(sanitizeUrl(request.originalUrl), request.utm)
+      : sanitizeUrl(request.originalUrl);
+  }
+
+  /**
+   * Expiry policy a request asks for, falling back to the workspace default
+   */
+  private expiryOf(request: CreateUrlRequest): ExpiryPolicy {
+    return request.expiry
+      || { type: 'duration', minutes: request.validityMinutes || workspaceService.getActive().defaults.validityMinutes };
+  }
+
+  /**
+   * Existing link a dedupe request can reuse: a live, generated shortcode in
+   * the active workspace, pointing at the same normalized destination, that
+   * expires the way the request asks (see matchesExpiryPolicy), forwards
+   * queries and paths the same way, and has none of the per-link options
+   * (password, click cap, schedule, rules...) that would make it behave
+   * differently. Links created earlier in the same batch count too.
+   * The reason says why a link was or wasn't reused, for the UI.
+   */
+  private async findReusableUrl(
+    request: CreateUrlRequest,
+    batch: ShortUrl[]
+  ): Promise<{ url: ShortUrl | null; reason: string }> {
+    const wantsOptions = Boolean(
+      request.customShortcode?.trim() || request.password || request.maxClicks !== undefined ||
+      request.activatesAt || request.activeHours ||
+      request.fallbackUrl?.trim() || request.expiredMessage?.trim()
+    );
+    if (wantsOptions) {
+      return {
+        url: null,
+        reason: 'New link: a custom shortcode, password, click limit, schedule or expired page was requested',
+      };
+    }
+
+    const destination = this.destinationOf(request);
+    const target = normalizeUrl(destination);
+    const now = new Date();
+    const expiry = this.expiryOf(request);
+    const passthrough = request.passthrough ?? null;
+    const candidates = [
+      ...batch.filter(url => normalizeUrl(url.originalUrl) === target),
+      ...await storageService.findByOriginalUrl(destination),
+    ];
+    if (candidates.length === 0) {
+      return { url: null, reason: 'New link: no existing link points to this destination' };
+    }
+
+    const plain = candidates.filter(url =>
+      !url.isCustomShortcode && !url.isPaused && !isExpired(url, now) &&
+      url.password === null && url.maxClicks === null && url.activatesAt === null &&
+      url.activeHours === null && url.redirectRules.length === 0 &&
+      url.splitVariants.length === 0 &&
+      url.fallbackUrl === null && url.expiredMessage === null
+    );
+    if (plain.length === 0) {
+      return { url: null, reason: 'New link: existing links to this destination are custom, paused, expired or have extra options' };
+    }
+
+    const sameExpiry = plain.filter(url => matchesExpiryPolicy(url, expiry));
+    if (sameExpiry.length === 0) {
+      return { url: null, reason: 'New link: existing links to this destination expire differently' };
+    }
+
+    const reusable = sameExpiry
+      .filter(url => samePassthrough(url.passthrough, passthrough))
+      // Prefer the link that stays valid longest
+      .sort((a, b) => expiryTime(b) - expiryTime(a))[0];
+    if (!reusable) {
+      return { url: null, reason: 'New link: existing links to this destination forward queries or paths differently' };
+    }
+
+    logger.logUrlEvent('Existing URL reused', reusable.shortcode, { originalUrl: destination });
+    return {
+      url: reusable,
+      reason: `Reused: same destination, expiry (${describeExpiryPolicy(reusable)}) and passthrough`,
+    };
+  }
+
   /**
    * Create a single short URL
    */
   private async createSingleUrl(request: CreateUrlRequest): Promise<ShortUrl> {
-    const sanitizedUrl = sanitizeUrl(request.originalUrl);
-    const validityMinutes = request.validityMinutes || 30; // Default to 30 minutes
+    const sanitizedUrl = this.destinationOf(request);
+    const workspace = workspaceService.getActive();
+    const expiry = this.expiryOf(request);
     
     let shortcode: string;
     let isCustomShortcode = false;
@@ -89,16 +270,19 @@ class UrlService {
       isCustomShortcode = true;
 
       // Check if custom shortcode is already in use
-      if (storageService.isShortcodeInUse(shortcode)) {
-        throw new Error(`Shortcode "${shortcode}" is already in use`);
+      if (await storageService.isShortcodeInUse(shortcode)) {
+        throw new ShortcodeTakenError(shortcode, await this.suggestShortcodes(shortcode));
       }
     } else {
       // Generate unique shortcode
-      shortcode = this.generateUniqueShortcode();
+      shortcode = await this.generateUniqueShortcode();
     }
 
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + validityMinutes * 60 * 1000);
+    const activatesAt = request.activatesAt && request.activatesAt > now ? request.activatesAt : null;
+    // A scheduled link's validity starts counting when it goes live
+    const expiresAt = expiryFor(expiry, activatesAt || now);
+    const validityMinutes = policyMinutes(expiry, activatesAt || now) ?? 0;
 
     const shortUrl: ShortUrl = {
       id: uuidv4(),
@@ -107,75 +291,367 @@ class UrlService {
       createdAt: now,
       expiresAt,
       validityMinutes,
-      clicks: [],
+      clickCount: 0,
       isCustomShortcode,
+      workspaceId: workspace.id,
+      isPaused: false,
+      deletedAt: null,
+      password: request.password ? await hashLinkPassword(request.password) : null,
+      maxClicks: request.maxClicks ?? null,
+      activatesAt,
+      activeHours: request.activeHours ?? null,
+      redirectRules: [],
+      splitVariants: [],
+      passthrough: request.passthrough ?? null,
+      inactivityDays: expiry.type === 'inactivity' ? expiry.days : null,
+      fallbackUrl: request.fallbackUrl?.trim() ? sanitizeUrl(request.fallbackUrl) : null,
+      expiredMessage: request.expiredMessage?.trim() || null,
     };
 
     logger.logUrlEvent('Single URL created', shortcode, {
       originalUrl: sanitizedUrl,
+      expiryPolicy: expiry.type,
       validityMinutes,
       isCustomShortcode,
-      expiresAt: expiresAt.toISOString(),
+      workspaceId: workspace.id,
+      passwordProtected: shortUrl.password !== null,
+      maxClicks: shortUrl.maxClicks,
+      activatesAt: activatesAt?.toISOString(),
+      activeHours: shortUrl.activeHours ? describeActiveHours(shortUrl.activeHours) : undefined,
+      expiresAt: expiresAt?.toISOString() ?? null,
     });
 
     return shortUrl;
   }
 
   /**
-   * Generate a unique shortcode that's not already in use
+   * Edit an existing short URL: change its destination, move its expiry or
+   * pause/resume it. Expired links can be edited too, e.g. to extend them.
    */
-  private generateUniqueShortcode(attempts: number = 0): string {
-    if (attempts > 10) {
-      throw new Error('Unable to generate unique shortcode after multiple attempts');
+  public async updateUrl(shortcode: string, patch: UpdateUrlRequest): Promise<ShortUrl> {
+    const { previous, updated } = await storageService.updateUrl(shortcode, current => {
+      // Checked against the stored link, under the write lock, since the limit counts from its go-live
+      const liveSince = current.activatesAt || current.createdAt;
+      const errors = validateUpdateRequest(patch, new Date(), workspaceService.maxValidityMinutesOf(current), liveSince);
+      if (errors.length > 0) {
+        throw new Error(formatValidationErrors(errors));
+      }
+
+      const changes: Partial<ShortUrl> = {};
+      if (patch.originalUrl !== undefined) {
+        changes.originalUrl = sanitizeUrl(patch.originalUrl);
+      }
+      if (patch.expiresAt !== undefined) {
+        changes.expiresAt = patch.expiresAt;
+        // Keep validityMinutes describing the link's full lifetime, from go-live as at creation
+        changes.validityMinutes = patch.expiresAt === null
+          ? 0
+          : Math.round((patch.expiresAt.getTime() - liveSince.getTime()) / 60000);
+        // A hand-picked expiry replaces inactivity expiry
+        changes.inactivityDays = null;
+      }
+      if (patch.isPaused !== undefined) {
+        changes.isPaused = patch.isPaused;
+      }
+      if (patch.redirectRules !== undefined) {
+        changes.redirectRules = patch.redirectRules.map(rule => ({ ...rule, destination: sanitizeUrl(rule.destination) }));
+      }
+      if (patch.passthrough !== undefined) {
+        changes.passthrough = patch.passthrough;
+      }
+      if (patch.splitVariants !== undefined) {
+        changes.splitVariants = patch.splitVariants.map(variant => ({ ...variant, destination: sanitizeUrl(variant.destination) }));
+      }
+      if (patch.fallbackUrl !== undefined) {
+        changes.fallbackUrl = patch.fallbackUrl?.trim() ? sanitizeUrl(patch.fallbackUrl) : null;
+      }
+      if (patch.expiredMessage !== undefined) {
+        changes.expiredMessage = patch.expiredMessage?.trim() || null;
+      }
+      return changes;
+    });
+
+    const fields = (Object.keys(updated) as Array<keyof ShortUrl>)
+      .filter(field => JSON.stringify(previous[field]) !== JSON.stringify(updated[field]));
+    logger.logUrlEvent('URL updated', shortcode, {
+      before: Object.fromEntries(fields.map(field => [field, previous[field]])),
+      after: Object.fromEntries(fields.map(field => [field, updated[field]])),
+    });
+
+    return updated;
+  }
+
+  /**
+   * End a link's A/B split by making one variant its only destination
+   */
+  public async promoteVariant(shortcode: string, variantId: string): Promise<ShortUrl> {
+    const { previous, updated } = await storageService.updateUrl(shortcode, current => {
+      const variant = current.splitVariants.find(candidate => candidate.id === variantId);
+      if (!variant) {
+        throw new Error('This variant is no longer part of the split');
+      }
+      return { originalUrl: variant.destination, splitVariants: [] };
+    });
+
+    logger.logUrlEvent('A/B split ended', shortcode, {
+      before: previous.originalUrl,
+      after: updated.originalUrl,
+      variants: previous.splitVariants.length,
+    });
+    return updated;
+  }
+
+  /**
+   * Move one or more links to the trash
+   */
+  public async deleteUrls(shortcodes: string[]): Promise<number> {
+    const count = await storageService.trashUrls(shortcodes);
+    logger.info('url-service', 'Links moved to trash', { requested: shortcodes.length, count });
+    return count;
+  }
+
+  public async restoreUrls(shortcodes: string[]): Promise<number> {
+    const count = await storageService.restoreUrls(shortcodes);
+    logger.info('url-service', 'Links restored from trash', { requested: shortcodes.length, count });
+    return count;
+  }
+
+  public async getTrash(): Promise<ShortUrl[]> {
+    return storageService.getTrash();
+  }
+
+  /**
+   * Permanently delete the given trashed links right away
+   */
+  public async purgeUrls(shortcodes: string[]): Promise<number> {
+    return storageService.purgeTrash(getTrashPolicy(), shortcodes);
+  }
+
+  public getTrashPolicy(): TrashPolicy {
+    return getTrashPolicy();
+  }
+
+  /**
+   * Save a new trash policy and purge anything now past its grace period
+   */
+  public async updateTrashPolicy(policy: TrashPolicy): Promise<void> {
+    setTrashPolicy(policy);
+    await storageService.purgeTrash(policy);
+  }
+
+  public getShortcodePolicy(): ShortcodePolicy {
+    return getShortcodePolicy();
+  }
+
+  public updateShortcodePolicy(policy: ShortcodePolicy): void {
+    setShortcodePolicy(policy);
+  }
+
+  /**
+   * Whether a custom shortcode could be used right now: well formed, not
+   * reserved or blocked, and not taken in any case
+   */
+  public async isShortcodeAvailable(shortcode: string): Promise<boolean> {
+    return isValidShortcode(shortcode) && shortcodeRejection(shortcode) === null &&
+      !await storageService.isShortcodeInUse(shortcode);
+  }
+
+  /**
+   * Up to `count` available shortcodes close to `desired`: numeric suffixes,
+   * abbreviations and synonyms. Checked against the store when called, so a
+   * suggestion can still be taken by the time it is submitted.
+   */
+  public async suggestShortcodes(desired: string, count: number = DEFAULT_SUGGESTION_COUNT): Promise<string[]> {
+    const base = sanitizeShortcode(desired);
+    const suggestions: string[] = [];
+    if (base === '') return suggestions;
+
+    const seen = new Set<string>([base.toLowerCase()]);
+    for (const candidate of shortcodeCandidates(base)) {
+      if (suggestions.length >= count) break;
+      const folded = candidate.toLowerCase();
+      if (seen.has(folded)) continue;
+      seen.add(folded);
+      if (await this.isShortcodeAvailable(candidate)) {
+        suggestions.push(candidate);
+      }
     }
 
-    const shortcode = generateShortcode(6);
-    
-    if (storageService.isShortcodeInUse(shortcode)) {
-      return this.generateUniqueShortcode(attempts + 1);
+    logger.debug('url-service', 'Shortcode suggestions', { desired: base, count: suggestions.length });
+    return suggestions;
+  }
+
+  public getShortcodeBlocklist(): string[] {
+    return getShortcodeBlocklist();
+  }
+
+  /**
+   * Replace the blocked terms; links that already use one keep working
+   */
+  public updateShortcodeBlocklist(terms: string[]): string[] {
+    return setShortcodeBlocklist(terms);
+  }
+
+  public getShortcodeAllowlist(): string[] {
+    return getShortcodeAllowlist();
+  }
+
+  /**
+   * Replace the words that excuse a blocked term inside them, e.g. class
+   */
+  public updateShortcodeAllowlist(terms: string[]): string[] {
+    return setShortcodeAllowlist(terms);
+  }
+
+  /**
+   * Generate a unique shortcode with the configured strategy
+   * The length starts where the number of stored codes leaves the keyspace
+   * mostly empty, and grows by one after every few collisions in a row.
+   */
+  private async generateUniqueShortcode(): Promise<string> {
+    const { strategy, minLength } = getShortcodePolicy();
+    const generator = SHORTCODE_GENERATORS[strategy];
+    let length = lengthFor(generator, minLength, await storageService.countShortcodes());
+
+    for (let attempt = 1; attempt <= MAX_SHORTCODE_ATTEMPTS; attempt++) {
+      const shortcode = await generator.next(length);
+      // Blocked words count as collisions, so the loop simply draws again
+      const taken = shortcodeRejection(shortcode) !== null || await storageService.isShortcodeInUse(shortcode);
+      recordShortcodeAttempt(strategy, shortcode.length, taken);
+      if (!taken) {
+        return shortcode;
+      }
+
+      logger.debug('url-service', 'Generated shortcode collided', { strategy, length, attempt });
+      if (attempt % COLLISIONS_BEFORE_GROWING === 0 && length < MAX_SHORTCODE_LENGTH) {
+        length++;
+      }
     }
 
-    return shortcode;
+    throw new Error('Unable to generate unique shortcode after multiple attempts');
   }
 
   /**
    * Redirect to original URL and record analytics
+   * Protected links need their password; the click is only recorded once it
+   * has been verified. The first matching redirect rule overrides the
+   * destination; otherwise an A/B split picks the visitor's variant. Either
+   * is recorded on the click. Links with passthrough on forward the visit's
+   * query string and extra path from `incoming`. An expired link with a
+   * fallback URL resolves to it without recording a click.
    */
-  public async redirectUrl(shortcode: string): Promise<string> {
+  public async redirectUrl(shortcode: string, password?: string, incoming?: IncomingRequest): Promise<string> {
     logger.logAnalyticsEvent('Redirect attempt', shortcode);
 
-    const shortUrl = storageService.findByShortcode(shortcode);
+    let shortUrl: ShortUrl | null;
+    try {
+      shortUrl = await storageService.findByShortcode(shortcode);
+    } catch (error) {
+      if (error instanceof LinkExpiredError) {
+        const { fallbackUrl, expiresAt } = error.url;
+        if (fallbackUrl) {
+          logger.logAnalyticsEvent('Expired URL sent to fallback', shortcode, { fallbackUrl });
+          return fallbackUrl;
+        }
+        logger.warn('url-service', 'Redirect to expired URL blocked', { shortcode, expiredAt: expiresAt?.toISOString() });
+      }
+      throw error;
+    }
     
     if (!shortUrl) {
       logger.warn('url-service', 'Shortcode not found', { shortcode });
-      throw new Error('Short URL not found or has expired');
+      throw new LinkNotFoundError(shortcode);
+    }
+
+    if (hasExtraPath(incoming) && !shortUrl.passthrough?.wildcardPath) {
+      logger.warn('url-service', 'Extra path on a link without wildcard paths', { shortcode, path: incoming.path });
+      throw new UnexpectedPathError(shortcode);
     }
 
+    if (shortUrl.isPaused) {
+      logger.warn('url-service', 'Redirect to paused URL blocked', { shortcode });
+      throw new LinkPausedError();
+    }
+
+    if (isExhausted(shortUrl)) {
+      logger.warn('url-service', 'Redirect to exhausted URL blocked', { shortcode, maxClicks: shortUrl.maxClicks });
+      throw new LinkExhaustedError(shortUrl.maxClicks!);
+    }
+
+    if (shortUrl.password) {
+      await this.verifyPassword(shortUrl, password);
+    }
+
+    const now = new Date();
+    const geoLocation = await this.getGeoLocation();
+    const rule = matchRedirectRule(shortUrl.redirectRules, {
+      userAgent: navigator.userAgent,
+      languages: navigator.languages?.length ? navigator.languages : [navigator.language],
+      country: geoLocation.country,
+      countryCode: geoLocation.countryCode,
+      now,
+    });
+    // Targeted rules win over the A/B split, which replaces the default destination
+    const variant = rule ? null : pickVariant(shortUrl.splitVariants, shortcode, getVisitorId());
+    const destination = applyPassthrough(
+      shortcode,
+      rule?.destination || variant?.destination || shortUrl.originalUrl,
+      shortUrl.passthrough,
+      incoming
+    );
+
     // Record click analytics
     const clickEvent: ClickEvent = {
       id: uuidv4(),
-      timestamp: new Date(),
+      shortcode,
+      timestamp: now,
       referrer: document.referrer || 'direct',
       userAgent: navigator.userAgent,
-      geoLocation: await this.getGeoLocation(),
+      geoLocation,
+      ...(rule && { matchedRuleId: rule.id }),
+      ...(variant && { variantId: variant.id }),
     };
 
-    storageService.recordClick(shortcode, clickEvent);
+    await storageService.recordClick(shortcode, clickEvent);
 
     logger.logAnalyticsEvent('Redirect successful', shortcode, {
       originalUrl: shortUrl.originalUrl,
+      destination,
+      matchedRule: rule ? describeCondition(rule.condition) : 'default',
+      variant: variant?.name,
       referrer: clickEvent.referrer,
-      totalClicks: shortUrl.clicks.length + 1,
+      totalClicks: shortUrl.clickCount + 1,
     });
 
-    return shortUrl.originalUrl;
+    return destination;
+  }
+
+  private async verifyPassword(shortUrl: ShortUrl, password: string | undefined): Promise<void> {
+    const { shortcode } = shortUrl;
+    if (!password) {
+      throw new LinkPasswordRequiredError();
+    }
+
+    assertPasswordAttemptAllowed(shortcode);
+    if (!(await verifyLinkPassword(password, shortUrl.password!))) {
+      const attemptsLeft = recordFailedPasswordAttempt(shortcode);
+      logger.warn('url-service', 'Incorrect link password', { shortcode, attemptsLeft });
+      if (attemptsLeft === 0) {
+        // Surface the lockout itself rather than "0 attempts left"
+        assertPasswordAttemptAllowed(shortcode);
+      }
+      throw new IncorrectLinkPasswordError(attemptsLeft);
+    }
+
+    clearPasswordAttempts(shortcode);
+    logger.logAnalyticsEvent('Link password verified', shortcode);
   }
 
   /**
    * Get all URLs for statistics page
    */
-  public getAllUrls(): ShortUrl[] {
-    const urls = storageService.loadUrls();
+  public async getAllUrls(): Promise<ShortUrl[]> {
+    const urls = await storageService.loadUrls();
     logger.info('url-service', 'Retrieved all URLs for statistics', { count: urls.length });
     return urls;
   }
@@ -183,8 +659,8 @@ class UrlService {
   /**
    * Get URLs with pagination
    */
-  public getUrlsPaginated(page: number = 0, limit: number = 10) {
-    const result = storageService.getUrlsPaginated(page, limit);
+  public async getUrlsPaginated(page: number = 0, limit: number = 10) {
+    const result = await storageService.getUrlsPaginated(page, limit);
     logger.info('url-service', 'Retrieved paginated URLs', {
       page,
       limit,
@@ -194,11 +670,83 @@ class UrlService {
     return result;
   }
 
+  /**
+   * Get a page of click events for one short URL, newest first
+   */
+  public async getClicksPaginated(shortcode: string, page: number = 0, limit: number = 20): Promise<ClickPage> {
+    const result = await storageService.getClicksPaginated(shortcode, page, limit);
+    logger.info('url-service', 'Retrieved paginated clicks', {
+      shortcode,
+      page,
+      count: result.clicks.length,
+      total: result.total,
+    });
+    return result;
+  }
+
+  /**
+   * Get click totals for one short URL, including compacted older clicks
+   */
+  public async getClickBreakdown(shortcode: string, granularity: RollupGranularity = 'day'): Promise<ClickBreakdown> {
+    return storageService.getClickBreakdown(shortcode, granularity);
+  }
+
+  public getRetentionPolicy(): ClickRetentionPolicy {
+    return getRetentionPolicy();
+  }
+
+  /**
+   * Save a new retention policy and compact anything it now excludes
+   */
+  public async updateRetentionPolicy(policy: ClickRetentionPolicy): Promise<void> {
+    setRetentionPolicy(policy);
+    await storageService.compactClicks(policy);
+  }
+
+  /**
+   * The changes undo and redo would act on next
+   */
+  public async getHistoryState(): Promise<{ undo: StorageEvent | null; redo: StorageEvent | null }> {
+    return storageService.getHistoryState();
+  }
+
+  public async undoLastChange(): Promise<StorageEvent | null> {
+    return storageService.undo();
+  }
+
+  public async redoLastChange(): Promise<StorageEvent | null> {
+    return storageService.redo();
+  }
+
+  /**
+   * URLs as they were at a past moment, for auditing
+   */
+  public async getUrlsAsOf(asOf: Date): Promise<ShortUrl[]> {
+    const urls = await storageService.getUrlsAsOf(asOf);
+    logger.info('url-service', 'Retrieved URLs as of a past date', {
+      asOf: asOf.toISOString(),
+      count: urls.length,
+    });
+    return urls;
+  }
+
+  /**
+   * Delete a workspace; only empty workspaces can be deleted so no link
+   * is ever left without one
+   */
+  public async deleteWorkspace(workspace: Workspace): Promise<void> {
+    const count = await storageService.countUrlsInWorkspace(workspace.id);
+    if (count > 0) {
+      throw new Error(`"${workspace.name}" still has ${count} link${count !== 1 ? 's' : ''}`);
+    }
+    workspaceService.remove(workspace.id);
+  }
+
   /**
    * Get analytics summary
    */
-  public getAnalyticsSummary() {
-    const analytics = storageService.getAnalytics();
+  public async getAnalyticsSummary() {
+    const analytics = await storageService.getAnalytics();
     logger.info('analytics', 'Analytics summary retrieved', analytics);
     return analytics;
   }
@@ -206,7 +754,7 @@ class UrlService {
   /**
    * Simple geolocation detection (placeholder implementation)
    */
-  private async getGeoLocation(): Promise<{ country?: string; city?: string }> {
+  private async getGeoLocation(): Promise<{ country?: string; countryCode?: string; city?: string }> {
     try {
       // In a real implementation, you would use a geolocation API
       // For this demo, we'll use a placeholder
@@ -215,6 +763,7 @@ class UrlService {
         const data = await response.json();
         return {
           country: data.country_name,
+          countryCode: data.country_code,
           city: data.city,
         };
       }
@@ -228,15 +777,20 @@ class UrlService {
   /**
    * Check if shortcode exists and is valid
    */
-  public isValidShortcode(shortcode: string): boolean {
-    const shortUrl = storageService.findByShortcode(shortcode);
-    return shortUrl !== null;
+  public async isValidShortcode(shortcode: string): Promise<boolean> {
+    try {
+      const shortUrl = await storageService.findByShortcode(shortcode);
+      return shortUrl !== null;
+    } catch (error) {
+      if (error instanceof LinkNotYetActiveError || error instanceof LinkExpiredError) return false;
+      throw error;
+    }
   }
 
   /**
-   * Get URL by shortcode for display
+   * Get URL by shortcode for display; throws like StorageService.findByShortcode
    */
-  public getUrlByShortcode(shortcode: string): ShortUrl | null {
+  public async getUrlByShortcode(shortcode: string): Promise<ShortUrl | null> {
     return storageService.findByShortcode(shortcode);
   }
 }
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { applyUtmParameters, deleteUtmPreset, hasUtmParameters, listUtmPresets, readUtmParameters, saveUtmPreset } from './utm';
+
+describe('applyUtmParameters', () => {
+  it('adds trimmed, non-empty parameters', () => {
+    expect(applyUtmParameters('https://example.com/', { source: ' news ', medium: '', campaign: 'spring' }))
+      .toBe('https://example.com/?utm_source=news&utm_campaign=spring');
+  });
+
+  it('replaces existing UTM values and keeps other parameters and the fragment', () => {
+    expect(applyUtmParameters('https://example.com/p?a=1&utm_source=old#top', { source: 'new' }))
+      .toBe('https://example.com/p?a=1&utm_source=new#top');
+  });
+});
+
+describe('readUtmParameters', () => {
+  it('reads the utm_* parameters of a URL', () => {
+    expect(readUtmParameters('https://example.com/?utm_source=a&utm_term=b&x=1')).toEqual({ source: 'a', term: 'b' });
+  });
+
+  it('returns nothing for an invalid URL', () => {
+    expect(readUtmParameters('not a url')).toEqual({});
+  });
+});
+
+describe('UTM presets', () => {
+  it('requires a name and at least one parameter', () => {
+    expect(hasUtmParameters({ source: '  ' })).toBe(false);
+    expect(() => saveUtmPreset(' ', { source: 'a' })).toThrow('Preset name is required');
+    expect(() => saveUtmPreset('Spring', {})).toThrow('Fill in at least one UTM parameter');
+  });
+
+  it('replaces a preset with the same name, ignoring case', () => {
+    const first = saveUtmPreset('Spring', { source: 'a' });
+    const second = saveUtmPreset('spring', { source: 'b' });
+    expect(second.id).toBe(first.id);
+    expect(listUtmPresets()).toEqual([second]);
+
+    deleteUtmPreset(second.id);
+    expect(listUtmPresets()).toEqual([]);
+  });
+});
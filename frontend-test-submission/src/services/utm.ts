@@ -0,0 +1,86 @@
+import { v4 as uuidv4 } from 'uuid';
+import { UtmParameters, UtmPreset } from '../types';
+import { logger } from '../middleware/logger';
+import { encodePair, mergeQuery } from './queryStrings';
+
+/**
+ * UTM campaign tagging
+ * Parameters are merged into the destination's query string without
+ * re-encoding what is already there, and saved presets live in localStorage.
+ */
+
+const PRESETS_KEY = 'affordmed_utm_presets';
+
+export const UTM_FIELDS: Array<keyof UtmParameters> = ['source', 'medium', 'campaign', 'term', 'content'];
+export const MAX_UTM_VALUE_LENGTH = 200;
+
+export function hasUtmParameters(params: UtmParameters): boolean {
+  return UTM_FIELDS.some(field => params[field]?.trim());
+}
+
+/**
+ * Add utm_* parameters to `url`, replacing any it already carries.
+ * Other query parameters and the fragment are kept exactly as written.
+ */
+export function applyUtmParameters(url: string, params: UtmParameters): string {
+  const pairs = UTM_FIELDS
+    .filter(field => params[field]?.trim())
+    .map(field => encodePair(`utm_${field}`, params[field]!.trim()));
+
+  return mergeQuery(url, pairs, 'incoming');
+}
+
+/**
+ * UTM parameters carried by a destination URL
+ */
+export function readUtmParameters(url: string): UtmParameters {
+  try {
+    const searchParams = new URL(url).searchParams;
+    const params: UtmParameters = {};
+    UTM_FIELDS.forEach(field => {
+      const value = searchParams.get(`utm_${field}`);
+      if (value) params[field] = value;
+    });
+    return params;
+  } catch {
+    return {};
+  }
+}
+
+export function listUtmPresets(): UtmPreset[] {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch (error) {
+    logger.warn('utm', 'Failed to read UTM presets', { error: error.message });
+    return [];
+  }
+}
+
+function writePresets(presets: UtmPreset[]): void {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+/**
+ * Save parameters under a name; an existing preset with that name is replaced
+ */
+export function saveUtmPreset(name: string, params: UtmParameters): UtmPreset {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Preset name is required');
+  }
+  if (!hasUtmParameters(params)) {
+    throw new Error('Fill in at least one UTM parameter before saving a preset');
+  }
+
+  const presets = listUtmPresets();
+  const existing = presets.find(preset => preset.name.toLowerCase() === trimmed.toLowerCase());
+  const preset: UtmPreset = { id: existing?.id || uuidv4(), name: trimmed, params };
+  writePresets([...presets.filter(other => other.id !== preset.id), preset]);
+  logger.info('utm', 'UTM preset saved', { name: trimmed, replaced: Boolean(existing) });
+  return preset;
+}
+
+export function deleteUtmPreset(id: string): void {
+  writePresets(listUtmPresets().filter(preset => preset.id !== id));
+  logger.info('utm', 'UTM preset deleted', { id });
+}
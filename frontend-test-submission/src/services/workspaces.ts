@@ -0,0 +1,196 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ShortUrl, Workspace, WorkspaceDefaults } from '../types';
+import { logger } from '../middleware/logger';
+import { crossTab } from './crossTab';
+import { DEFAULT_MAX_VALIDITY_MINUTES, isValidValidityMinutes } from '../utils/validation';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const WORKSPACES_KEY = 'affordmed_workspaces';
+const ACTIVE_WORKSPACE_KEY = 'affordmed_active_workspace';
+
+const DEFAULT_WORKSPACE: Workspace = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: 'Default',
+  createdAt: new Date(0),
+  defaults: { validityMinutes: 30, maxValidityMinutes: DEFAULT_MAX_VALIDITY_MINUTES },
+};
+
+type WorkspaceListener = (active: Workspace) => void;
+
+/**
+ * Workspace that owns a URL; links stored before workspaces existed
+ * (including ones replayed from old history events) belong to the default one
+ */
+export function workspaceOf(url: ShortUrl): string {
+  return url.workspaceId || DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Workspace registry and the active workspace for this tab
+ * The list is shared by every tab; each tab keeps its own active workspace,
+ * starting from the one used last.
+ */
+class WorkspaceService {
+  private static instance: WorkspaceService;
+  private activeId: string;
+  private listeners = new Set<WorkspaceListener>();
+
+  private constructor() {
+    const lastUsed = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    this.activeId = lastUsed && this.find(lastUsed) ? lastUsed : DEFAULT_WORKSPACE_ID;
+
+    crossTab.subscribe(event => {
+      // The active workspace may have been renamed or removed elsewhere
+      if (event.type === 'workspaces-changed' && event.origin === 'remote') {
+        if (!this.find(this.activeId)) {
+          this.activeId = DEFAULT_WORKSPACE_ID;
+        }
+        this.notify();
+      }
+    });
+  }
+
+  public static getInstance(): WorkspaceService {
+    if (!WorkspaceService.instance) {
+      WorkspaceService.instance = new WorkspaceService();
+    }
+    return WorkspaceService.instance;
+  }
+
+  public list(): Workspace[] {
+    try {
+      const stored = localStorage.getItem(WORKSPACES_KEY);
+      const workspaces: Workspace[] = stored
+        ? JSON.parse(stored).map((workspace: Workspace) => ({
+            ...workspace,
+            createdAt: new Date(workspace.createdAt),
+            // Workspaces saved before a setting existed get its default
+            defaults: { ...DEFAULT_WORKSPACE.defaults, ...workspace.defaults },
+          }))
+        : [];
+      return workspaces.some(workspace => workspace.id === DEFAULT_WORKSPACE_ID)
+        ? workspaces
+        : [DEFAULT_WORKSPACE, ...workspaces];
+    } catch (error) {
+      logger.error('workspaces', 'Failed to read workspaces', { error: error.message });
+      return [DEFAULT_WORKSPACE];
+    }
+  }
+
+  public getActive(): Workspace {
+    return this.find(this.activeId) || DEFAULT_WORKSPACE;
+  }
+
+  /** Longest lifetime the workspace owning `url` allows; null for no limit */
+  public maxValidityMinutesOf(url: ShortUrl): number | null {
+    return (this.find(workspaceOf(url)) || DEFAULT_WORKSPACE).defaults.maxValidityMinutes;
+  }
+
+  public getActiveId(): string {
+    return this.getActive().id;
+  }
+
+  public setActive(id: string): void {
+    if (!this.find(id)) {
+      throw new Error('Workspace not found');
+    }
+    this.activeId = id;
+    localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+    logger.info('workspaces', 'Active workspace changed', { workspaceId: id });
+    this.notify();
+  }
+
+  public create(name: string, defaults: WorkspaceDefaults = DEFAULT_WORKSPACE.defaults): Workspace {
+    const workspace: Workspace = {
+      id: uuidv4(),
+      name: this.validateName(name),
+      createdAt: new Date(),
+      defaults: this.validateDefaults(defaults),
+    };
+    this.save([...this.list(), workspace]);
+    logger.info('workspaces', 'Workspace created', { workspaceId: workspace.id });
+    return workspace;
+  }
+
+  public update(id: string, changes: { name?: string; defaults?: WorkspaceDefaults }): Workspace {
+    const existing = this.find(id);
+    if (!existing) {
+      throw new Error('Workspace not found');
+    }
+
+    const updated: Workspace = {
+      ...existing,
+      name: changes.name !== undefined ? this.validateName(changes.name) : existing.name,
+      defaults: changes.defaults ? this.validateDefaults(changes.defaults) : existing.defaults,
+    };
+    this.save(this.list().map(workspace => (workspace.id === id ? updated : workspace)));
+    logger.info('workspaces', 'Workspace updated', { workspaceId: id });
+    return updated;
+  }
+
+  /**
+   * Remove a workspace from the registry; callers make sure it has no links
+   */
+  public remove(id: string): void {
+    if (id === DEFAULT_WORKSPACE_ID) {
+      throw new Error('The default workspace cannot be deleted');
+    }
+    this.save(this.list().filter(workspace => workspace.id !== id));
+    if (this.activeId === id) {
+      this.setActive(DEFAULT_WORKSPACE_ID);
+    }
+    logger.info('workspaces', 'Workspace deleted', { workspaceId: id });
+  }
+
+  /**
+   * Listen for active workspace changes and workspace edits
+   */
+  public subscribe(listener: WorkspaceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private find(id: string): Workspace | undefined {
+    return this.list().find(workspace => workspace.id === id);
+  }
+
+  private save(workspaces: Workspace[]): void {
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+    crossTab.broadcast({ type: 'workspaces-changed', shortcodes: [] });
+    this.notify();
+  }
+
+  private validateName(name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Workspace name is required');
+    }
+    if (this.list().some(workspace => workspace.name.toLowerCase() === trimmed.toLowerCase())) {
+      throw new Error(`A workspace named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  private validateDefaults(defaults: WorkspaceDefaults): WorkspaceDefaults {
+    const { maxValidityMinutes } = defaults;
+    if (maxValidityMinutes !== null && !isValidValidityMinutes(maxValidityMinutes, null)) {
+      throw new Error('Maximum validity must be a positive whole number of minutes');
+    }
+    if (!isValidValidityMinutes(defaults.validityMinutes, maxValidityMinutes)) {
+      throw new Error(maxValidityMinutes === null
+        ? 'Default validity must be a positive whole number of minutes'
+        : `Default validity must be between 1 and ${maxValidityMinutes} minutes`);
+    }
+    return { ...defaults };
+  }
+
+  private notify(): void {
+    const active = this.getActive();
+    this.listeners.forEach(listener => listener(active));
+  }
+}
+
+export const workspaceService = WorkspaceService.getInstance();
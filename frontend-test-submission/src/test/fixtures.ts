@@ -0,0 +1,44 @@
+import { ShortUrl, StorageEvent } from '../types';
+import { createEvent } from '../services/eventLog';
+
+/**
+ * A link at the current schema; override only what a test cares about
+ */
+export function makeUrl(overrides: Partial<ShortUrl> = {}): ShortUrl {
+  const createdAt = overrides.createdAt || new Date('2024-01-01T00:00:00Z');
+  return {
+    id: `id-${overrides.shortcode || 'abc123'}`,
+    originalUrl: 'https://example.com/',
+    shortcode: 'abc123',
+    createdAt,
+    expiresAt: new Date(createdAt.getTime() + 30 * 60 * 1000),
+    validityMinutes: 30,
+    clickCount: 0,
+    isCustomShortcode: false,
+    workspaceId: 'default',
+    isPaused: false,
+    deletedAt: null,
+    password: null,
+    maxClicks: null,
+    activatesAt: null,
+    activeHours: null,
+    redirectRules: [],
+    splitVariants: [],
+    passthrough: null,
+    inactivityDays: null,
+    fallbackUrl: null,
+    expiredMessage: null,
+    ...overrides,
+  };
+}
+
+/**
+ * An event at a fixed time, so replay order is deterministic
+ */
+export function makeEvent(
+  type: StorageEvent['type'],
+  at: string,
+  fields: Partial<Omit<StorageEvent, 'type'>> = {}
+): StorageEvent {
+  return { ...createEvent(type, { shortcodes: [], ...fields }), timestamp: new Date(at), ...fields };
+}
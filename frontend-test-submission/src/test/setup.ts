@@ -0,0 +1,21 @@
+import { afterEach, vi } from 'vitest';
+
+// The logger ships entries to a remote endpoint; keep tests offline and quiet
+vi.mock('../middleware/logger', () => {
+  const noop = async () => {};
+  return {
+    logger: {
+      info: noop,
+      warn: noop,
+      error: noop,
+      debug: noop,
+      logUserAction: noop,
+      logUrlEvent: noop,
+      logAnalyticsEvent: noop,
+    },
+  };
+});
+
+afterEach(() => {
+  localStorage.clear();
+});
@@ -3,28 +3,223 @@ export interface ShortUrl {
   originalUrl: string;
   shortcode: string;
   createdAt: Date;
-  expiresAt: Date;
+  /** Null for links that never expire */
+  expiresAt: Date | null;
+  /** Lifetime the link was created with; 0 for links that never expire */
   validityMinutes: number;
-  clicks: ClickEvent[];
+  clickCount: number;
+  lastClickAt?: Date;
   isCustomShortcode: boolean;
+  /** Workspace the link belongs to; shortcodes stay unique across all workspaces */
+  workspaceId: string;
+  /** Paused links stop redirecting until resumed */
+  isPaused: boolean;
+  /** Set while the link is in the trash; null for live links */
+  deletedAt: Date | null;
+  /** Required before redirecting; only a salted hash is kept */
+  password: LinkPasswordHash | null;
+  /** Redirects allowed before the link is used up; null for unlimited */
+  maxClicks: number | null;
+  /** Link stays closed until this time; null to go live immediately */
+  activatesAt: Date | null;
+  /** Recurring weekly windows the link is open in; null for always */
+  activeHours: ActiveHours | null;
+  /** Checked in order before falling back to originalUrl */
+  redirectRules: RedirectRule[];
+  /** A/B test destinations; empty when visitors all go to originalUrl */
+  splitVariants: SplitVariant[];
+  /** Forward the visitor's query string and extra path; null when off */
+  passthrough: PassthroughSettings | null;
+  /** Days without clicks before the link expires; each click pushes expiresAt out again */
+  inactivityDays: number | null;
+  /** Visitors are sent here once the link has expired; null shows the expired page */
+  fallbackUrl: string | null;
+  /** Shown on the expired page instead of the default text */
+  expiredMessage: string | null;
+}
+
+/**
+ * How a new link expires
+ */
+export type ExpiryPolicy =
+  | { type: 'duration'; minutes: number }
+  | { type: 'date'; expiresAt: Date }
+  | { type: 'never' }
+  | { type: 'inactivity'; days: number };
+
+export type ExpiryType = ExpiryPolicy['type'];
+
+/**
+ * Which side keeps a query parameter present on both the short URL visit and
+ * the destination
+ */
+export type QueryConflictPolicy = 'destination' | 'incoming' | 'both';
+
+export interface PassthroughSettings {
+  /** Merge the visitor's query parameters into the destination */
+  forwardQuery: boolean;
+  conflictPolicy: QueryConflictPolicy;
+  /** Append path segments after the shortcode to the destination path */
+  wildcardPath: boolean;
+}
+
+/**
+ * Weekly window, e.g. weekdays 09:00-17:00
+ */
+export interface ActiveWindow {
+  /** Days of the week, 0 = Sunday */
+  days: number[];
+  /** "HH:MM", inclusive */
+  start: string;
+  /** "HH:MM", exclusive; must be after start */
+  end: string;
+}
+
+/**
+ * Recurring windows evaluated in an IANA time zone
+ */
+export interface ActiveHours {
+  timeZone: string;
+  windows: ActiveWindow[];
+}
+
+export type DeviceType = 'ios' | 'android' | 'desktop';
+
+/**
+ * When a redirect rule applies to a visitor
+ */
+export type RuleCondition =
+  | { type: 'device'; devices: DeviceType[] }
+  /** Language tags from navigator.languages; "pt" also matches "pt-BR" */
+  | { type: 'language'; languages: string[] }
+  /** Country names or ISO codes from the geo lookup */
+  | { type: 'country'; countries: string[] }
+  | { type: 'time'; hours: ActiveHours };
+
+/**
+ * Sends visitors matching `condition` to `destination` instead of the link's URL
+ */
+export interface RedirectRule {
+  id: string;
+  condition: RuleCondition;
+  destination: string;
+}
+
+/**
+ * One destination of an A/B split
+ */
+export interface SplitVariant {
+  id: string;
+  /** Short label shown in analytics, e.g. "A" */
+  name: string;
+  destination: string;
+  /** Relative share of visitors; 0 stops serving the variant */
+  weight: number;
+}
+
+/**
+ * Salted PBKDF2 hash of a link password
+ */
+export interface LinkPasswordHash {
+  salt: string;
+  iterations: number;
+  hash: string;
 }
 
 export interface ClickEvent {
   id: string;
+  shortcode: string;
   timestamp: Date;
   referrer: string;
   userAgent: string;
   ipAddress?: string;
   geoLocation?: {
     country?: string;
+    countryCode?: string;
     city?: string;
   };
+  /** Redirect rule that chose the destination; absent when the default was used */
+  matchedRuleId?: string;
+  /** A/B split variant served; absent when the link had no split */
+  variantId?: string;
+}
+
+/**
+ * Settings applied to new links created in a workspace
+ */
+export interface WorkspaceDefaults {
+  validityMinutes: number;
+  /** Longest lifetime a new link may have; null also allows links that never expire */
+  maxValidityMinutes: number | null;
+}
+
+/**
+ * Named collection of links, e.g. one per client
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: Date;
+  defaults: WorkspaceDefaults;
 }
 
 export interface CreateUrlRequest {
   originalUrl: string;
   validityMinutes?: number;
+  /** Takes precedence over validityMinutes */
+  expiry?: ExpiryPolicy;
   customShortcode?: string;
+  /** Visitors must enter this before being redirected */
+  password?: string;
+  /** Redirects allowed before the link is used up; 1 makes a one-time link */
+  maxClicks?: number;
+  /** Keep the link closed until this time, e.g. for a campaign launch */
+  activatesAt?: Date;
+  /** Only redirect within these recurring windows */
+  activeHours?: ActiveHours;
+  /** Merged into originalUrl as utm_* query parameters */
+  utm?: UtmParameters;
+  passthrough?: PassthroughSettings;
+  /** Where visitors go once the link has expired */
+  fallbackUrl?: string;
+  expiredMessage?: string;
+  /** Return an existing plain link to the same destination instead of creating one */
+  dedupe?: boolean;
+}
+
+/**
+ * Campaign tags added to a destination as utm_* query parameters
+ */
+export interface UtmParameters {
+  source?: string;
+  medium?: string;
+  campaign?: string;
+  term?: string;
+  content?: string;
+}
+
+/**
+ * Named set of UTM parameters saved for reuse
+ */
+export interface UtmPreset {
+  id: string;
+  name: string;
+  params: UtmParameters;
+}
+
+/**
+ * Fields of an existing link that can be edited after creation
+ */
+export interface UpdateUrlRequest {
+  originalUrl?: string;
+  /** Null makes the link never expire; either way inactivity expiry is turned off */
+  expiresAt?: Date | null;
+  isPaused?: boolean;
+  redirectRules?: RedirectRule[];
+  splitVariants?: SplitVariant[];
+  passthrough?: PassthroughSettings | null;
+  fallbackUrl?: string | null;
+  expiredMessage?: string | null;
 }
 
 export type LogLevel = 'info' | 'warn' | 'error' | 'debug';
@@ -45,5 +240,166 @@ export type ValidationError = {
 
 export interface CreateUrlsResponse {
   success: ShortUrl[];
-  errors: Array<{ index: number; error: string }>;
-}
\ No newline at end of file
+  /** Shortcodes in `success` that already existed and were reused by dedupe */
+  reused: string[];
+  /** Why dedupe reused a link, or created a new one, keyed by shortcode */
+  dedupeReasons: Record<string, string>;
+  errors: Array<{
+    index: number;
+    error: string;
+    /** Available alternatives when the custom shortcode was taken */
+    suggestions?: string[];
+  }>;
+}
+
+/**
+ * Last-known-good copy of the stored URLs, taken before a write
+ */
+export interface StorageSnapshot {
+  id: string;
+  createdAt: Date;
+  urlCount: number;
+}
+
+export type StorageChangeType =
+  | 'urls-saved'
+  | 'click-recorded'
+  | 'clicks-compacted'
+  | 'data-replaced'
+  | 'encryption-changed'
+  | 'workspaces-changed';
+
+/**
+ * Notification that stored data changed, in this tab or another one
+ */
+export interface StorageChangeEvent {
+  type: StorageChangeType;
+  shortcodes: string[];
+  origin: 'local' | 'remote';
+}
+
+export interface ClickPage {
+  clicks: ClickEvent[];
+  total: number;
+  hasMore: boolean;
+}
+
+export type StorageEventType = 'created' | 'clicked' | 'updated' | 'deleted' | 'imported' | 'undone' | 'redone';
+
+/**
+ * One entry in the append-only mutation log; stored URLs are its projection
+ */
+export interface StorageEvent {
+  id: string;
+  type: StorageEventType;
+  timestamp: Date;
+  /** Device that wrote the event, so merged logs stay attributable */
+  deviceId: string;
+  shortcodes: string[];
+  /** created / imported: the full URL records */
+  urls?: ShortUrl[];
+  /** Schema version `urls` were written at; missing on events from before it was recorded */
+  schemaVersion?: number;
+  /** imported: replace every existing URL instead of merging */
+  replace?: boolean;
+  /** imported: state recorded when the log was started; cannot be undone */
+  baseline?: boolean;
+  /** updated: the fields that changed */
+  changes?: Partial<ShortUrl>;
+  /** clicked: when the click happened; the last one for a compacted hour */
+  clickedAt?: Date;
+  /** clicked: clicks a compacted event stands for; missing on a single click */
+  clickCount?: number;
+  /** undone / redone: the event being reverted or re-applied */
+  targetId?: string;
+}
+
+export type RollupGranularity = 'hour' | 'day';
+
+/**
+ * Aggregate of raw clicks compacted out of the click store by the retention policy
+ */
+export interface ClickRollup {
+  /** `${shortcode}:${granularity}:${bucketStart ISO}` */
+  id: string;
+  shortcode: string;
+  granularity: RollupGranularity;
+  bucketStart: Date;
+  count: number;
+  byReferrer: Record<string, number>;
+  byCountry: Record<string, number>;
+  byUserAgent: Record<string, number>;
+  /** Keyed by variant id; missing on rollups written before A/B splits */
+  byVariant?: Record<string, number>;
+}
+
+/**
+ * Click totals for one link, merged from raw clicks and rollups
+ */
+export interface ClickBreakdown {
+  total: number;
+  byReferrer: Record<string, number>;
+  byCountry: Record<string, number>;
+  byUserAgent: Record<string, number>;
+  byVariant: Record<string, number>;
+  timeline: Array<{ bucketStart: Date; count: number }>;
+}
+
+/**
+ * Persistence backend used by StorageService.
+ * Implementations store URLs, and append-only click events keyed by shortcode.
+ */
+/**
+ * Everything a backend holds besides snapshots, e.g. for re-keying
+ */
+export interface StorageContents {
+  urls: ShortUrl[];
+  clicks: ClickEvent[];
+  rollups: ClickRollup[];
+  events: StorageEvent[];
+}
+
+export interface SnapshotContents {
+  urls: ShortUrl[];
+  /** Clicks embedded in snapshots taken before clicks had their own store */
+  clicks: ClickEvent[];
+}
+
+export interface StorageBackend {
+  readonly name: string;
+  isAvailable(): Promise<boolean>;
+  getAllUrls(): Promise<ShortUrl[]>;
+  getUrl(shortcode: string): Promise<ShortUrl | null>;
+  putUrls(urls: ShortUrl[]): Promise<void>;
+  appendClicks(clicks: ClickEvent[]): Promise<void>;
+  /** Clicks for one shortcode, newest first */
+  getClicks(shortcode: string, offset: number, limit: number): Promise<ClickPage>;
+  getAllClicks(): Promise<ClickEvent[]>;
+  getClicksBefore(cutoff: Date): Promise<ClickEvent[]>;
+  getRollups(shortcode: string): Promise<ClickRollup[]>;
+  getAllRollups(): Promise<ClickRollup[]>;
+  /** Store merged rollups and drop the raw clicks they now cover, in one step */
+  compactClicks(rollups: ClickRollup[], removedClickIds: string[]): Promise<void>;
+  /** Permanently remove URLs along with their clicks and rollups */
+  deleteUrls(shortcodes: string[]): Promise<void>;
+  /** Remove URL records only; the click log is kept */
+  clearUrls(): Promise<void>;
+  clear(): Promise<void>;
+  listSnapshots(): Promise<StorageSnapshot[]>;
+  writeSnapshot(urls: ShortUrl[]): Promise<void>;
+  readSnapshot(id: string): Promise<SnapshotContents>;
+  clearSnapshots(): Promise<void>;
+  appendEvents(events: StorageEvent[]): Promise<void>;
+  /** Store compacted events and drop the ones they replace, in one step */
+  compactEvents(added: StorageEvent[], removedIds: string[]): Promise<void>;
+  /** The full mutation log, oldest first */
+  getEvents(): Promise<StorageEvent[]>;
+  hasEvents(): Promise<boolean>;
+  /**
+   * Swap every URL, click, rollup and event for `contents` in one step, and
+   * record `keyId`, the key they are written under, alongside them
+   */
+  replaceAll(contents: StorageContents, keyId: string): Promise<void>;
+  /** keyId recorded by the last replaceAll; null before the first */
+  getKeyId(): Promise<string | null>;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  isValidShortcode,
+  isValidUrl,
+  normalizeUrl,
+  sanitizeShortcode,
+  validateActiveHours,
+  validateExpiryPolicy,
+  validateUpdateRequest,
+  validateUrlRequests,
+} from './validation';
+
+const start = new Date('2024-01-01T00:00:00Z');
+
+describe('format checks', () => {
+  it('accepts only http and https URLs', () => {
+    expect(isValidUrl('https://example.com')).toBe(true);
+    expect(isValidUrl('ftp://example.com')).toBe(false);
+    expect(isValidUrl('example.com')).toBe(false);
+  });
+
+  it('accepts 3-20 alphanumeric shortcodes', () => {
+    expect(isValidShortcode('abc')).toBe(true);
+    expect(isValidShortcode('ab')).toBe(false);
+    expect(isValidShortcode('a'.repeat(21))).toBe(false);
+    expect(isValidShortcode('ab-c')).toBe(false);
+    expect(sanitizeShortcode(' ab-c_1 ')).toBe('abc1');
+  });
+
+  it('normalizes URLs for comparison', () => {
+    expect(normalizeUrl(' HTTPS://Example.COM:443/a/../b ')).toBe('https://example.com/b');
+    expect(normalizeUrl('not a url')).toBe('not a url');
+  });
+});
+
+describe('validateExpiryPolicy', () => {
+  it('checks durations against the workspace maximum', () => {
+    expect(validateExpiryPolicy({ type: 'duration', minutes: 60 }, 120, start)).toBeNull();
+    expect(validateExpiryPolicy({ type: 'duration', minutes: 121 }, 120, start)).toBe('Validity must be between 1 and 120 minutes');
+    expect(validateExpiryPolicy({ type: 'duration', minutes: 0 }, null, start)).toBe('Validity must be a positive whole number minutes');
+  });
+
+  it('requires a date after go-live and within the maximum', () => {
+    expect(validateExpiryPolicy({ type: 'date', expiresAt: new Date('2023-12-31') }, null, start))
+      .toBe('Expiry must be after the link goes live');
+    expect(validateExpiryPolicy({ type: 'date', expiresAt: new Date('2024-01-01T03:00:00Z') }, 120, start))
+      .toBe('Expiry can be at most 120 minutes after the link goes live');
+    expect(validateExpiryPolicy({ type: 'date', expiresAt: new Date('invalid') }, null, start)).toBe('Expiry is not a valid date');
+  });
+
+  it('allows 30 days without clicks under the default maximum', () => {
+    expect(validateExpiryPolicy({ type: 'inactivity', days: 30 }, undefined, start)).toBeNull();
+    expect(validateExpiryPolicy({ type: 'inactivity', days: 31 }, undefined, start))
+      .toBe('Inactivity can be at most 43200 minutes in this workspace');
+  });
+
+  it('only allows never-expiring links without a maximum', () => {
+    expect(validateExpiryPolicy({ type: 'never' }, null, start)).toBeNull();
+    expect(validateExpiryPolicy({ type: 'never' }, 120, start)).toBe('Links in this workspace must expire within 120 minutes');
+  });
+});
+
+describe('validateActiveHours', () => {
+  const hours = { timeZone: 'UTC', windows: [{ days: [1, 2], start: '09:00', end: '17:00' }] };
+
+  it('accepts well-formed windows', () => {
+    expect(validateActiveHours(hours)).toBeNull();
+  });
+
+  it('reports the first problem', () => {
+    expect(validateActiveHours({ ...hours, timeZone: 'Mars/Base' })).toBe('Unknown time zone "Mars/Base"');
+    expect(validateActiveHours({ ...hours, windows: [{ days: [1], start: '17:00', end: '09:00' }] }))
+      .toBe('Active hours must end after they start');
+  });
+});
+
+describe('validateUrlRequests', () => {
+  it('rejects duplicate custom shortcodes in one batch, ignoring case', () => {
+    const { valid, errors } = validateUrlRequests([
+      { originalUrl: 'https://a.example', customShortcode: 'Promo' },
+      { originalUrl: 'https://b.example', customShortcode: 'promo' },
+    ]);
+    expect(valid).toHaveLength(1);
+    expect(errors).toEqual([{ index: 1, errors: [{ field: 'customShortcode', message: 'Duplicate shortcode in request' }] }]);
+  });
+
+  it('rejects more than five links', () => {
+    const requests = Array.from({ length: 6 }, () => ({ originalUrl: 'https://a.example' }));
+    expect(validateUrlRequests(requests).errors[0].errors[0].message).toBe('Maximum 5 URLs allowed per request');
+  });
+});
+
+describe('validateUpdateRequest', () => {
+  it('requires a new expiry in the future and within the maximum', () => {
+    expect(validateUpdateRequest({ expiresAt: new Date('2023-12-31') }, start, null)[0].message)
+      .toBe('Expiry must be a date in the future');
+    expect(validateUpdateRequest({ expiresAt: new Date('2024-01-01T03:00:00Z') }, start, 120)[0].message)
+      .toBe('Expiry can be at most 120 minutes after the link went live');
+    expect(validateUpdateRequest({ expiresAt: new Date('2024-01-01T01:00:00Z') }, start, 120)).toEqual([]);
+  });
+
+  it('counts the maximum from go-live, so extending twice cannot pass it', () => {
+    // Live since 00:00 with a 120 minute maximum; first extension to 01:30 is fine
+    const later = new Date('2024-01-01T01:00:00Z');
+    expect(validateUpdateRequest({ expiresAt: new Date('2024-01-01T01:30:00Z') }, start, 120, start)).toEqual([]);
+    // A second extension an hour later would be within 120 minutes of now, but not of go-live
+    expect(validateUpdateRequest({ expiresAt: new Date('2024-01-01T02:30:00Z') }, later, 120, start)[0].message)
+      .toBe('Expiry can be at most 120 minutes after the link went live');
+    expect(validateUpdateRequest({ expiresAt: new Date('2024-01-01T02:00:00Z') }, later, 120, start)).toEqual([]);
+  });
+});
@@ -1,5 +1,11 @@
-import { CreateUrlRequest, ValidationError } from '../types';
+import { ActiveHours, CreateUrlRequest, ExpiryPolicy, RedirectRule, SplitVariant, UpdateUrlRequest, ValidationError } from '../types';
 import { logger } from '../middleware/logger';
+import { MIN_LINK_PASSWORD_LENGTH } from '../services/linkPasswords';
+import { isValidTimeZone, parseTimeOfDay } from '../services/schedules';
+import { MAX_SPLIT_VARIANTS, MAX_VARIANT_WEIGHT } from '../services/splitTests';
+import { MAX_UTM_VALUE_LENGTH, UTM_FIELDS } from '../services/utm';
+import { randomShortcode, shortcodeRejection } from '../services/shortcodes';
+import { MAX_EXPIRED_MESSAGE_LENGTH, MAX_INACTIVITY_DAYS, policyMinutes } from '../services/expiry';
 
 /**
  * Validation utilities for URL shortener
@@ -26,29 +32,181 @@ export function isValidShortcode(shortcode: string): boolean {
   return pattern.test(shortcode);
 }
 
+/** Longest link lifetime unless a workspace sets its own limit (30 days, e.g. 30 days without clicks) */
+export const DEFAULT_MAX_VALIDITY_MINUTES = 43200;
+
 /**
- * Validate validity minutes (positive integer, max 10080 = 1 week)
+ * Validate validity minutes (positive integer, at most `maxMinutes`; null for no limit)
  */
-export function isValidValidityMinutes(minutes: number): boolean {
-  return Number.isInteger(minutes) && minutes > 0 && minutes <= 10080;
+export function isValidValidityMinutes(
+  minutes: number,
+  maxMinutes: number | null = DEFAULT_MAX_VALIDITY_MINUTES
+): boolean {
+  return Number.isInteger(minutes) && minutes > 0 && (maxMinutes === null || minutes <= maxMinutes);
 }
 
 /**
- * Generate random shortcode
+ * Validate how a new link expires against the workspace's longest allowed
+ * lifetime; returns a message describing the first problem
+ * @param start when the link goes live, which a duration counts from
  */
-export function generateShortcode(length: number = 6): string {
-  const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let result = '';
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+export function validateExpiryPolicy(
+  policy: ExpiryPolicy,
+  maxMinutes: number | null = DEFAULT_MAX_VALIDITY_MINUTES,
+  start: Date = new Date()
+): string | null {
+  const limit = maxMinutes === null ? 'a positive whole number' : `between 1 and ${maxMinutes}`;
+  switch (policy.type) {
+    case 'duration':
+      return isValidValidityMinutes(policy.minutes, maxMinutes)
+        ? null
+        : `Validity must be ${limit} minutes`;
+    case 'date':
+      if (!(policy.expiresAt instanceof Date) || isNaN(policy.expiresAt.getTime())) {
+        return 'Expiry is not a valid date';
+      }
+      if (policy.expiresAt <= start) {
+        return 'Expiry must be after the link goes live';
+      }
+      return maxMinutes !== null && policyMinutes(policy, start)! > maxMinutes
+        ? `Expiry can be at most ${maxMinutes} minutes after the link goes live`
+        : null;
+    case 'inactivity':
+      if (!Number.isInteger(policy.days) || policy.days < 1 || policy.days > MAX_INACTIVITY_DAYS) {
+        return `Inactivity must be between 1 and ${MAX_INACTIVITY_DAYS} days`;
+      }
+      return maxMinutes !== null && policyMinutes(policy, start)! > maxMinutes
+        ? `Inactivity can be at most ${maxMinutes} minutes in this workspace`
+        : null;
+    case 'never':
+      return maxMinutes === null
+        ? null
+        : `Links in this workspace must expire within ${maxMinutes} minutes`;
+    default:
+      return 'Unknown expiry policy';
+  }
+}
+
+/**
+ * Validate a click cap (positive integer, max 1,000,000)
+ */
+export function isValidMaxClicks(maxClicks: number): boolean {
+  return Number.isInteger(maxClicks) && maxClicks > 0 && maxClicks <= 1000000;
+}
+
+/**
+ * Validate recurring active hours; returns a message describing the first problem
+ */
+export function validateActiveHours(hours: ActiveHours): string | null {
+  if (!isValidTimeZone(hours.timeZone)) {
+    return `Unknown time zone "${hours.timeZone}"`;
+  }
+  if (hours.windows.length === 0) {
+    return 'Add at least one active window';
   }
-  return result;
+  for (const window of hours.windows) {
+    if (window.days.length === 0 || window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return 'Each active window needs at least one day of the week';
+    }
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) {
+      return 'Active hours must be times in HH:MM format';
+    }
+    if (start >= end) {
+      return 'Active hours must end after they start';
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate what visitors get after a link expires; empty values are allowed
+ * and fall back to the default expired page
+ */
+export function validateExpiredBehavior(
+  fallbackUrl: string | null | undefined,
+  expiredMessage: string | null | undefined
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (fallbackUrl?.trim() && !isValidUrl(fallbackUrl.trim())) {
+    errors.push({ field: 'fallbackUrl', message: 'Fallback URL must start with http:// or https://' });
+  }
+  if (expiredMessage && expiredMessage.trim().length > MAX_EXPIRED_MESSAGE_LENGTH) {
+    errors.push({ field: 'expiredMessage', message: `Expired message must be at most ${MAX_EXPIRED_MESSAGE_LENGTH} characters` });
+  }
+  return errors;
+}
+
+/** Most redirect rules a single link can have */
+export const MAX_REDIRECT_RULES = 20;
+
+/**
+ * Validate one redirect rule; returns a message describing the first problem
+ */
+export function validateRedirectRule(rule: RedirectRule): string | null {
+  if (!isValidUrl(rule.destination.trim())) {
+    return 'Destination must be a URL starting with http:// or https://';
+  }
+
+  const { condition } = rule;
+  switch (condition.type) {
+    case 'device':
+      return condition.devices.length === 0 ? 'Pick at least one device' : null;
+    case 'language':
+      return condition.languages.length === 0 || condition.languages.some(language => !/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(language))
+        ? 'Languages must be tags like "en" or "pt-BR"'
+        : null;
+    case 'country':
+      return condition.countries.length === 0 || condition.countries.some(country => country.trim() === '')
+        ? 'Name at least one country'
+        : null;
+    case 'time':
+      return validateActiveHours(condition.hours);
+    default:
+      return 'Unknown rule condition';
+  }
+}
+
+/**
+ * Validate an A/B split; an empty list turns the split off
+ */
+export function validateSplitVariants(variants: SplitVariant[]): string | null {
+  if (variants.length === 0) return null;
+  if (variants.length < 2) {
+    return 'An A/B split needs at least two variants';
+  }
+  if (variants.length > MAX_SPLIT_VARIANTS) {
+    return `An A/B split can have at most ${MAX_SPLIT_VARIANTS} variants`;
+  }
+  if (variants.some(variant => !isValidUrl(variant.destination.trim()))) {
+    return 'Every variant needs a URL starting with http:// or https://';
+  }
+  if (variants.some(variant => !Number.isInteger(variant.weight) || variant.weight < 0 || variant.weight > MAX_VARIANT_WEIGHT)) {
+    return `Weights must be whole numbers from 0 to ${MAX_VARIANT_WEIGHT}`;
+  }
+  if (variants.every(variant => variant.weight === 0)) {
+    return 'At least one variant needs a weight above 0';
+  }
+  return null;
+}
+
+/**
+ * Generate a crypto-random shortcode; new links go through the configured
+ * strategy in UrlService instead
+ */
+export function generateShortcode(length: number = 6): string {
+  return randomShortcode(length);
 }
 
 /**
  * Validate a single URL creation request
+ * @param maxValidityMinutes the workspace's longest allowed lifetime; null for no limit
  */
-export function validateUrlRequest(request: CreateUrlRequest): ValidationError[] {
+export function validateUrlRequest(
+  request: CreateUrlRequest,
+  maxValidityMinutes: number | null = DEFAULT_MAX_VALIDITY_MINUTES
+): ValidationError[] {
   const errors: ValidationError[] = [];
 
   // Validate original URL
@@ -58,12 +216,20 @@ export function validateUrlRequest(request: CreateUrlRequest): ValidationError[]
     errors.push({ field: 'originalUrl', message: 'Invalid URL format. Must start with http:// or https://' });
   }
 
-  // Validate validity minutes
-  if (request.validityMinutes !== undefined) {
-    if (!isValidValidityMinutes(request.validityMinutes)) {
+  // Validate expiry; an explicit policy takes precedence over validity minutes
+  if (request.expiry !== undefined) {
+    const start = request.activatesAt && !isNaN(request.activatesAt.getTime()) ? request.activatesAt : new Date();
+    const problem = validateExpiryPolicy(request.expiry, maxValidityMinutes, start);
+    if (problem) {
+      errors.push({ field: 'expiry', message: problem });
+    }
+  } else if (request.validityMinutes !== undefined) {
+    if (!isValidValidityMinutes(request.validityMinutes, maxValidityMinutes)) {
       errors.push({ 
         field: 'validityMinutes', 
-        message: 'Validity must be a positive integer between 1 and 10080 minutes (1 week)' 
+        message: maxValidityMinutes === null
+          ? 'Validity must be a positive integer number of minutes'
+          : `Validity must be a positive integer between 1 and ${maxValidityMinutes} minutes`
       });
     }
   }
@@ -75,9 +241,59 @@ export function validateUrlRequest(request: CreateUrlRequest): ValidationError[]
         field: 'customShortcode', 
         message: 'Shortcode must be 3-20 characters long and contain only letters and numbers' 
       });
+    } else {
+      const rejection = shortcodeRejection(request.customShortcode.trim());
+      if (rejection) {
+        errors.push({ field: 'customShortcode', message: rejection });
+      }
+    }
+  }
+
+  // Validate optional click cap
+  if (request.maxClicks !== undefined && !isValidMaxClicks(request.maxClicks)) {
+    errors.push({
+      field: 'maxClicks',
+      message: 'Max clicks must be a whole number between 1 and 1000000'
+    });
+  }
+
+  // Validate optional password
+  if (request.password !== undefined && request.password !== '' && request.password.length < MIN_LINK_PASSWORD_LENGTH) {
+    errors.push({
+      field: 'password',
+      message: `Password must be at least ${MIN_LINK_PASSWORD_LENGTH} characters`
+    });
+  }
+
+  // Validate optional schedule
+  if (request.activatesAt !== undefined) {
+    if (isNaN(request.activatesAt.getTime())) {
+      errors.push({ field: 'activatesAt', message: 'Go-live time is not a valid date' });
+    } else if (request.activatesAt <= new Date()) {
+      errors.push({ field: 'activatesAt', message: 'Go-live time must be in the future' });
+    }
+  }
+
+  if (request.activeHours !== undefined) {
+    const problem = validateActiveHours(request.activeHours);
+    if (problem) {
+      errors.push({ field: 'activeHours', message: problem });
     }
   }
 
+  // Validate optional expired page settings
+  errors.push(...validateExpiredBehavior(request.fallbackUrl, request.expiredMessage));
+
+  // Validate optional UTM parameters
+  if (request.utm !== undefined) {
+    UTM_FIELDS
+      .filter(field => (request.utm[field]?.trim().length || 0) > MAX_UTM_VALUE_LENGTH)
+      .forEach(field => errors.push({
+        field: `utm_${field}`,
+        message: `utm_${field} must be at most ${MAX_UTM_VALUE_LENGTH} characters`
+      }));
+  }
+
   // Log validation results
   if (errors.length > 0) {
     logger.warn('validation', 'URL request validation failed', { 
@@ -91,7 +307,10 @@ export function validateUrlRequest(request: CreateUrlRequest): ValidationError[]
 /**
  * Validate multiple URL creation requests
  */
-export function validateUrlRequests(requests: CreateUrlRequest[]): {
+export function validateUrlRequests(
+  requests: CreateUrlRequest[],
+  maxValidityMinutes: number | null = DEFAULT_MAX_VALIDITY_MINUTES
+): {
   valid: CreateUrlRequest[];
   errors: Array<{ index: number; errors: ValidationError[] }>;
 } {
@@ -116,11 +335,11 @@ export function validateUrlRequests(requests: CreateUrlRequest[]): {
   const usedShortcodes = new Set<string>();
 
   requests.forEach((request, index) => {
-    const requestErrors = validateUrlRequest(request);
+    const requestErrors = validateUrlRequest(request, maxValidityMinutes);
     
-    // Check for duplicate custom shortcodes within the same request
+    // Check for duplicate custom shortcodes within the same request; case is ignored
     if (request.customShortcode && request.customShortcode.trim() !== '') {
-      const shortcode = request.customShortcode.trim();
+      const shortcode = request.customShortcode.trim().toLowerCase();
       if (usedShortcodes.has(shortcode)) {
         requestErrors.push({ 
           field: 'customShortcode', 
@@ -147,6 +366,68 @@ export function validateUrlRequests(requests: CreateUrlRequest[]): {
   return { valid, errors };
 }
 
+/**
+ * Validate edits to an existing URL
+ * A new expiry must be in the future and within the workspace's longest
+ * allowed lifetime counted from when the link went live, the same limit that
+ * applies at creation, so repeated edits cannot keep a link alive past it
+ * @param liveSince when the link went live: its activatesAt, else createdAt
+ */
+export function validateUpdateRequest(
+  request: UpdateUrlRequest,
+  now: Date = new Date(),
+  maxValidityMinutes: number | null = DEFAULT_MAX_VALIDITY_MINUTES,
+  liveSince: Date = now
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (request.originalUrl !== undefined && !isValidUrl(request.originalUrl.trim())) {
+    errors.push({ field: 'originalUrl', message: 'Invalid URL format. Must start with http:// or https://' });
+  }
+
+  if (request.expiresAt === null) {
+    if (maxValidityMinutes !== null) {
+      errors.push({ field: 'expiresAt', message: `Links in this workspace must expire within ${maxValidityMinutes} minutes` });
+    }
+  } else if (request.expiresAt !== undefined) {
+    const time = request.expiresAt instanceof Date ? request.expiresAt.getTime() : NaN;
+    if (Number.isNaN(time) || time <= now.getTime()) {
+      errors.push({ field: 'expiresAt', message: 'Expiry must be a date in the future' });
+    } else if (maxValidityMinutes !== null && time > liveSince.getTime() + maxValidityMinutes * 60 * 1000) {
+      errors.push({ field: 'expiresAt', message: `Expiry can be at most ${maxValidityMinutes} minutes after the link went live` });
+    }
+  }
+
+  if (request.redirectRules !== undefined) {
+    if (request.redirectRules.length > MAX_REDIRECT_RULES) {
+      errors.push({ field: 'redirectRules', message: `A link can have at most ${MAX_REDIRECT_RULES} redirect rules` });
+    }
+    request.redirectRules.forEach((rule, index) => {
+      const problem = validateRedirectRule(rule);
+      if (problem) {
+        errors.push({ field: 'redirectRules', message: `Rule ${index + 1}: ${problem}` });
+      }
+    });
+  }
+
+  if (request.splitVariants !== undefined) {
+    const problem = validateSplitVariants(request.splitVariants);
+    if (problem) {
+      errors.push({ field: 'splitVariants', message: problem });
+    }
+  }
+
+  errors.push(...validateExpiredBehavior(request.fallbackUrl, request.expiredMessage));
+
+  if (errors.length > 0) {
+    logger.warn('validation', 'URL update validation failed', {
+      errors: errors.map(e => `${e.field}: ${e.message}`)
+    });
+  }
+
+  return errors;
+}
+
 /**
  * Sanitize URL input
  */
@@ -154,6 +435,18 @@ export function sanitizeUrl(url: string): string {
   return url.trim();
 }
 
+/**
+ * Comparable form of a URL for spotting duplicates: scheme and host are
+ * lower-cased, default ports and dot segments removed
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    return new URL(url.trim()).href;
+  } catch {
+    return url.trim();
+  }
+}
+
 /**
  * Sanitize shortcode input
  */